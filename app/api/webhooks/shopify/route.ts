@@ -0,0 +1,63 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  findCachedProductIds,
+  refreshCachedProducts,
+  removeCachedProduct,
+} from "@/db/catalogCache";
+import { getConfig } from "@/lib/config";
+
+// Shopify signs the raw body with the webhook secret (base64 HMAC-SHA256)
+function isValidSignature(body: string, signature: string | null) {
+  const { webhookSecret } = getConfig().shopify;
+  if (!webhookSecret || !signature) return false;
+
+  const expected = createHmac("sha256", webhookSecret)
+    .update(body, "utf8")
+    .digest();
+  const received = Buffer.from(signature, "base64");
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.text();
+  if (!isValidSignature(body, request.headers.get("x-shopify-hmac-sha256"))) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  const topic = request.headers.get("x-shopify-topic");
+  let payload;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  try {
+    switch (topic) {
+      case "products/create":
+      case "products/update":
+        await refreshCachedProducts([`gid://shopify/Product/${payload.id}`]);
+        break;
+      case "products/delete":
+        removeCachedProduct(`gid://shopify/Product/${payload.id}`);
+        break;
+      case "inventory_levels/update":
+        await refreshCachedProducts(
+          findCachedProductIds([
+            `gid://shopify/InventoryItem/${payload.inventory_item_id}`,
+          ])
+        );
+        break;
+      // Other topics are acknowledged so Shopify does not retry them
+    }
+  } catch (error) {
+    // Shopify retries failed deliveries
+    console.error(`Error handling ${topic} webhook:`, error);
+    return NextResponse.json({ error: "Refresh failed" }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
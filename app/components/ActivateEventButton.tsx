@@ -0,0 +1,43 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { activateEventProfile } from "@/db/queries";
+
+export default function ActivateEventButton({ eventId }: { eventId: string }) {
+  const router = useRouter();
+  const [isActivating, setIsActivating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClick = async () => {
+    setIsActivating(true);
+    setError(null);
+    try {
+      const result = await activateEventProfile(eventId);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      router.refresh();
+    } catch (err) {
+      console.error("Error activating event:", err);
+      setError("Could not activate the event. Try again.");
+    } finally {
+      setIsActivating(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={isActivating}
+        className="text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+      >
+        {isActivating ? "Activating..." : "Activate"}
+      </button>
+      {error && <span className="block text-xs text-red-600">{error}</span>}
+    </>
+  );
+}
@@ -1,11 +1,19 @@
 "use client";
 
 import { useEffect, useRef } from "react";
+import { COUNTRIES, CountryCode } from "@/lib/countries";
 
 interface AddressAutocompleteProps {
+  countryCode: CountryCode;
+  // The street, kept in the form so typed and prefilled addresses both count
+  value: string;
+  onChange: (street: string) => void;
   onAddressSelect: (address: {
     street: string;
     city: string;
+    province: string;
+    // Google's short name, e.g. "MI" for Milano
+    provinceShortName: string;
     zip: string;
   }) => void;
 }
@@ -108,98 +116,100 @@ const waitForGoogleMaps = () => {
 };
 
 export default function AddressAutocomplete({
+  countryCode,
+  value,
+  onChange,
   onAddressSelect,
 }: AddressAutocompleteProps) {
   const inputRef = useRef<HTMLInputElement>(null);
   const autocompleteRef = useRef<Autocomplete | null>(null);
+  // Read when a place is picked, so a new callback doesn't rebuild the widget
+  const onAddressSelectRef = useRef(onAddressSelect);
+  onAddressSelectRef.current = onAddressSelect;
 
   useEffect(() => {
     let isMounted = true;
+    const { provinceComponent } = COUNTRIES[countryCode];
 
     const initializeAutocomplete = async () => {
       try {
-        console.log("Starting to initialize autocomplete");
         await loadGoogleMapsScript();
-        console.log("Google Maps script loaded");
         await waitForGoogleMaps();
-        console.log("Google Maps API ready");
 
-        if (!isMounted || !inputRef.current) {
-          console.log("Component unmounted or input not found");
-          return;
-        }
+        if (!isMounted || !inputRef.current) return;
 
         if (!window.google?.maps?.places?.Autocomplete) {
           throw new Error("Google Maps Places API not loaded properly");
         }
 
-        console.log("Creating Autocomplete");
         // Create the Autocomplete
         const autocomplete = new window.google.maps.places.Autocomplete(
           inputRef.current,
           {
             types: ["address"],
-            componentRestrictions: { country: "ES" },
+            componentRestrictions: { country: countryCode },
           }
         );
 
         autocompleteRef.current = autocomplete;
-        console.log("Autocomplete created");
 
         // Listen for place selection
         const handlePlaceChanged = () => {
-          console.log("Place changed event triggered");
           const place = autocomplete.getPlace();
-          console.log("Place details:", place);
 
           if (place?.address_components) {
             let street = "";
             let city = "";
+            let province = "";
+            let provinceShortName = "";
             let zip = "";
 
             for (const component of place.address_components) {
               const types = component.types;
-              console.log("Component:", component.long_name, types);
 
               if (types.includes("route") || types.includes("street_number")) {
                 street = street
                   ? `${street} ${component.long_name}`
                   : component.long_name;
               }
-              if (
-                types.includes("locality") ||
-                types.includes("administrative_area_level_2")
-              ) {
+              if (types.includes("locality")) {
                 city = component.long_name;
               }
+              if (provinceComponent && types.includes(provinceComponent)) {
+                province = component.long_name;
+                provinceShortName = component.short_name;
+              }
               if (types.includes("postal_code")) {
                 zip = component.long_name;
               }
             }
 
+            // Small towns sometimes come back without a locality
+            if (!city && provinceComponent === "administrative_area_level_2") {
+              city = province;
+            }
+
             // If we have a formatted address but no street, use the formatted address
             if (!street && place.formatted_address) {
               street = place.formatted_address;
             }
 
-            console.log("Parsed address:", { street, city, zip });
-
             // Call onAddressSelect with the parsed address
-            onAddressSelect({
+            onAddressSelectRef.current({
               street: street || "",
               city: city || "",
+              province: province || "",
+              provinceShortName: provinceShortName || "",
               zip: zip || "",
             });
           }
         };
 
         // Add the event listener
-        console.log("Adding place_changed event listener");
         autocomplete.addListener("place_changed", handlePlaceChanged);
 
         // Cleanup function
         return () => {
-          console.log("Cleaning up event listener");
           if (autocompleteRef.current) {
             window.google.maps.event.clearInstanceListeners(
               autocompleteRef.current
@@ -214,15 +224,16 @@ export default function AddressAutocomplete({
     initializeAutocomplete();
 
     return () => {
-      console.log("Component unmounting");
       isMounted = false;
     };
-  }, [onAddressSelect]);
+  }, [countryCode]);
 
   return (
     <input
       ref={inputRef}
       type="text"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
       className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black"
       placeholder="Enter your address"
     />
@@ -0,0 +1,226 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+// Scanners type the code faster than anyone can, ending with Enter
+const SCANNER_KEY_INTERVAL_MS = 50;
+const MIN_CODE_LENGTH = 4;
+// The camera sees the same code on many frames; it is added once per interval
+const CAMERA_REPEAT_MS = 2000;
+
+// Not yet in TypeScript's DOM types
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<Array<{ rawValue: string }>>;
+}
+declare const BarcodeDetector: {
+  new (options?: { formats: string[] }): BarcodeDetectorLike;
+};
+
+const CAMERA_FORMATS = [
+  "ean_13",
+  "ean_8",
+  "upc_a",
+  "upc_e",
+  "code_128",
+  "code_39",
+  "qr_code",
+];
+
+function isEditable(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+export interface ScanFeedback {
+  found: boolean;
+  message: string;
+}
+
+// Short tone so staff hear the result without looking at the tablet
+export function playScanTone(found: boolean) {
+  try {
+    const audio = new AudioContext();
+    const oscillator = audio.createOscillator();
+    oscillator.frequency.value = found ? 1200 : 300;
+    oscillator.connect(audio.destination);
+    oscillator.start();
+    oscillator.stop(audio.currentTime + (found ? 0.1 : 0.35));
+    oscillator.onended = () => audio.close();
+  } catch {
+    // No audio output: the message on screen is enough
+  }
+  navigator.vibrate?.(found ? 50 : [100, 50, 100]);
+}
+
+// Listens for USB/Bluetooth scanners, which act as keyboards, while focus is
+// not in a text field. Also offers the tablet camera where the browser
+// supports BarcodeDetector.
+export default function BarcodeScanner({
+  onScan,
+  feedback,
+}: {
+  onScan: (code: string) => void;
+  // Result of the last scan, repeated over the camera view
+  feedback: ScanFeedback | null;
+}) {
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [cameraProblem, setCameraProblem] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // Latest callback, so the listeners below are only attached once
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let buffer = "";
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditable(e.target)) return;
+
+      const now = Date.now();
+      if (now - lastKeyAt > SCANNER_KEY_INTERVAL_MS) {
+        buffer = "";
+      }
+      lastKeyAt = now;
+
+      if (e.key === "Enter") {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          e.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = "";
+      } else if (e.key.length === 1) {
+        buffer += e.key;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!isCameraOpen) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+    const lastSeen = new Map<string, number>();
+
+    const start = async () => {
+      if (typeof BarcodeDetector === "undefined") {
+        setCameraProblem(
+          "This browser cannot read codes with the camera. Use a scanner or search for the product."
+        );
+        return;
+      }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "environment" },
+        });
+      } catch (err) {
+        console.error("Error opening camera:", err);
+        setCameraProblem("Could not open the camera. Check its permission.");
+        return;
+      }
+      if (stopped || !videoRef.current) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      videoRef.current.srcObject = stream;
+      await videoRef.current.play();
+
+      const detector = new BarcodeDetector({ formats: CAMERA_FORMATS });
+      const detect = async () => {
+        if (stopped || !videoRef.current) return;
+        try {
+          const codes = await detector.detect(videoRef.current);
+          const now = Date.now();
+          for (const { rawValue } of codes) {
+            if (now - (lastSeen.get(rawValue) ?? 0) < CAMERA_REPEAT_MS) {
+              continue;
+            }
+            lastSeen.set(rawValue, now);
+            onScanRef.current(rawValue);
+          }
+        } catch (err) {
+          console.error("Error reading code:", err);
+        }
+        timer = setTimeout(detect, 250);
+      };
+      detect();
+    };
+
+    start();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [isCameraOpen]);
+
+  const closeCamera = () => {
+    setIsCameraOpen(false);
+    setCameraProblem(null);
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsCameraOpen(true)}
+        className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 sm:px-4 py-2 rounded-lg font-semibold transition-colors text-sm sm:text-base"
+      >
+        Scan
+      </button>
+
+      {isCameraOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center p-3 sm:p-4 z-50">
+          <div className="bg-white rounded-xl sm:rounded-2xl w-full max-w-md p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-bold text-gray-900">Scan products</h3>
+              <button
+                type="button"
+                onClick={closeCamera}
+                className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+              >
+                Done
+              </button>
+            </div>
+            {cameraProblem ? (
+              <p className="text-sm text-red-600">{cameraProblem}</p>
+            ) : (
+              <>
+                <video
+                  ref={videoRef}
+                  muted
+                  playsInline
+                  className="w-full aspect-video bg-black rounded-lg object-cover"
+                />
+                {feedback && <ScanFeedbackMessage feedback={feedback} />}
+                <p className="text-xs text-gray-600">
+                  Point the camera at the label. Each item is added once; scan
+                  it again after a moment to add another.
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+export function ScanFeedbackMessage({ feedback }: { feedback: ScanFeedback }) {
+  return (
+    <p
+      className={`p-2 rounded-lg text-sm font-medium ${
+        feedback.found ? "bg-green-50 text-green-700" : "bg-red-50 text-red-600"
+      }`}
+    >
+      {feedback.message}
+    </p>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { recordCashCount } from "@/db/queries";
+import { formatCents, toCents } from "@/lib/money";
+import { CashCount, getExpectedCashCents } from "@/lib/reports";
+
+// Expected-vs-counted cash for the day. Amounts stay strings while typed.
+export default function CashCountForm({
+  date,
+  cashSalesCents,
+  cashRefundsCents,
+  cashCount,
+}: {
+  date: string;
+  cashSalesCents: number;
+  cashRefundsCents: number;
+  cashCount: CashCount | null;
+}) {
+  const router = useRouter();
+  const [openingFloat, setOpeningFloat] = useState(
+    cashCount ? formatCents(cashCount.openingFloatCents) : ""
+  );
+  const [counted, setCounted] = useState(
+    cashCount ? formatCents(cashCount.countedCents) : ""
+  );
+  const [note, setNote] = useState(cashCount?.note ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openingFloatCents = toCents(openingFloat || 0);
+  const expectedCents = getExpectedCashCents(
+    { cashSalesCents, cashRefundsCents },
+    { openingFloatCents }
+  );
+  const differenceCents = counted ? toCents(counted) - expectedCents : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await recordCashCount({
+        date,
+        openingFloatCents,
+        countedCents: toCents(counted || 0),
+        note,
+      });
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      // Reload the report so the exports include the count
+      router.refresh();
+    } catch (err) {
+      console.error("Error saving cash count:", err);
+      setError("Could not save the cash count. Try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 text-sm text-gray-900">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="space-y-1">
+          <span className="block text-xs font-semibold text-gray-700">
+            Opening float (€)
+          </span>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={openingFloat}
+            onChange={(e) => setOpeningFloat(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black text-right"
+            placeholder="0.00"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="block text-xs font-semibold text-gray-700">
+            Counted cash (€)
+          </span>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={counted}
+            onChange={(e) => setCounted(e.target.value)}
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black text-right"
+            placeholder="0.00"
+          />
+        </label>
+      </div>
+
+      <div className="p-3 bg-gray-50 rounded-lg space-y-1">
+        <div className="flex justify-between">
+          <span className="text-gray-600">Cash sales</span>
+          <span>€{formatCents(cashSalesCents)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600">Cash refunds</span>
+          <span>−€{formatCents(cashRefundsCents)}</span>
+        </div>
+        <div className="flex justify-between font-semibold">
+          <span>Expected in till</span>
+          <span>€{formatCents(expectedCents)}</span>
+        </div>
+        {differenceCents !== null && (
+          <div
+            className={`flex justify-between font-semibold ${
+              differenceCents === 0 ? "text-green-600" : "text-red-600"
+            }`}
+          >
+            <span>{differenceCents < 0 ? "Short" : "Over"}</span>
+            <span>€{formatCents(Math.abs(differenceCents))}</span>
+          </div>
+        )}
+      </div>
+
+      <label className="block space-y-1">
+        <span className="block text-xs font-semibold text-gray-700">Note</span>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black"
+          placeholder="Explain any difference"
+        />
+      </label>
+
+      {error && <p className="text-red-600 font-medium">{error}</p>}
+      {cashCount && (
+        <p className="text-xs text-gray-500">
+          Last counted by {cashCount.countedBy} at{" "}
+          {new Date(cashCount.countedAt).toLocaleTimeString()}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors disabled:opacity-50"
+      >
+        {isSaving ? "Saving..." : "Save cash count"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { searchCustomers } from "@/db/queries";
+import { CustomerMatch } from "@/lib/customers";
+
+// Finds a returning customer by email or phone so their details don't have
+// to be typed again
+export default function CustomerLookup({
+  customer,
+  onCustomerChange,
+}: {
+  customer: CustomerMatch | null;
+  onCustomerChange: (customer: CustomerMatch | null) => void;
+}) {
+  const [searchText, setSearchText] = useState("");
+  const [matches, setMatches] = useState<CustomerMatch[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [problem, setProblem] = useState<string | null>(null);
+
+  const search = async () => {
+    if (!searchText.trim()) return;
+
+    setIsSearching(true);
+    setProblem(null);
+    try {
+      const result = await searchCustomers(searchText);
+      if ("error" in result) {
+        setProblem(result.error);
+        setMatches(null);
+        return;
+      }
+      setMatches(result.customers);
+    } catch (err) {
+      console.error("Error searching customers:", err);
+      setProblem("Could not search customers. Try again.");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const selectMatch = (match: CustomerMatch) => {
+    onCustomerChange(match);
+    setMatches(null);
+    setSearchText("");
+  };
+
+  return (
+    <div className="space-y-2 sm:space-y-3">
+      <label className="block text-xs sm:text-sm font-semibold text-gray-700">
+        Returning customer
+      </label>
+
+      {customer ? (
+        <div className="flex items-center justify-between p-2 bg-green-50 rounded-lg text-sm">
+          <span className="text-green-700 font-medium">
+            {customer.displayName}
+            {customer.numberOfOrders > 0 &&
+              ` · ${customer.numberOfOrders} previous order${
+                customer.numberOfOrders === 1 ? "" : "s"
+              }`}
+          </span>
+          <button
+            type="button"
+            onClick={() => onCustomerChange(null)}
+            className="text-red-600 hover:text-red-700 font-medium"
+          >
+            Clear
+          </button>
+        </div>
+      ) : (
+        <div className="flex space-x-2">
+          <input
+            type="search"
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                search();
+              }
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm"
+            placeholder="Email or phone"
+          />
+          <button
+            type="button"
+            onClick={search}
+            disabled={isSearching || !searchText.trim()}
+            className="px-3 py-2 rounded-lg text-sm font-semibold bg-gray-100 hover:bg-gray-200 text-gray-700 transition-colors disabled:opacity-50"
+          >
+            {isSearching ? "Searching..." : "Find"}
+          </button>
+        </div>
+      )}
+
+      {matches && matches.length === 0 && (
+        <p className="text-sm text-gray-600">
+          No customer found. Fill in their details below.
+        </p>
+      )}
+      {matches && matches.length > 0 && (
+        <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100 text-sm">
+          {matches.map((match) => (
+            <li key={match.id}>
+              <button
+                type="button"
+                onClick={() => selectMatch(match)}
+                className="w-full text-left px-3 py-2 hover:bg-gray-50"
+              >
+                <span className="block font-medium text-gray-900">
+                  {match.displayName}
+                </span>
+                <span className="block text-gray-600">
+                  {[match.email, match.phone].filter(Boolean).join(" · ")}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {problem && <p className="text-sm text-red-600">{problem}</p>}
+    </div>
+  );
+}
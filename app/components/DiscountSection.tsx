@@ -0,0 +1,309 @@
+"use client";
+
+import { useState } from "react";
+import { approveManualDiscount, validateDiscountCode } from "@/db/queries";
+import {
+  AppliedDiscount,
+  CodeDiscount,
+  DiscountValue,
+  ManualDiscount,
+  validateDiscountValue,
+} from "@/lib/discounts";
+import { formatCents, toCents } from "@/lib/money";
+import { StaffMember } from "@/lib/staff";
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm";
+
+export default function DiscountSection({
+  lines,
+  appliedDiscounts,
+  discountCode,
+  onDiscountCodeChange,
+  manualDiscounts,
+  onManualDiscountsChange,
+  canApproveDiscounts,
+  managers,
+  idempotencyKey,
+}: {
+  lines: Array<{ variantId: string; label: string }>;
+  appliedDiscounts: AppliedDiscount[];
+  discountCode: CodeDiscount | null;
+  onDiscountCodeChange: (discountCode: CodeDiscount | null) => void;
+  manualDiscounts: ManualDiscount[];
+  onManualDiscountsChange: (manualDiscounts: ManualDiscount[]) => void;
+  canApproveDiscounts: boolean;
+  managers: StaffMember[];
+  // Key of the checkout, which approvals are bound to
+  idempotencyKey: string;
+}) {
+  const [codeInput, setCodeInput] = useState("");
+  const [isCheckingCode, setIsCheckingCode] = useState(false);
+  const [showManualForm, setShowManualForm] = useState(false);
+  const [manualScope, setManualScope] = useState("");
+  const [manualType, setManualType] =
+    useState<DiscountValue["type"]>("percentage");
+  const [manualValue, setManualValue] = useState("");
+  const [manualReason, setManualReason] = useState("");
+  const [managerId, setManagerId] = useState("");
+  const [managerPin, setManagerPin] = useState("");
+  const [isApproving, setIsApproving] = useState(false);
+  const [problem, setProblem] = useState<string | null>(null);
+
+  // Every discount needs its own approval, not just the first one
+  const needsApproval = !canApproveDiscounts;
+
+  const applyCode = async () => {
+    if (!codeInput.trim()) return;
+
+    setIsCheckingCode(true);
+    setProblem(null);
+    try {
+      const result = await validateDiscountCode(codeInput);
+      if ("error" in result) {
+        setProblem(result.error);
+        return;
+      }
+      onDiscountCodeChange(result.discount);
+      setCodeInput("");
+    } catch (err) {
+      console.error("Error validating discount code:", err);
+      setProblem("Could not check the discount code. Try again.");
+    } finally {
+      setIsCheckingCode(false);
+    }
+  };
+
+  const addManualDiscount = async () => {
+    const value: DiscountValue =
+      manualType === "percentage"
+        ? { type: "percentage", percentage: Number(manualValue) }
+        : { type: "fixed", amountCents: toCents(manualValue || 0) };
+
+    const invalidValue = validateDiscountValue(value);
+    if (invalidValue) {
+      setProblem(invalidValue);
+      return;
+    }
+    if (!manualReason.trim()) {
+      setProblem("Enter a reason for the discount");
+      return;
+    }
+
+    setProblem(null);
+    const discount: ManualDiscount = {
+      variantId: manualScope || undefined,
+      value,
+      reason: manualReason.trim(),
+    };
+    if (needsApproval) {
+      setIsApproving(true);
+      try {
+        const approval = await approveManualDiscount(
+          managerId,
+          managerPin,
+          discount,
+          idempotencyKey
+        );
+        if (!approval.approved) {
+          setProblem(approval.error);
+          return;
+        }
+        discount.approval = { managerId, token: approval.token };
+      } catch (err) {
+        console.error("Error approving discount:", err);
+        setProblem("Could not verify the manager PIN. Try again.");
+        return;
+      } finally {
+        setIsApproving(false);
+      }
+    }
+
+    onManualDiscountsChange([...manualDiscounts, discount]);
+    setShowManualForm(false);
+    setManualValue("");
+    setManualReason("");
+    setManagerPin("");
+  };
+
+  const removeManualDiscount = (index: number) => {
+    onManualDiscountsChange(manualDiscounts.filter((_, i) => i !== index));
+  };
+
+  const manualApplied = appliedDiscounts.filter(
+    (discount) => discount.source === "manual"
+  );
+  const codeApplied = appliedDiscounts.find(
+    (discount) => discount.source === "code"
+  );
+
+  return (
+    <div className="space-y-2 sm:space-y-3">
+      <label className="block text-xs sm:text-sm font-semibold text-gray-700">
+        Discounts
+      </label>
+
+      {discountCode ? (
+        <div className="flex items-center justify-between p-2 bg-green-50 rounded-lg text-sm">
+          <span className="text-green-700 font-medium">
+            {discountCode.code} · {discountCode.title}
+            {codeApplied && ` (-€${formatCents(codeApplied.amountCents)})`}
+          </span>
+          <button
+            type="button"
+            onClick={() => onDiscountCodeChange(null)}
+            className="text-red-600 hover:text-red-700 font-medium"
+          >
+            Remove
+          </button>
+        </div>
+      ) : (
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={codeInput}
+            onChange={(e) => setCodeInput(e.target.value.toUpperCase())}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                applyCode();
+              }
+            }}
+            className={inputClassName}
+            placeholder="Discount code"
+          />
+          <button
+            type="button"
+            onClick={applyCode}
+            disabled={isCheckingCode || !codeInput.trim()}
+            className="px-3 py-2 rounded-lg text-sm font-semibold bg-gray-100 hover:bg-gray-200 text-gray-700 transition-colors disabled:opacity-50"
+          >
+            {isCheckingCode ? "Checking..." : "Apply"}
+          </button>
+        </div>
+      )}
+
+      {manualDiscounts.map((discount, index) => (
+        <div
+          key={index}
+          className="flex items-center justify-between p-2 bg-green-50 rounded-lg text-sm"
+        >
+          <span className="text-green-700">
+            {discount.variantId
+              ? lines.find((line) => line.variantId === discount.variantId)
+                  ?.label ?? "Item"
+              : "Order"}
+            : {manualApplied[index]?.label}
+            {manualApplied[index] &&
+              ` (-€${formatCents(manualApplied[index].amountCents)})`}
+          </span>
+          <button
+            type="button"
+            onClick={() => removeManualDiscount(index)}
+            className="text-red-600 hover:text-red-700 font-medium"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      {showManualForm ? (
+        <div className="p-3 bg-gray-50 rounded-lg space-y-2">
+          <select
+            value={manualScope}
+            onChange={(e) => setManualScope(e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">Whole order</option>
+            {lines.map((line) => (
+              <option key={line.variantId} value={line.variantId}>
+                {line.label}
+              </option>
+            ))}
+          </select>
+          <div className="flex space-x-2">
+            <select
+              value={manualType}
+              onChange={(e) =>
+                setManualType(e.target.value as DiscountValue["type"])
+              }
+              className={`${inputClassName} w-20`}
+            >
+              <option value="percentage">%</option>
+              <option value="fixed">€</option>
+            </select>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={manualValue}
+              onChange={(e) => setManualValue(e.target.value)}
+              className={inputClassName}
+              placeholder={manualType === "percentage" ? "10" : "5.00"}
+            />
+          </div>
+          <input
+            type="text"
+            value={manualReason}
+            onChange={(e) => setManualReason(e.target.value)}
+            className={inputClassName}
+            placeholder="Reason (e.g. damaged item)"
+          />
+          {needsApproval && (
+            <div className="flex space-x-2">
+              <select
+                value={managerId}
+                onChange={(e) => setManagerId(e.target.value)}
+                className={inputClassName}
+              >
+                <option value="">Approving manager</option>
+                {managers.map((manager) => (
+                  <option key={manager.id} value={manager.id}>
+                    {manager.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                value={managerPin}
+                onChange={(e) => setManagerPin(e.target.value)}
+                className={`${inputClassName} w-24`}
+                placeholder="PIN"
+              />
+            </div>
+          )}
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setShowManualForm(false)}
+              className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={addManualDiscount}
+              disabled={isApproving}
+              className="px-3 py-1.5 rounded-lg text-sm font-semibold bg-blue-600 hover:bg-blue-700 text-white transition-colors disabled:opacity-50"
+            >
+              {needsApproval ? "Approve & Add" : "Add"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setShowManualForm(true)}
+          className="text-xs sm:text-sm text-blue-600 hover:text-blue-700 font-medium transition-colors"
+        >
+          Add staff discount
+        </button>
+      )}
+
+      {problem && (
+        <p className="text-xs sm:text-sm text-red-600 font-medium">{problem}</p>
+      )}
+    </div>
+  );
+}
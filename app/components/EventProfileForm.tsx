@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { updateEventProfile } from "@/db/queries";
+import { EventProfile } from "@/lib/events";
+import { ShippingRate } from "@/lib/shipping";
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black";
+
+// Creates an event profile, or edits `event`. Tags are typed comma-separated.
+export default function EventProfileForm({
+  event,
+  shippingRates,
+}: {
+  event: EventProfile | null;
+  shippingRates: ShippingRate[];
+}) {
+  const router = useRouter();
+  const [values, setValues] = useState({
+    id: event?.id ?? "",
+    name: event?.name ?? "",
+    city: event?.city ?? "",
+    startDate: event?.startDate ?? "",
+    endDate: event?.endDate ?? "",
+    tags: event?.tags.join(", ") ?? "",
+    noteTemplate: event?.noteTemplate ?? "Pedido {event}",
+    defaultShippingRateId: event?.defaultShippingRateId ?? "",
+    locationId: event?.locationId ?? "",
+    brandingText: event?.brandingText ?? "",
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setValue = (field: keyof typeof values) => (value: string) =>
+    setValues((current) => ({ ...current, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await updateEventProfile({
+        ...values,
+        tags: values.tags
+          .split(",")
+          .map((tag) => tag.trim())
+          .filter(Boolean),
+      });
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      router.push("/events");
+      router.refresh();
+    } catch (err) {
+      console.error("Error saving event:", err);
+      setError("Could not save the event. Try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const textField = (
+    field: keyof typeof values,
+    label: string,
+    props: React.InputHTMLAttributes<HTMLInputElement> = {}
+  ) => (
+    <label className="block space-y-1">
+      <span className="block text-xs font-semibold text-gray-700">{label}</span>
+      <input
+        type="text"
+        value={values[field]}
+        onChange={(e) => setValue(field)(e.target.value)}
+        className={inputClassName}
+        {...props}
+      />
+    </label>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 text-sm text-gray-900">
+      {textField("id", "Id", {
+        required: true,
+        readOnly: Boolean(event),
+        placeholder: "madrid-2025",
+      })}
+      {textField("name", "Name", {
+        required: true,
+        placeholder: "Shameless Pop Up Madrid 2025",
+      })}
+      {textField("city", "City", { required: true })}
+      <div className="grid grid-cols-2 gap-3">
+        {textField("startDate", "Starts", { type: "date", required: true })}
+        {textField("endDate", "Ends", { type: "date", required: true })}
+      </div>
+      {textField("tags", "Order tags", { placeholder: "Madrid, Pop Up 2025" })}
+      {textField("noteTemplate", "Order note", { required: true })}
+      <p className="text-xs text-gray-500">
+        {"{event}"} and {"{city}"} are replaced with the event&apos;s name and
+        city.
+      </p>
+      <label className="block space-y-1">
+        <span className="block text-xs font-semibold text-gray-700">
+          Default shipping
+        </span>
+        <select
+          value={values.defaultShippingRateId}
+          onChange={(e) => setValue("defaultShippingRateId")(e.target.value)}
+          className={inputClassName}
+        >
+          <option value="">Same as the other events</option>
+          {shippingRates.map((rate) => (
+            <option key={rate.id} value={rate.id}>
+              {rate.title}
+            </option>
+          ))}
+        </select>
+      </label>
+      {textField("locationId", "Stock location", {
+        placeholder: "gid://shopify/Location/123456789",
+      })}
+      {textField("brandingText", "Welcome text", {
+        required: true,
+        placeholder: "Welcome to Shameless Pop Up Madrid",
+      })}
+
+      {error && <p className="text-red-600 font-medium">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors disabled:opacity-50"
+      >
+        {isSaving ? "Saving..." : "Save event"}
+      </button>
+    </form>
+  );
+}
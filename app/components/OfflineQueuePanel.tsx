@@ -0,0 +1,240 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { createOrder } from "@/db/queries";
+import { formatCents } from "@/lib/money";
+import {
+  QUEUE_CHANGE_EVENT,
+  QueuedOrder,
+  QueuedOrderStatus,
+  listQueuedOrders,
+  removeQueuedOrder,
+  saveQueuedOrder,
+} from "@/lib/offlineQueue";
+
+// navigator.onLine can report a connection the venue Wi-Fi does not have,
+// so pending orders are also retried on a timer
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+const STATUS_LABELS: Record<QueuedOrderStatus, string> = {
+  pending: "Pending",
+  syncing: "Sending...",
+  synced: "Synced",
+  failed: "Failed",
+};
+
+const STATUS_CLASSES: Record<QueuedOrderStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  syncing: "bg-blue-100 text-blue-800",
+  synced: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+export default function OfflineQueuePanel() {
+  const [queuedOrders, setQueuedOrders] = useState<QueuedOrder[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const isSyncing = useRef(false);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setQueuedOrders(await listQueuedOrders());
+    } catch (err) {
+      console.error("Error reading offline orders:", err);
+    }
+  }, []);
+
+  const syncOrder = async (queued: QueuedOrder) => {
+    if (!queued.order) return true;
+
+    await saveQueuedOrder({ ...queued, status: "syncing" });
+    try {
+      const result = await createOrder(queued.order);
+      if (result.success) {
+        await saveQueuedOrder({
+          ...queued,
+          order: null,
+          status: "synced",
+          orderName: result.data.name,
+          error: undefined,
+        });
+      } else {
+        await saveQueuedOrder({
+          ...queued,
+          status: "failed",
+          error: result.error,
+        });
+      }
+      return true;
+    } catch (err) {
+      // Still offline: leave it for the next attempt
+      if (err instanceof TypeError) {
+        await saveQueuedOrder({ ...queued, status: "pending" });
+        return false;
+      }
+      await saveQueuedOrder({
+        ...queued,
+        status: "failed",
+        error: err instanceof Error ? err.message : "Could not send the order",
+      });
+      return true;
+    }
+  };
+
+  const syncPending = async () => {
+    if (isSyncing.current || !navigator.onLine) return;
+
+    isSyncing.current = true;
+    try {
+      const orders = await listQueuedOrders();
+      // An order left "syncing" was interrupted by a reload; the idempotency
+      // key makes it safe to send again
+      for (const queued of orders) {
+        if (queued.status !== "pending" && queued.status !== "syncing") {
+          continue;
+        }
+        const reachedServer = await syncOrder(queued);
+        if (!reachedServer) break;
+      }
+    } catch (err) {
+      console.error("Error syncing offline orders:", err);
+    } finally {
+      isSyncing.current = false;
+    }
+  };
+
+  // Kept in a ref so the listeners below always call the latest version
+  const syncPendingRef = useRef(syncPending);
+  syncPendingRef.current = syncPending;
+
+  useEffect(() => {
+    setIsOnline(navigator.onLine);
+    loadQueue();
+    syncPendingRef.current();
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncPendingRef.current();
+    };
+    const handleOffline = () => setIsOnline(false);
+    const handleQueueChange = () => {
+      loadQueue();
+      syncPendingRef.current();
+    };
+    const interval = setInterval(
+      () => syncPendingRef.current(),
+      RETRY_INTERVAL_MS
+    );
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    window.addEventListener(QUEUE_CHANGE_EVENT, handleQueueChange);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      window.removeEventListener(QUEUE_CHANGE_EVENT, handleQueueChange);
+    };
+  }, [loadQueue]);
+
+  const retryOrder = async (queued: QueuedOrder) => {
+    await saveQueuedOrder({ ...queued, status: "pending", error: undefined });
+  };
+
+  const clearSynced = async () => {
+    for (const queued of queuedOrders) {
+      if (queued.status === "synced") {
+        await removeQueuedOrder(queued.id);
+      }
+    }
+  };
+
+  if (isOnline && queuedOrders.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-4 bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm sm:text-base font-semibold text-gray-900">
+          Offline orders
+        </h3>
+        <div className="flex items-center space-x-3">
+          {queuedOrders.some((queued) => queued.status === "synced") && (
+            <button
+              type="button"
+              onClick={clearSynced}
+              className="text-xs sm:text-sm text-blue-600 hover:text-blue-700 font-medium transition-colors"
+            >
+              Clear synced
+            </button>
+          )}
+          <span
+            className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+              isOnline
+                ? "bg-green-100 text-green-800"
+                : "bg-gray-200 text-gray-700"
+            }`}
+          >
+            {isOnline ? "Online" : "Offline"}
+          </span>
+        </div>
+      </div>
+
+      {queuedOrders.length === 0 ? (
+        <p className="text-xs sm:text-sm text-gray-500">
+          No connection. New orders are saved on this tablet and sent to Shopify
+          when the connection is back.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {queuedOrders.map((queued) => (
+            <li
+              key={queued.id}
+              className="flex items-start justify-between p-2 bg-gray-50 rounded-lg text-sm"
+            >
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">
+                  {queued.orderName ?? (queued.customer || "Walk-in customer")}
+                  {" · "}€{formatCents(queued.totalCents)}
+                  {" · "}
+                  {queued.itemCount} item{queued.itemCount === 1 ? "" : "s"}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {new Date(queued.queuedAt).toLocaleTimeString()}
+                </p>
+                {queued.error && (
+                  <p className="text-xs text-red-600">{queued.error}</p>
+                )}
+              </div>
+              <div className="flex items-center space-x-2 ml-2">
+                {queued.status === "failed" && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => retryOrder(queued)}
+                      className="text-xs text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeQueuedOrder(queued.id)}
+                      className="text-xs text-red-600 hover:text-red-700 font-medium"
+                    >
+                      Discard
+                    </button>
+                  </>
+                )}
+                <span
+                  className={`px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap ${
+                    STATUS_CLASSES[queued.status]
+                  }`}
+                >
+                  {STATUS_LABELS[queued.status]}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { CreatedOrder } from "@/lib/orderResult";
+import OrderReceipt from "./OrderReceipt";
+import ReceiptActions from "./ReceiptActions";
+
+// Shown after an order is placed. Only the receipt is printed.
+export default function OrderConfirmation({
+  order,
+  duplicate,
+  onNewOrder,
+}: {
+  order: CreatedOrder;
+  duplicate: boolean;
+  onNewOrder: () => void;
+}) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-4 sm:py-8 px-3 sm:px-4 print:min-h-0 print:bg-none print:bg-white print:p-0">
+      <div className="max-w-md mx-auto print:max-w-none">
+        <div className="text-center mb-6 print:hidden">
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-2">
+            Order {order.name} created
+          </h1>
+          {duplicate && (
+            <p className="text-sm text-gray-600">
+              This checkout had already been sent, so no second order was
+              created.
+            </p>
+          )}
+        </div>
+
+        <OrderReceipt order={order} />
+
+        <div className="mt-6 space-y-4 print:hidden">
+          <ReceiptActions orderId={order.id} defaultEmail={order.email} />
+          <button
+            type="button"
+            onClick={onNewOrder}
+            className="w-full py-3 px-4 rounded-lg font-semibold text-gray-700 bg-white hover:bg-gray-50 border border-gray-300 transition-colors text-sm sm:text-base"
+          >
+            New order
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,104 +1,388 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import Image from "next/image";
-import { ShopifyProduct, createOrder } from "@/db/queries";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { createOrder, refreshCatalog, reserveStock } from "@/db/queries";
+import {
+  CatalogVariant,
+  ShopifyProduct,
+  findVariantByCode,
+} from "@/lib/catalog";
+import { StockError } from "@/lib/stock";
+import {
+  CodeDiscount,
+  ManualDiscount,
+  getCodeDiscountProblem,
+} from "@/lib/discounts";
+import { formatCents } from "@/lib/money";
+import { buildQuote } from "@/lib/pricing";
+import { ShippingRate, getShippingPriceCents } from "@/lib/shipping";
+import { COUNTRIES, resolveCountryProvinceCode } from "@/lib/countries";
+import { StaffMember } from "@/lib/staff";
+import { enqueueOrder } from "@/lib/offlineQueue";
+import { CreatedOrder, OrderField, OrderFieldErrors } from "@/lib/orderResult";
+import { CustomerMatch, toOrderFormValues } from "@/lib/customers";
+import {
+  DEFAULT_ORDER_FORM_VALUES,
+  OrderFormValues,
+  OrderInput,
+  orderFormSchema,
+} from "@/lib/orderSchema";
 import AddressAutocomplete from "./AddressAutocomplete";
+import BarcodeScanner, {
+  ScanFeedback,
+  ScanFeedbackMessage,
+  playScanTone,
+} from "./BarcodeScanner";
+import CustomerLookup from "./CustomerLookup";
+import DiscountSection from "./DiscountSection";
+import OfflineQueuePanel from "./OfflineQueuePanel";
+import OrderConfirmation from "./OrderConfirmation";
+import ShippingOptions from "./ShippingOptions";
+import ProductPickerModal from "./ProductPickerModal";
+import PaymentSection, {
+  INITIAL_PAYMENTS,
+  PaymentDraft,
+  getPaymentProblem,
+  toTenders,
+} from "./PaymentSection";
 
 interface CartItem {
   productId: string;
   variantId: string;
   quantity: number;
   product: ShopifyProduct;
-  variant: {
-    id: string;
-    title: string;
-    price: string;
-    inventoryQuantity: number;
+  variant: CatalogVariant;
+  // Shipped from the warehouse because the pop-up has none left
+  fromWarehouse: boolean;
+  // Handed over now on an order that ships the rest
+  takenNow: boolean;
+}
+
+// Units a cart line can take from the stock it is sold from
+function getLineStock(variant: CatalogVariant, fromWarehouse: boolean) {
+  return fromWarehouse ? variant.warehouseQuantity : variant.inventoryQuantity;
+}
+
+// The cart with `quantity` more of the variant, or why they can't be added. A
+// variant already in the cart keeps the stock it is sold from.
+function addCartLine(
+  items: CartItem[],
+  product: ShopifyProduct,
+  variant: CatalogVariant,
+  quantity: number,
+  fromWarehouse: boolean
+): { items: CartItem[] } | { error: string } {
+  const existingItem = items.find((item) => item.variantId === variant.id);
+  const currentQuantity = existingItem ? existingItem.quantity : 0;
+  const stock = getLineStock(
+    variant,
+    existingItem?.fromWarehouse ?? fromWarehouse
+  );
+
+  if (currentQuantity + quantity > stock) {
+    return {
+      error: `Cannot add ${quantity} more. Only ${
+        stock - currentQuantity
+      } available in stock.`,
+    };
+  }
+
+  if (existingItem) {
+    return {
+      items: items.map((item) =>
+        item === existingItem
+          ? { ...item, quantity: item.quantity + quantity }
+          : item
+      ),
+    };
+  }
+  return {
+    items: [
+      ...items,
+      {
+        productId: product.id,
+        variantId: variant.id,
+        quantity,
+        product,
+        variant,
+        fromWarehouse,
+        takenNow: false,
+      },
+    ],
   };
 }
 
-interface OrderFormData {
-  address1: string;
-  city: string;
-  firstName: string;
-  lastName: string;
-  phone: string;
-  zip: string;
-  email: string;
+type ValidOrderForm = z.output<typeof orderFormSchema>;
+
+// Server errors for these are shown through react-hook-form, the rest
+// (discounts, shipping, payments) through the fieldErrors state
+function isFormValue(
+  field: OrderField
+): field is OrderField & keyof OrderFormValues {
+  return field in DEFAULT_ORDER_FORM_VALUES;
 }
 
 export default function OrderForm({
   products,
+  shippingRates,
+  defaultShippingRateId,
+  canApproveDiscounts,
+  managers,
+  welcomeText,
 }: {
   products: ShopifyProduct[];
+  shippingRates: ShippingRate[];
+  defaultShippingRateId: string;
+  canApproveDiscounts: boolean;
+  managers: StaffMember[];
+  // Heading from the active event
+  welcomeText: string;
 }) {
-  const [formData, setFormData] = useState<OrderFormData>({
-    address1: "",
-    city: "",
-    firstName: "",
-    lastName: "",
-    phone: "",
-    zip: "",
-    email: "",
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    setError: setFormError,
+    clearErrors,
+    reset,
+    getValues,
+    formState: { errors },
+  } = useForm<OrderFormValues, unknown, ValidOrderForm>({
+    resolver: zodResolver(orderFormSchema),
+    defaultValues: DEFAULT_ORDER_FORM_VALUES,
   });
+  const countryCode = watch("countryCode");
+  const zip = watch("zip");
+  const address1 = watch("address1");
 
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
-  const [searchTerm, setSearchTerm] = useState("");
+  // The cart including changes not rendered yet, so scans in quick
+  // succession add up instead of each starting from the last render
+  const cartItemsRef = useRef(cartItems);
+  cartItemsRef.current = cartItems;
+  const [isRefreshingCatalog, setIsRefreshingCatalog] = useState(false);
+  const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [success, setSuccess] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<OrderFieldErrors>({});
+  // Errors for cart lines, keyed by variant id
+  const [lineErrors, setLineErrors] = useState<Record<string, string>>({});
+  const [success, setSuccess] = useState<string | null>(null);
+  const [confirmation, setConfirmation] = useState<{
+    order: CreatedOrder;
+    duplicate: boolean;
+  } | null>(null);
   const [showProductModal, setShowProductModal] = useState(false);
-
-  // Filter products that have at least one variant in stock
-  const availableProducts = products.filter(
-    (product) =>
-      product.variants.edges.some((v) => v.node.inventoryQuantity > 0) &&
-      product.title.toLowerCase().includes(searchTerm.toLowerCase())
+  const [scanFeedback, setScanFeedback] = useState<ScanFeedback | null>(null);
+  const [shippingRateId, setShippingRateId] = useState(defaultShippingRateId);
+  const [customer, setCustomer] = useState<CustomerMatch | null>(null);
+  const [discountCode, setDiscountCode] = useState<CodeDiscount | null>(null);
+  const [manualDiscounts, setManualDiscounts] = useState<ManualDiscount[]>([]);
+  const [payments, setPayments] = useState<PaymentDraft[]>(INITIAL_PAYMENTS);
+  const [holdId, setHoldId] = useState(() => crypto.randomUUID());
+  // Sent with every submit of this checkout so retries never create a second
+  // order
+  const [idempotencyKey, setIdempotencyKey] = useState(() =>
+    crypto.randomUUID()
   );
+  const [isHoldingStock, setIsHoldingStock] = useState(false);
+  const [stockErrors, setStockErrors] = useState<Record<string, StockError>>(
+    {}
+  );
+
+  // Hold the cart's stock once staff start filling in the customer details
+  useEffect(() => {
+    if (!isHoldingStock) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        const result = await reserveStock(
+          holdId,
+          cartItems.map((item) => ({
+            variantId: item.variantId,
+            quantity: item.quantity,
+            fromWarehouse: item.fromWarehouse,
+          }))
+        );
+        setStockErrors(indexStockErrors(result.stockErrors));
+      } catch (err) {
+        console.error("Error reserving stock:", err);
+      }
+    }, 500);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+    return () => clearTimeout(timeout);
+  }, [cartItems, holdId, isHoldingStock]);
+
+  const handleRefreshCatalog = async () => {
+    setIsRefreshingCatalog(true);
+    try {
+      await refreshCatalog();
+      // Re-render the server component so the new catalog reaches the form
+      router.refresh();
+    } catch (err) {
+      console.error("Error refreshing catalog:", err);
+      setError("Could not refresh the catalog. Try again.");
+    } finally {
+      setIsRefreshingCatalog(false);
+    }
+  };
+
+  const showFieldError = (field: OrderField, message: string) => {
+    setFieldErrors({ [field]: message });
+    setError(message);
+  };
+
+  const clearFieldErrors = (...fields: OrderField[]) => {
+    setFieldErrors((prev) => {
+      const next = { ...prev };
+      for (const field of fields) {
+        delete next[field];
+      }
+      return next;
+    });
+  };
+
+  const showServerErrors = (errors: OrderFieldErrors) => {
+    const otherErrors: OrderFieldErrors = {};
+    for (const [field, message] of Object.entries(errors) as Array<
+      [OrderField, string]
+    >) {
+      if (isFormValue(field)) {
+        setFormError(field, { type: "server", message });
+      } else {
+        otherErrors[field] = message;
+      }
+    }
+    setFieldErrors(otherErrors);
+  };
+
+  const resetCheckout = () => {
+    reset({ ...DEFAULT_ORDER_FORM_VALUES, pickup: isPickup });
+    setCartItems([]);
+    setScanFeedback(null);
+    setCustomer(null);
+    setDiscountCode(null);
+    setManualDiscounts([]);
+    setPayments(INITIAL_PAYMENTS);
+    setStockErrors({});
+    setFieldErrors({});
+    setLineErrors({});
+    setIsHoldingStock(false);
+    setHoldId(crypto.randomUUID());
+    setIdempotencyKey(crypto.randomUUID());
+  };
+
+  // Runs once the customer and address fields pass the schema
+  const submitOrder = async (values: ValidOrderForm) => {
     if (cartItems.length === 0) {
       setError("Please add at least one product to your cart");
       return;
     }
 
+    const codeProblem =
+      discountCode &&
+      getCodeDiscountProblem(
+        discountCode,
+        getItemsQuote().subtotalCents,
+        getTotalItems()
+      );
+    if (codeProblem) {
+      showFieldError("discountCode", codeProblem);
+      return;
+    }
+
+    if (isPickup && cartItems.some((item) => item.fromWarehouse)) {
+      showFieldError(
+        "shippingRateId",
+        "Items from the warehouse have to be shipped"
+      );
+      return;
+    }
+
+    if (getShippingCents() === null) {
+      showFieldError(
+        "shippingRateId",
+        "The selected delivery option is not available for this address"
+      );
+      return;
+    }
+
+    const paymentProblem = getPaymentProblem(payments, getTotalCents());
+    if (paymentProblem) {
+      showFieldError("payments", paymentProblem);
+      return;
+    }
+
     setIsSubmitting(true);
     setError(null);
-    setSuccess(false);
+    setFieldErrors({});
+    setLineErrors({});
+    setSuccess(null);
+
+    // Create a single order with all cart items
+    const { pickup, ...details } = values;
+    const orderData: OrderInput = {
+      ...details,
+      // Nothing is shipped, so an address typed before switching is dropped
+      ...(pickup ? { address1: "", city: "", province: "", zip: "" } : {}),
+      lineItems: cartItems.map((item) => ({
+        variantId: item.variantId,
+        quantity: item.quantity,
+        fromWarehouse: item.fromWarehouse || undefined,
+        takenNow: item.takenNow || undefined,
+      })),
+      customerId: customer?.id,
+      discountCode: discountCode?.code,
+      manualDiscounts,
+      shippingRateId,
+      expectedTotalCents: getTotalCents(),
+      payments: toTenders(payments, getTotalCents()),
+      holdId,
+      idempotencyKey,
+    };
 
     try {
-      // Create a single order with all cart items
-      const orderData = {
-        firstName: formData.firstName,
-        lastName: formData.lastName,
-        email: formData.email,
-        phone: formData.phone,
-        address1: formData.address1,
-        city: formData.city,
-        zip: formData.zip,
-        lineItems: cartItems.map((item) => ({
-          variantId: item.variantId,
-          quantity: item.quantity,
-        })),
-      };
-
-      await createOrder(orderData);
-
-      setSuccess(true);
-      // Reset form and cart after successful submission
-      setFormData({
-        address1: "",
-        city: "",
-        firstName: "",
-        lastName: "",
-        phone: "",
-        zip: "",
-        email: "",
+      const result = await createOrder(orderData);
+      // Keep the cart and details so staff can fix what was rejected
+      if (!result.success) {
+        showServerErrors(result.fieldErrors ?? {});
+        setLineErrors(result.lineErrors ?? {});
+        if (result.stockErrors) {
+          setStockErrors(indexStockErrors(result.stockErrors));
+        }
+        setError(
+          result.code === "insufficient_stock"
+            ? "Some items no longer have enough stock. Adjust the highlighted quantities and try again."
+            : result.error
+        );
+        return;
+      }
+
+      setConfirmation({
+        order: result.data,
+        duplicate: Boolean(result.duplicate),
       });
-      setCartItems([]);
+      resetCheckout();
     } catch (err) {
+      // No connection: keep the sale on the tablet and send it later
+      if (!navigator.onLine || err instanceof TypeError) {
+        try {
+          await enqueueOrder(orderData);
+          setSuccess(
+            "No connection. The order was saved on this tablet and will be sent to Shopify when the connection is back."
+          );
+          resetCheckout();
+          return;
+        } catch (queueError) {
+          console.error("Error queueing offline order:", queueError);
+        }
+      }
       setError(
         err instanceof Error
           ? err.message
@@ -109,86 +393,127 @@ export default function OrderForm({
     }
   };
 
-  const handleChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
-  ) => {
-    const { name, value } = e.target;
-    setFormData((prev) => ({
-      ...prev,
-      [name]: value,
-    }));
+  // Fills in the details saved on the customer; clearing keeps what was typed
+  const handleCustomerChange = (match: CustomerMatch | null) => {
+    setCustomer(match);
+    if (match) {
+      reset({ ...getValues(), ...toOrderFormValues(match) });
+    }
   };
 
   const handleAddressSelect = (address: {
     street: string;
     city: string;
+    province: string;
+    provinceShortName: string;
     zip: string;
   }) => {
-    setFormData((prev) => ({
-      ...prev,
-      address1: address.street,
-      city: address.city,
-      zip: address.zip,
-    }));
+    setValue("address1", address.street);
+    setValue("city", address.city);
+    setValue(
+      "province",
+      resolveCountryProvinceCode(countryCode, address) ??
+        resolveCountryProvinceCode(countryCode, {
+          ...address,
+          province: address.provinceShortName,
+        }) ??
+        ""
+    );
+    setValue("zip", address.zip);
+    clearErrors(["address1", "city", "province", "zip"]);
+  };
+
+  // Addresses are looked up per country, so start over when it changes
+  const handleCountryChange = () => {
+    setValue("address1", "");
+    setValue("city", "");
+    setValue("province", "");
+    setValue("zip", "");
+    clearErrors(["countryCode", "address1", "city", "province", "zip"]);
+  };
+
+  const setCart = (items: CartItem[]) => {
+    cartItemsRef.current = items;
+    setCartItems(items);
   };
 
   const addToCart = (
     product: ShopifyProduct,
-    variant: {
-      id: string;
-      title: string;
-      price: string;
-      inventoryQuantity: number;
-    },
-    quantity: number
+    variant: CatalogVariant,
+    quantity: number,
+    fromWarehouse = false
   ) => {
-    // Check if adding this quantity would exceed available stock
-    const existingItem = cartItems.find(
-      (item) => item.variantId === variant.id
+    const result = addCartLine(
+      cartItemsRef.current,
+      product,
+      variant,
+      quantity,
+      fromWarehouse
     );
-    const currentQuantity = existingItem ? existingItem.quantity : 0;
-
-    if (currentQuantity + quantity > variant.inventoryQuantity) {
-      setError(
-        `Cannot add ${quantity} more. Only ${
-          variant.inventoryQuantity - currentQuantity
-        } available in stock.`
-      );
+    if ("error" in result) {
+      setError(result.error);
       return;
     }
-
-    const existingItemIndex = cartItems.findIndex(
-      (item) => item.variantId === variant.id
-    );
-
-    if (existingItemIndex >= 0) {
-      // Update existing item quantity
-      setCartItems((prev) =>
-        prev.map((item, index) =>
-          index === existingItemIndex
-            ? { ...item, quantity: item.quantity + quantity }
-            : item
-        )
-      );
-    } else {
-      // Add new item
-      setCartItems((prev) => [
-        ...prev,
-        {
-          productId: product.id,
-          variantId: variant.id,
-          quantity,
-          product,
-          variant,
-        },
-      ]);
-    }
+    setCart(result.items);
     setShowProductModal(false);
     setError(null); // Clear any previous errors
   };
 
+  // Adds one unit of the scanned variant, with a tone for the result. Errors
+  // stay with the scanner rather than the form.
+  const handleScan = (code: string) => {
+    const match = findVariantByCode(products, code);
+    const result =
+      match &&
+      addCartLine(cartItemsRef.current, match.product, match.variant, 1, false);
+    if (result && "items" in result) {
+      setCart(result.items);
+    }
+    const feedback: ScanFeedback = !match
+      ? { found: false, message: `No product with code ${code}` }
+      : result && "items" in result
+      ? {
+          found: true,
+          message: `Added ${match.product.title} · ${match.variant.title}`,
+        }
+      : {
+          found: false,
+          message: `No more ${match.product.title} · ${match.variant.title} in stock`,
+        };
+    playScanTone(feedback.found);
+    setScanFeedback(feedback);
+  };
+
+  const clearLineError = (variantId: string) => {
+    setLineErrors((prev) => {
+      const next = { ...prev };
+      delete next[variantId];
+      return next;
+    });
+  };
+
+  // Discounts belong to the cart, so they go with it
+  const clearCart = () => {
+    setCartItems([]);
+    setLineErrors({});
+    setDiscountCode(null);
+    setManualDiscounts([]);
+  };
+
   const removeFromCart = (variantId: string) => {
     setCartItems((prev) => prev.filter((item) => item.variantId !== variantId));
+    clearLineError(variantId);
+    setManualDiscounts((prev) =>
+      prev.filter((discount) => discount.variantId !== variantId)
+    );
+  };
+
+  const setTakenNow = (variantId: string, takenNow: boolean) => {
+    setCartItems((prev) =>
+      prev.map((item) =>
+        item.variantId === variantId ? { ...item, takenNow } : item
+      )
+    );
   };
 
   const updateQuantity = (variantId: string, quantity: number) => {
@@ -196,12 +521,14 @@ export default function OrderForm({
       removeFromCart(variantId);
       return;
     }
+    clearLineError(variantId);
 
     // Check if the new quantity exceeds available stock
     const item = cartItems.find((item) => item.variantId === variantId);
-    if (item && quantity > item.variant.inventoryQuantity) {
+    const stock = item && getLineStock(item.variant, item.fromWarehouse);
+    if (stock !== undefined && quantity > stock) {
       setError(
-        `Cannot set quantity to ${quantity}. Only ${item.variant.inventoryQuantity} available in stock.`
+        `Cannot set quantity to ${quantity}. Only ${stock} available in stock.`
       );
       return;
     }
@@ -214,22 +541,76 @@ export default function OrderForm({
     setError(null); // Clear any previous errors
   };
 
-  const getTotalPrice = () => {
-    return cartItems.reduce((total, item) => {
-      return total + parseFloat(item.variant.price) * item.quantity;
-    }, 0);
-  };
+  // Priced with the same rules the server applies when creating the order
+  const getItemsQuote = () =>
+    buildQuote(
+      cartItems.map((item) => ({
+        variantId: item.variantId,
+        quantity: item.quantity,
+      })),
+      new Map(
+        cartItems.map((item) => [
+          item.variantId,
+          {
+            id: item.variantId,
+            price: item.variant.price,
+            compareAtPrice: null,
+          },
+        ])
+      ),
+      { discountCode, manualDiscounts }
+    );
+
+  const getSubtotalCents = () => getItemsQuote().subtotalCents;
+
+  const getDiscountCents = () => getItemsQuote().discountCents;
+
+  const selectedShippingRate = shippingRates.find(
+    (rate) => rate.id === shippingRateId
+  );
+  const isPickup = Boolean(selectedShippingRate?.pickup);
+
+  // The schema only checks the address when the order is shipped
+  useEffect(() => {
+    setValue("pickup", isPickup);
+  }, [isPickup, setValue]);
+
+  const selectedCountry = COUNTRIES[countryCode];
+
+  // null while the selected rate cannot ship to the entered address
+  const getShippingCents = () =>
+    selectedShippingRate
+      ? getShippingPriceCents(
+          selectedShippingRate,
+          countryCode,
+          zip,
+          getSubtotalCents() - getDiscountCents()
+        )
+      : null;
+
+  const getTotalCents = () =>
+    getSubtotalCents() - getDiscountCents() + (getShippingCents() ?? 0);
 
   const getTotalItems = () => {
     return cartItems.reduce((total, item) => total + item.quantity, 0);
   };
 
+  if (confirmation) {
+    return (
+      <OrderConfirmation
+        order={confirmation.order}
+        duplicate={confirmation.duplicate}
+        onNewOrder={() => setConfirmation(null)}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-4 sm:py-8 px-3 sm:px-4">
       <div className="max-w-6xl mx-auto">
         <div className="text-center mb-6 sm:mb-8">
           <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-4">
-            Welcome to Teson Pop Up 2025
+            {welcomeText}
           </h1>
           <p className="text-sm sm:text-base text-gray-600">
             Select your products and fill in your details
@@ -269,11 +650,13 @@ export default function OrderForm({
                   clipRule="evenodd"
                 />
               </svg>
-              Order created successfully! Thank you for your purchase.
+              {success}
             </div>
           </div>
         )}
 
+        <OfflineQueuePanel />
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-8">
           {/* Product Selection Section */}
           <div className="lg:col-span-2">
@@ -293,6 +676,7 @@ export default function OrderForm({
                       </span>
                     </div>
                   )}
+                  <BarcodeScanner onScan={handleScan} feedback={scanFeedback} />
                   <button
                     onClick={() => setShowProductModal(true)}
                     className="bg-blue-600 hover:bg-blue-700 text-white px-3 sm:px-4 py-2 rounded-lg font-semibold transition-colors flex items-center text-sm sm:text-base"
@@ -316,6 +700,12 @@ export default function OrderForm({
                 </div>
               </div>
 
+              {scanFeedback && (
+                <div className="mb-4">
+                  <ScanFeedbackMessage feedback={scanFeedback} />
+                </div>
+              )}
+
               {cartItems.length === 0 ? (
                 <div className="text-center py-8 sm:py-12">
                   <svg
@@ -345,7 +735,7 @@ export default function OrderForm({
                       Your Cart
                     </h3>
                     <button
-                      onClick={() => setCartItems([])}
+                      onClick={clearCart}
                       className="text-xs sm:text-sm text-red-600 hover:text-red-700 font-medium transition-colors"
                     >
                       Clear Cart
@@ -380,12 +770,44 @@ export default function OrderForm({
                               €{item.variant.price}
                             </p>
                             {item.quantity >=
-                              item.variant.inventoryQuantity && (
+                              getLineStock(
+                                item.variant,
+                                item.fromWarehouse
+                              ) && (
                               <span className="text-xs bg-red-100 text-red-600 px-1.5 py-0.5 rounded-full">
                                 Max stock
                               </span>
                             )}
+                            {item.fromWarehouse && (
+                              <span className="text-xs bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded-full">
+                                Ships from warehouse
+                              </span>
+                            )}
                           </div>
+                          {/* Take-away orders hand over every line anyway */}
+                          {!isPickup && !item.fromWarehouse && (
+                            <label className="flex items-center space-x-1.5 mt-1 text-xs sm:text-sm text-gray-700">
+                              <input
+                                type="checkbox"
+                                checked={item.takenNow}
+                                onChange={(e) =>
+                                  setTakenNow(item.variantId, e.target.checked)
+                                }
+                                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                              />
+                              <span>Taken now</span>
+                            </label>
+                          )}
+                          {stockErrors[item.variantId] && (
+                            <p className="text-xs sm:text-sm text-red-600 font-medium mt-1">
+                              {stockErrors[item.variantId].available === 0
+                                ? "Sold out"
+                                : `Only ${
+                                    stockErrors[item.variantId].available
+                                  } left in stock`}
+                            </p>
+                          )}
+                          <FieldError message={lineErrors[item.variantId]} />
                         </div>
                         <div className="flex items-center space-x-1 sm:space-x-2">
                           <button
@@ -492,35 +914,59 @@ export default function OrderForm({
                     Items ({getTotalItems()})
                   </span>
                   <span className="font-semibold">
-                    €{getTotalPrice().toFixed(2)}
+                    €{formatCents(getSubtotalCents())}
                   </span>
                 </div>
+                {getDiscountCents() > 0 && (
+                  <div className="flex justify-between text-xs sm:text-sm">
+                    <span className="text-gray-600">Discounts</span>
+                    <span className="font-semibold text-green-600">
+                      -€{formatCents(getDiscountCents())}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between text-xs sm:text-sm">
-                  <span className="text-gray-600">Shipping</span>
-                  <span className="font-semibold">€4.00</span>
+                  <span className="text-gray-600">
+                    Shipping
+                    {selectedShippingRate && ` (${selectedShippingRate.title})`}
+                  </span>
+                  <span className="font-semibold">
+                    {getShippingCents() === null
+                      ? "—"
+                      : `€${formatCents(getShippingCents() ?? 0)}`}
+                  </span>
                 </div>
                 <div className="border-t pt-3 sm:pt-4">
                   <div className="flex justify-between text-base sm:text-lg font-bold">
                     <span>Total</span>
-                    <span>€{(getTotalPrice() + 4).toFixed(2)}</span>
+                    <span>€{formatCents(getTotalCents())}</span>
                   </div>
                 </div>
               </div>
 
-              <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+              <form
+                onSubmit={handleSubmit(submitOrder)}
+                noValidate
+                onFocus={() => setIsHoldingStock(true)}
+                className="space-y-3 sm:space-y-4"
+              >
+                <CustomerLookup
+                  customer={customer}
+                  onCustomerChange={handleCustomerChange}
+                />
+
                 <div className="space-y-1.5 sm:space-y-2">
                   <label className="block text-xs sm:text-sm font-semibold text-gray-700">
                     First Name
                   </label>
                   <input
                     type="text"
-                    name="firstName"
-                    value={formData.firstName}
-                    onChange={handleChange}
+                    {...register("firstName")}
                     required
                     className="w-full px-3 sm:px-4 py-2.5 sm:py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm sm:text-base"
                     placeholder="Enter your first name"
                   />
+                  <FieldError message={errors.firstName?.message} />
                 </div>
 
                 <div className="space-y-1.5 sm:space-y-2">
@@ -529,13 +975,12 @@ export default function OrderForm({
                   </label>
                   <input
                     type="text"
-                    name="lastName"
-                    value={formData.lastName}
-                    onChange={handleChange}
+                    {...register("lastName")}
                     required
                     className="w-full px-3 sm:px-4 py-2.5 sm:py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm sm:text-base"
                     placeholder="Enter your last name"
                   />
+                  <FieldError message={errors.lastName?.message} />
                 </div>
 
                 <div className="space-y-1.5 sm:space-y-2">
@@ -544,13 +989,12 @@ export default function OrderForm({
                   </label>
                   <input
                     type="email"
-                    name="email"
-                    value={formData.email}
-                    onChange={handleChange}
+                    {...register("email")}
                     required
                     className="w-full px-3 sm:px-4 py-2.5 sm:py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm sm:text-base"
                     placeholder="Enter your email address"
                   />
+                  <FieldError message={errors.email?.message} />
                 </div>
 
                 <div className="space-y-1.5 sm:space-y-2">
@@ -559,54 +1003,149 @@ export default function OrderForm({
                   </label>
                   <input
                     type="tel"
-                    name="phone"
-                    value={formData.phone}
-                    onChange={handleChange}
+                    {...register("phone")}
                     required
                     className="w-full px-3 sm:px-4 py-2.5 sm:py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm sm:text-base"
-                    placeholder="Enter your phone number"
+                    placeholder="+34 600 000 000"
                   />
+                  <FieldError message={errors.phone?.message} />
                 </div>
 
-                <div className="space-y-1.5 sm:space-y-2">
-                  <label className="block text-xs sm:text-sm font-semibold text-gray-700">
-                    Street Address
-                  </label>
-                  <AddressAutocomplete onAddressSelect={handleAddressSelect} />
-                </div>
+                <DiscountSection
+                  lines={cartItems.map((item) => ({
+                    variantId: item.variantId,
+                    label: `${item.product.title} · ${item.variant.title}`,
+                  }))}
+                  appliedDiscounts={getItemsQuote().discounts}
+                  discountCode={discountCode}
+                  onDiscountCodeChange={setDiscountCode}
+                  manualDiscounts={manualDiscounts}
+                  onManualDiscountsChange={setManualDiscounts}
+                  canApproveDiscounts={canApproveDiscounts}
+                  managers={managers}
+                  idempotencyKey={idempotencyKey}
+                />
+                <FieldError
+                  message={
+                    fieldErrors.discountCode ?? fieldErrors.manualDiscounts
+                  }
+                />
 
-                <div className="grid grid-cols-2 gap-3 sm:gap-4">
-                  <div className="space-y-1.5 sm:space-y-2">
-                    <label className="block text-xs sm:text-sm font-semibold text-gray-700">
-                      City
-                    </label>
-                    <input
-                      type="text"
-                      name="city"
-                      value={formData.city}
-                      onChange={handleChange}
-                      required
-                      readOnly
-                      className="w-full px-3 sm:px-4 py-2.5 sm:py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black bg-gray-50 text-sm sm:text-base"
-                      placeholder="Auto-filled"
-                    />
-                  </div>
-                  <div className="space-y-1.5 sm:space-y-2">
-                    <label className="block text-xs sm:text-sm font-semibold text-gray-700">
-                      ZIP Code
-                    </label>
-                    <input
-                      type="text"
-                      name="zip"
-                      value={formData.zip}
-                      onChange={handleChange}
-                      required
-                      readOnly
-                      className="w-full px-3 sm:px-4 py-2.5 sm:py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black bg-gray-50 text-sm sm:text-base"
-                      placeholder="Auto-filled"
-                    />
-                  </div>
-                </div>
+                <ShippingOptions
+                  rates={shippingRates}
+                  selectedRateId={shippingRateId}
+                  countryCode={countryCode}
+                  zip={zip}
+                  subtotalCents={getSubtotalCents() - getDiscountCents()}
+                  onSelect={(rateId) => {
+                    setShippingRateId(rateId);
+                    clearFieldErrors("shippingRateId");
+                  }}
+                />
+                <FieldError message={fieldErrors.shippingRateId} />
+
+                {!isPickup && (
+                  <>
+                    <div className="space-y-1.5 sm:space-y-2">
+                      <label className="block text-xs sm:text-sm font-semibold text-gray-700">
+                        Country
+                      </label>
+                      <select
+                        {...register("countryCode", {
+                          onChange: handleCountryChange,
+                        })}
+                        className="w-full px-3 sm:px-4 py-2.5 sm:py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm sm:text-base"
+                      >
+                        {Object.values(COUNTRIES).map((country) => (
+                          <option key={country.code} value={country.code}>
+                            {country.name}
+                          </option>
+                        ))}
+                      </select>
+                      <FieldError message={errors.countryCode?.message} />
+                    </div>
+
+                    <div className="space-y-1.5 sm:space-y-2">
+                      <label className="block text-xs sm:text-sm font-semibold text-gray-700">
+                        Street Address
+                      </label>
+                      <AddressAutocomplete
+                        key={countryCode}
+                        countryCode={countryCode}
+                        value={address1}
+                        onChange={(street) => {
+                          setValue("address1", street);
+                          clearErrors("address1");
+                        }}
+                        onAddressSelect={handleAddressSelect}
+                      />
+                      <FieldError message={errors.address1?.message} />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3 sm:gap-4">
+                      <div className="space-y-1.5 sm:space-y-2">
+                        <label className="block text-xs sm:text-sm font-semibold text-gray-700">
+                          City
+                        </label>
+                        <input
+                          type="text"
+                          {...register("city")}
+                          required
+                          className="w-full px-3 sm:px-4 py-2.5 sm:py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm sm:text-base"
+                          placeholder="Auto-filled"
+                        />
+                        <FieldError message={errors.city?.message} />
+                      </div>
+                      <div className="space-y-1.5 sm:space-y-2">
+                        <label className="block text-xs sm:text-sm font-semibold text-gray-700">
+                          ZIP Code
+                        </label>
+                        <input
+                          type="text"
+                          {...register("zip")}
+                          required
+                          className="w-full px-3 sm:px-4 py-2.5 sm:py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm sm:text-base"
+                          placeholder={selectedCountry.zipExample}
+                        />
+                        <FieldError message={errors.zip?.message} />
+                      </div>
+                    </div>
+
+                    {selectedCountry.provinces && (
+                      <div className="space-y-1.5 sm:space-y-2">
+                        <label className="block text-xs sm:text-sm font-semibold text-gray-700">
+                          {selectedCountry.provinceLabel}
+                        </label>
+                        <select
+                          {...register("province")}
+                          required
+                          className="w-full px-3 sm:px-4 py-2.5 sm:py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm sm:text-base"
+                        >
+                          <option value="">
+                            Select a{" "}
+                            {selectedCountry.provinceLabel?.toLowerCase()}
+                          </option>
+                          {selectedCountry.provinces.map((province) => (
+                            <option key={province.code} value={province.code}>
+                              {province.name}
+                            </option>
+                          ))}
+                        </select>
+                        <FieldError message={errors.province?.message} />
+                      </div>
+                    )}
+                  </>
+                )}
+
+                <PaymentSection
+                  totalCents={getTotalCents()}
+                  payments={payments}
+                  onChange={(next) => {
+                    setPayments(next);
+                    clearFieldErrors("payments");
+                  }}
+                />
+                <FieldError message={fieldErrors.payments} />
 
                 <button
                   type="submit"
@@ -645,7 +1184,7 @@ export default function OrderForm({
                     </div>
                   ) : (
                     <span className="text-xs sm:text-sm">
-                      Place Order - €{(getTotalPrice() + 4).toFixed(2)}
+                      Place Order - €{formatCents(getTotalCents())}
                     </span>
                   )}
                 </button>
@@ -656,153 +1195,33 @@ export default function OrderForm({
 
         {/* Product Selection Modal */}
         {showProductModal && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-2 sm:p-4 z-50">
-            <div className="bg-white rounded-xl sm:rounded-2xl shadow-xl max-w-4xl w-full max-h-[95vh] sm:max-h-[90vh] overflow-hidden">
-              <div className="p-4 sm:p-6 border-b border-gray-200">
-                <div className="flex items-center justify-between">
-                  <h2 className="text-xl sm:text-2xl font-bold text-gray-900">
-                    Select Products
-                  </h2>
-                  <button
-                    onClick={() => setShowProductModal(false)}
-                    className="text-gray-400 hover:text-gray-600 transition-colors p-1"
-                  >
-                    <svg
-                      className="w-5 h-5 sm:w-6 sm:h-6"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M6 18L18 6M6 6l12 12"
-                      />
-                    </svg>
-                  </button>
-                </div>
-                <div className="mt-3 sm:mt-4">
-                  <input
-                    type="text"
-                    placeholder="Search products..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
-                    className="w-full px-3 sm:px-4 py-2.5 sm:py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm sm:text-base"
-                  />
-                </div>
-              </div>
-
-              <div className="overflow-y-auto max-h-[60vh] p-4 sm:p-6">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
-                  {availableProducts.map((product) => (
-                    <div
-                      key={product.id}
-                      className="border border-gray-200 rounded-xl p-3 sm:p-4 hover:shadow-lg transition-shadow"
-                    >
-                      <div className="flex items-start space-x-3 sm:space-x-4">
-                        <div className="flex-shrink-0 w-16 h-16 sm:w-20 sm:h-20 bg-gray-200 rounded-lg relative overflow-hidden">
-                          {product.image?.src && (
-                            <Image
-                              src={product.image.src}
-                              alt={product.title}
-                              fill
-                              className="object-cover rounded-lg"
-                              sizes="(max-width: 640px) 64px, 80px"
-                            />
-                          )}
-                        </div>
-                        <div className="flex-1 min-w-0">
-                          <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-1.5 sm:mb-2">
-                            {product.title}
-                          </h3>
-                          <p className="text-xs sm:text-sm text-gray-600 mb-2 sm:mb-3 line-clamp-2">
-                            {product.description}
-                          </p>
-
-                          <div className="space-y-1.5 sm:space-y-2">
-                            {product.variants.edges
-                              .filter((v) => v.node.inventoryQuantity > 0)
-                              .map((variant) => {
-                                const existingItem = cartItems.find(
-                                  (item) => item.variantId === variant.node.id
-                                );
-                                const currentQuantity = existingItem
-                                  ? existingItem.quantity
-                                  : 0;
-                                const remainingStock =
-                                  variant.node.inventoryQuantity -
-                                  currentQuantity;
-
-                                return (
-                                  <div
-                                    key={variant.node.id}
-                                    className="flex items-center justify-between p-2 bg-gray-50 rounded-lg"
-                                  >
-                                    <div className="flex-1 min-w-0">
-                                      <p className="font-medium text-gray-900 text-sm sm:text-base">
-                                        {variant.node.title}
-                                      </p>
-                                      <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-2 space-y-1 sm:space-y-0">
-                                        <p className="text-xs sm:text-sm text-gray-600">
-                                          Stock:{" "}
-                                          {variant.node.inventoryQuantity}
-                                        </p>
-                                        {currentQuantity > 0 && (
-                                          <p className="text-xs sm:text-sm text-blue-600">
-                                            In cart: {currentQuantity}
-                                          </p>
-                                        )}
-                                        {remainingStock <= 5 &&
-                                          remainingStock > 0 && (
-                                            <p className="text-xs sm:text-sm text-orange-600 font-medium">
-                                              Only {remainingStock} left!
-                                            </p>
-                                          )}
-                                      </div>
-                                    </div>
-                                    <div className="flex items-center space-x-2 ml-2">
-                                      <span className="font-bold text-green-600 text-sm sm:text-base">
-                                        €{variant.node.price}
-                                      </span>
-                                      <button
-                                        onClick={() =>
-                                          addToCart(product, variant.node, 1)
-                                        }
-                                        disabled={remainingStock === 0}
-                                        className={`px-2 sm:px-3 py-1 rounded-lg text-xs sm:text-sm font-semibold transition-colors ${
-                                          remainingStock === 0
-                                            ? "bg-gray-300 text-gray-500 cursor-not-allowed"
-                                            : "bg-blue-600 hover:bg-blue-700 text-white"
-                                        }`}
-                                      >
-                                        {remainingStock === 0
-                                          ? "Out of Stock"
-                                          : "Add"}
-                                      </button>
-                                    </div>
-                                  </div>
-                                );
-                              })}
-                          </div>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-
-                {availableProducts.length === 0 && (
-                  <div className="text-center py-8 sm:py-12">
-                    <p className="text-gray-500 text-base sm:text-lg">
-                      No products found
-                    </p>
-                  </div>
-                )}
-              </div>
-            </div>
-          </div>
+          <ProductPickerModal
+            products={products}
+            getCartLine={(variantId) =>
+              cartItems.find((item) => item.variantId === variantId)
+            }
+            onAdd={(product, variant, fromWarehouse) =>
+              addToCart(product, variant, 1, fromWarehouse)
+            }
+            onClose={() => setShowProductModal(false)}
+            onRefreshCatalog={handleRefreshCatalog}
+            isRefreshingCatalog={isRefreshingCatalog}
+          />
         )}
       </div>
     </div>
   );
 }
+
+function indexStockErrors(stockErrors: StockError[]) {
+  return Object.fromEntries(
+    stockErrors.map((stockError) => [stockError.variantId, stockError])
+  );
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return (
+    <p className="text-xs sm:text-sm text-red-600 font-medium">{message}</p>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { QRCodeSVG } from "qrcode.react";
+import { formatCents, toCents } from "@/lib/money";
+import { CreatedOrder, ShopifyMoneyBag } from "@/lib/orderResult";
+
+function formatMoney(money: ShopifyMoneyBag) {
+  return `€${formatCents(toCents(money.shopMoney.amount))}`;
+}
+
+function getAttribute(order: CreatedOrder, key: string) {
+  return order.customAttributes.find((attribute) => attribute.key === key)
+    ?.value;
+}
+
+// Receipt card laid out to also print on 80mm thermal paper
+export default function OrderReceipt({ order }: { order: CreatedOrder }) {
+  const discountCents = toCents(
+    order.currentTotalDiscountsSet.shopMoney.amount
+  );
+  const cashGiven = getAttribute(order, "Cash given");
+  const change = getAttribute(order, "Change");
+  const staffName = getAttribute(order, "Staff");
+
+  return (
+    <div className="bg-white rounded-xl sm:rounded-2xl shadow-lg p-4 sm:p-6 text-gray-900 text-sm print:shadow-none print:rounded-none print:p-0 print:text-xs print:text-black">
+      <div className="text-center mb-4">
+        <p className="text-lg font-bold">{order.name}</p>
+        <p className="text-gray-600 print:text-black">
+          {new Date(order.createdAt).toLocaleString()}
+        </p>
+        {staffName && (
+          <p className="text-gray-600 print:text-black">
+            Served by {staffName}
+          </p>
+        )}
+      </div>
+
+      <ul className="border-t border-dashed border-gray-300 py-3 space-y-2 print:border-black">
+        {order.lineItems.nodes.map((line) => (
+          <li key={line.id} className="flex justify-between">
+            <div className="min-w-0 pr-2">
+              <p className="font-medium">
+                {line.quantity} × {line.title}
+              </p>
+              {line.variantTitle && (
+                <p className="text-gray-600 print:text-black">
+                  {line.variantTitle}
+                </p>
+              )}
+              {line.quantity > 1 && (
+                <p className="text-gray-600 print:text-black">
+                  {formatMoney(line.originalUnitPriceSet)} each
+                </p>
+              )}
+            </div>
+            <span className="font-medium whitespace-nowrap">
+              {formatMoney(line.discountedTotalSet)}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="border-t border-dashed border-gray-300 py-3 space-y-1 print:border-black">
+        <div className="flex justify-between">
+          <span>Subtotal</span>
+          <span>{formatMoney(order.currentSubtotalPriceSet)}</span>
+        </div>
+        {discountCents > 0 && (
+          <div className="flex justify-between">
+            <span>Discounts</span>
+            <span>-{formatMoney(order.currentTotalDiscountsSet)}</span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span>
+            Shipping
+            {order.shippingLine ? ` (${order.shippingLine.title})` : ""}
+          </span>
+          <span>{formatMoney(order.totalShippingPriceSet)}</span>
+        </div>
+        <div className="flex justify-between text-base font-bold">
+          <span>Total</span>
+          <span>{formatMoney(order.currentTotalPriceSet)}</span>
+        </div>
+        {order.taxLines.map((taxLine) => (
+          <div
+            key={taxLine.title}
+            className="flex justify-between text-gray-600 print:text-black"
+          >
+            <span>
+              {order.taxesIncluded ? "Incl. " : ""}
+              {taxLine.title}
+              {taxLine.ratePercentage !== null && ` ${taxLine.ratePercentage}%`}
+            </span>
+            <span>{formatMoney(taxLine.priceSet)}</span>
+          </div>
+        ))}
+        {order.taxLines.length === 0 && (
+          <div className="flex justify-between text-gray-600 print:text-black">
+            <span>{order.taxesIncluded ? "Incl. taxes" : "Taxes"}</span>
+            <span>{formatMoney(order.currentTotalTaxSet)}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="border-t border-dashed border-gray-300 py-3 space-y-1 print:border-black">
+        {order.transactions.map((transaction, index) => (
+          <div key={index} className="flex justify-between">
+            <span>{transaction.gateway}</span>
+            <span>{formatMoney(transaction.amountSet)}</span>
+          </div>
+        ))}
+        {cashGiven && (
+          <div className="flex justify-between text-gray-600 print:text-black">
+            <span>Cash given</span>
+            <span>€{cashGiven}</span>
+          </div>
+        )}
+        {change && (
+          <div className="flex justify-between text-gray-600 print:text-black">
+            <span>Change</span>
+            <span>€{change}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="border-t border-dashed border-gray-300 pt-4 flex flex-col items-center print:border-black">
+        <QRCodeSVG value={order.statusPageUrl} size={112} />
+        <p className="mt-2 text-center text-gray-600 print:text-black">
+          Scan to follow your order
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import {
+  PAYMENT_METHODS,
+  PaymentMethod,
+  Tender,
+  getChangeCents,
+  validateTenders,
+} from "@/lib/payments";
+import { formatCents, parseAmountCents } from "@/lib/money";
+
+// Payment rows as typed by staff; amounts stay strings while being edited
+export interface PaymentDraft {
+  method: PaymentMethod;
+  amount: string;
+  tendered: string;
+}
+
+export const INITIAL_PAYMENTS: PaymentDraft[] = [
+  { method: "card", amount: "", tendered: "" },
+];
+
+// A single payment always covers the whole total, so it follows cart changes.
+// Blank or unreadable amounts count as zero; getPaymentProblem reports them.
+export function toTenders(
+  payments: PaymentDraft[],
+  totalCents: number
+): Tender[] {
+  return payments.map((payment) => {
+    const amountCents =
+      payments.length === 1
+        ? totalCents
+        : parseAmountCents(payment.amount) ?? 0;
+    return {
+      method: payment.method,
+      amountCents,
+      tenderedCents:
+        payment.method === "cash" && payment.tendered
+          ? parseAmountCents(payment.tendered) ?? undefined
+          : undefined,
+    };
+  });
+}
+
+// Why the payments cannot be submitted as typed, or null
+export function getPaymentProblem(
+  payments: PaymentDraft[],
+  totalCents: number
+): string | null {
+  for (const payment of payments) {
+    const typed = [
+      payments.length > 1 ? payment.amount : "",
+      payment.method === "cash" ? payment.tendered : "",
+    ];
+    const unreadable = typed.find(
+      (text) => text.trim() !== "" && parseAmountCents(text) === null
+    );
+    if (unreadable !== undefined) {
+      return `"${unreadable}" is not an amount. Enter it like 12,50`;
+    }
+  }
+  return validateTenders(toTenders(payments, totalCents), totalCents);
+}
+
+export default function PaymentSection({
+  totalCents,
+  payments,
+  onChange,
+}: {
+  totalCents: number;
+  payments: PaymentDraft[];
+  onChange: (payments: PaymentDraft[]) => void;
+}) {
+  const tenders = toTenders(payments, totalCents);
+  const paidCents = tenders.reduce(
+    (total, tender) => total + tender.amountCents,
+    0
+  );
+  const changeCents = getChangeCents(tenders);
+  const problem =
+    totalCents > 0 ? getPaymentProblem(payments, totalCents) : null;
+
+  const updatePayment = (index: number, changes: Partial<PaymentDraft>) => {
+    onChange(
+      payments.map((payment, i) =>
+        i === index ? { ...payment, ...changes } : payment
+      )
+    );
+  };
+
+  const addPayment = () => {
+    // Pin the first row to what it currently covers before splitting
+    const pinned = payments.map((payment, i) => ({
+      ...payment,
+      amount: formatCents(tenders[i].amountCents),
+    }));
+    onChange([
+      ...pinned,
+      {
+        method: "cash",
+        amount: formatCents(Math.max(0, totalCents - paidCents)),
+        tendered: "",
+      },
+    ]);
+  };
+
+  const removePayment = (index: number) => {
+    onChange(payments.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2 sm:space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-xs sm:text-sm font-semibold text-gray-700">
+          Payment
+        </label>
+        <button
+          type="button"
+          onClick={addPayment}
+          className="text-xs sm:text-sm text-blue-600 hover:text-blue-700 font-medium transition-colors"
+        >
+          Split payment
+        </button>
+      </div>
+
+      {payments.map((payment, index) => {
+        const tender = tenders[index];
+        const tenderChange =
+          tender.tenderedCents !== undefined
+            ? tender.tenderedCents - tender.amountCents
+            : null;
+
+        return (
+          <div key={index} className="p-3 bg-gray-50 rounded-lg space-y-2">
+            <div className="flex items-center space-x-2">
+              <select
+                value={payment.method}
+                onChange={(e) =>
+                  updatePayment(index, {
+                    method: e.target.value as PaymentMethod,
+                    tendered: "",
+                  })
+                }
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm"
+              >
+                {Object.entries(PAYMENT_METHODS).map(([method, { label }]) => (
+                  <option key={method} value={method}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={
+                  payments.length === 1
+                    ? formatCents(totalCents)
+                    : payment.amount
+                }
+                onChange={(e) =>
+                  updatePayment(index, { amount: e.target.value })
+                }
+                readOnly={payments.length === 1}
+                className={`w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm text-right ${
+                  payments.length === 1 ? "bg-gray-100" : ""
+                }`}
+                aria-label="Amount"
+              />
+              {payments.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => removePayment(index)}
+                  className="text-red-600 hover:text-red-700 text-sm font-medium"
+                  aria-label="Remove payment"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+
+            {payment.method === "cash" && (
+              <div className="flex items-center justify-between text-xs sm:text-sm">
+                <div className="flex items-center space-x-2">
+                  <span className="text-gray-600">Cash given</span>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={payment.tendered}
+                    onChange={(e) =>
+                      updatePayment(index, { tendered: e.target.value })
+                    }
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-right"
+                    placeholder="0.00"
+                  />
+                </div>
+                {tenderChange !== null && tenderChange >= 0 && (
+                  <span className="font-semibold text-green-600">
+                    Change: €{formatCents(tenderChange)}
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {changeCents > 0 && payments.length > 1 && (
+        <p className="text-xs sm:text-sm font-semibold text-green-600">
+          Total change to give: €{formatCents(changeCents)}
+        </p>
+      )}
+      {problem && (
+        <p className="text-xs sm:text-sm text-orange-600 font-medium">
+          {problem}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,410 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import {
+  CatalogVariant,
+  OptionSelection,
+  ShopifyProduct,
+  filterProducts,
+  getCollections,
+  getFacetSelection,
+  getFacetValues,
+  getProductOptions,
+  matchesOptions,
+} from "@/lib/catalog";
+
+const chipClassName =
+  "px-3 py-1.5 rounded-full text-xs sm:text-sm font-medium border transition-colors whitespace-nowrap";
+const selectedChipClassName = "bg-blue-600 border-blue-600 text-white";
+const unselectedChipClassName =
+  "bg-white border-gray-300 text-gray-700 hover:bg-gray-50";
+
+// Catalog browser: collection tabs, size and colour filters, and each
+// product's variant chosen one option at a time (e.g. colour, then size)
+export default function ProductPickerModal({
+  products,
+  getCartLine,
+  onAdd,
+  onClose,
+  onRefreshCatalog,
+  isRefreshingCatalog,
+}: {
+  products: ShopifyProduct[];
+  getCartLine: (
+    variantId: string
+  ) => { quantity: number; fromWarehouse: boolean } | undefined;
+  onAdd: (
+    product: ShopifyProduct,
+    variant: CatalogVariant,
+    fromWarehouse: boolean
+  ) => void;
+  onClose: () => void;
+  onRefreshCatalog: () => void;
+  isRefreshingCatalog: boolean;
+}) {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [collectionId, setCollectionId] = useState("");
+  const [size, setSize] = useState("");
+  const [colour, setColour] = useState("");
+  // Options picked on each product card, by product id
+  const [selections, setSelections] = useState<Record<string, OptionSelection>>(
+    {}
+  );
+
+  const collections = getCollections(products);
+  const sizes = getFacetValues(products, "size");
+  const colours = getFacetValues(products, "colour");
+  const availableProducts = filterProducts(products, {
+    search: searchTerm,
+    collectionId: collectionId || undefined,
+    size: size || undefined,
+    colour: colour || undefined,
+  });
+
+  // Units still sellable and where from: the pop-up's own stock first, then
+  // the warehouse's. A variant in the cart stays with its stock.
+  const getSellable = (variant: CatalogVariant) => {
+    const line = getCartLine(variant.id);
+    const fromWarehouse = line
+      ? line.fromWarehouse
+      : variant.inventoryQuantity <= 0;
+    const stock = fromWarehouse
+      ? variant.warehouseQuantity
+      : variant.inventoryQuantity;
+    return { fromWarehouse, remaining: stock - (line?.quantity ?? 0) };
+  };
+
+  const getSelection = (product: ShopifyProduct): OptionSelection => ({
+    ...getFacetSelection(product, {
+      size: size || undefined,
+      colour: colour || undefined,
+    }),
+    ...selections[product.id],
+  });
+
+  // Picking an option clears the ones after it, which may not exist for the
+  // new value
+  const selectOption = (
+    product: ShopifyProduct,
+    optionIndex: number,
+    value: string
+  ) => {
+    const options = getProductOptions(product);
+    const current = getSelection(product);
+    const next: OptionSelection = {};
+    options.slice(0, optionIndex).forEach((option) => {
+      if (current[option.name]) next[option.name] = current[option.name];
+    });
+    next[options[optionIndex].name] = value;
+    setSelections((prev) => ({ ...prev, [product.id]: next }));
+  };
+
+  // Sold out when no variant with this value and the options picked before
+  // it has stock left
+  const isValueAvailable = (
+    product: ShopifyProduct,
+    optionIndex: number,
+    value: string
+  ) => {
+    const options = getProductOptions(product);
+    const selection = getSelection(product);
+    const earlier: OptionSelection = {};
+    options.slice(0, optionIndex).forEach((option) => {
+      if (selection[option.name]) earlier[option.name] = selection[option.name];
+    });
+    earlier[options[optionIndex].name] = value;
+    return product.variants.edges.some(
+      ({ node }) =>
+        matchesOptions(node, earlier) && getSellable(node).remaining > 0
+    );
+  };
+
+  const getSelectedVariant = (product: ShopifyProduct) => {
+    const options = getProductOptions(product);
+    if (options.length === 0) {
+      return product.variants.edges[0]?.node ?? null;
+    }
+    const selection = getSelection(product);
+    if (options.some((option) => !selection[option.name])) return null;
+    return (
+      product.variants.edges.find(({ node }) => matchesOptions(node, selection))
+        ?.node ?? null
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-2 sm:p-4 z-50">
+      <div className="bg-white rounded-xl sm:rounded-2xl shadow-xl max-w-4xl w-full max-h-[95vh] sm:max-h-[90vh] overflow-hidden">
+        <div className="p-4 sm:p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">
+              Select Products
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors p-1"
+            >
+              <svg
+                className="w-5 h-5 sm:w-6 sm:h-6"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+          <div className="mt-3 sm:mt-4 flex space-x-2">
+            <input
+              type="text"
+              placeholder="Search products or SKU..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full px-3 sm:px-4 py-2.5 sm:py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm sm:text-base"
+            />
+            <button
+              type="button"
+              onClick={onRefreshCatalog}
+              disabled={isRefreshingCatalog}
+              className="px-3 sm:px-4 rounded-lg text-xs sm:text-sm font-semibold bg-gray-100 hover:bg-gray-200 text-gray-700 transition-colors whitespace-nowrap disabled:opacity-50"
+            >
+              {isRefreshingCatalog ? "Refreshing..." : "Refresh catalog"}
+            </button>
+          </div>
+
+          {collections.length > 0 && (
+            <div className="mt-3 flex space-x-2 overflow-x-auto pb-1">
+              {[{ id: "", title: "All" }, ...collections].map((collection) => (
+                <button
+                  key={collection.id}
+                  type="button"
+                  onClick={() => setCollectionId(collection.id)}
+                  className={`${chipClassName} ${
+                    collectionId === collection.id
+                      ? selectedChipClassName
+                      : unselectedChipClassName
+                  }`}
+                >
+                  {collection.title}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {(sizes.length > 0 || colours.length > 0) && (
+            <div className="mt-3 grid grid-cols-2 gap-2">
+              <FacetSelect
+                label="Size"
+                values={sizes}
+                value={size}
+                onChange={setSize}
+              />
+              <FacetSelect
+                label="Colour"
+                values={colours}
+                value={colour}
+                onChange={setColour}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="overflow-y-auto max-h-[60vh] p-4 sm:p-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+            {availableProducts.map((product) => {
+              const options = getProductOptions(product);
+              const selection = getSelection(product);
+              const variant = getSelectedVariant(product);
+
+              return (
+                <div
+                  key={product.id}
+                  className="border border-gray-200 rounded-xl p-3 sm:p-4 hover:shadow-lg transition-shadow"
+                >
+                  <div className="flex items-start space-x-3 sm:space-x-4">
+                    <div className="flex-shrink-0 w-16 h-16 sm:w-20 sm:h-20 bg-gray-200 rounded-lg relative overflow-hidden">
+                      {product.image?.src && (
+                        <Image
+                          src={product.image.src}
+                          alt={product.title}
+                          fill
+                          className="object-cover rounded-lg"
+                          sizes="(max-width: 640px) 64px, 80px"
+                        />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-1.5 sm:mb-2">
+                        {product.title}
+                      </h3>
+                      <p className="text-xs sm:text-sm text-gray-600 mb-2 sm:mb-3 line-clamp-2">
+                        {product.description}
+                      </p>
+
+                      {options.map((option, optionIndex) => (
+                        <div key={option.name} className="mb-2">
+                          <p className="text-xs font-semibold text-gray-700 mb-1">
+                            {option.name}
+                          </p>
+                          <div className="flex flex-wrap gap-1.5">
+                            {option.values.map((value) => {
+                              const available = isValueAvailable(
+                                product,
+                                optionIndex,
+                                value
+                              );
+                              return (
+                                <button
+                                  key={value}
+                                  type="button"
+                                  onClick={() =>
+                                    selectOption(product, optionIndex, value)
+                                  }
+                                  disabled={!available}
+                                  className={`${chipClassName} ${
+                                    selection[option.name] === value
+                                      ? selectedChipClassName
+                                      : unselectedChipClassName
+                                  } disabled:bg-gray-100 disabled:text-gray-400 disabled:line-through disabled:cursor-not-allowed`}
+                                >
+                                  {value}
+                                </button>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      ))}
+
+                      {variant ? (
+                        <VariantRow
+                          variant={variant}
+                          cartQuantity={getCartLine(variant.id)?.quantity ?? 0}
+                          {...getSellable(variant)}
+                          onAdd={(fromWarehouse) =>
+                            onAdd(product, variant, fromWarehouse)
+                          }
+                        />
+                      ) : (
+                        options.every((option) => selection[option.name]) && (
+                          <p className="text-xs sm:text-sm text-gray-500">
+                            This combination is not available
+                          </p>
+                        )
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {availableProducts.length === 0 && (
+            <div className="text-center py-8 sm:py-12">
+              <p className="text-gray-500 text-base sm:text-lg">
+                No products found
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function FacetSelect({
+  label,
+  values,
+  value,
+  onChange,
+}: {
+  label: string;
+  values: string[];
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={values.length === 0}
+      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black text-sm disabled:bg-gray-100"
+    >
+      <option value="">Any {label.toLowerCase()}</option>
+      {values.map((facetValue) => (
+        <option key={facetValue} value={facetValue}>
+          {facetValue}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function VariantRow({
+  variant,
+  cartQuantity,
+  fromWarehouse,
+  remaining: remainingStock,
+  onAdd,
+}: {
+  variant: CatalogVariant;
+  cartQuantity: number;
+  fromWarehouse: boolean;
+  remaining: number;
+  onAdd: (fromWarehouse: boolean) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+      <div className="flex-1 min-w-0">
+        <p className="font-medium text-gray-900 text-sm sm:text-base">
+          {variant.title}
+        </p>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-2 space-y-1 sm:space-y-0">
+          <p className="text-xs sm:text-sm text-gray-600">
+            Stock: {variant.inventoryQuantity}
+          </p>
+          {variant.warehouseQuantity > 0 && (
+            <p className="text-xs sm:text-sm text-gray-600">
+              Warehouse: {variant.warehouseQuantity}
+            </p>
+          )}
+          {cartQuantity > 0 && (
+            <p className="text-xs sm:text-sm text-blue-600">
+              In cart: {cartQuantity}
+            </p>
+          )}
+          {remainingStock <= 5 && remainingStock > 0 && (
+            <p className="text-xs sm:text-sm text-orange-600 font-medium">
+              Only {remainingStock} left!
+            </p>
+          )}
+        </div>
+      </div>
+      <div className="flex items-center space-x-2 ml-2">
+        <span className="font-bold text-green-600 text-sm sm:text-base">
+          €{variant.price}
+        </span>
+        <button
+          onClick={() => onAdd(fromWarehouse)}
+          disabled={remainingStock <= 0}
+          className={`px-2 sm:px-3 py-1 rounded-lg text-xs sm:text-sm font-semibold transition-colors ${
+            remainingStock <= 0
+              ? "bg-gray-300 text-gray-500 cursor-not-allowed"
+              : "bg-blue-600 hover:bg-blue-700 text-white"
+          }`}
+        >
+          {remainingStock <= 0
+            ? "Out of Stock"
+            : fromWarehouse
+            ? "Ship from warehouse"
+            : "Add"}
+        </button>
+      </div>
+    </div>
+  );
+}
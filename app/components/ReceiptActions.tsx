@@ -0,0 +1,82 @@
+"use client";
+
+import { useState } from "react";
+import { sendOrderReceipt } from "@/db/queries";
+
+// Print and email buttons shown under a receipt
+export default function ReceiptActions({
+  orderId,
+  defaultEmail,
+}: {
+  orderId: string;
+  defaultEmail: string | null;
+}) {
+  const [email, setEmail] = useState(defaultEmail ?? "");
+  const [isSending, setIsSending] = useState(false);
+  const [emailStatus, setEmailStatus] = useState<{
+    sent: boolean;
+    message: string;
+  } | null>(null);
+
+  const handleSendReceipt = async () => {
+    setIsSending(true);
+    setEmailStatus(null);
+    try {
+      const result = await sendOrderReceipt(orderId, email);
+      setEmailStatus(
+        result.success
+          ? { sent: true, message: `Receipt sent to ${email}` }
+          : { sent: false, message: result.error }
+      );
+    } catch (err) {
+      console.error("Error sending receipt:", err);
+      setEmailStatus({ sent: false, message: "Could not send the receipt" });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 print:hidden">
+      <button
+        type="button"
+        onClick={() => window.print()}
+        className="w-full py-3 px-4 rounded-lg font-semibold text-white bg-blue-600 hover:bg-blue-700 transition-colors text-sm sm:text-base"
+      >
+        Print receipt
+      </button>
+
+      <div className="bg-white rounded-xl shadow-sm p-4 space-y-2">
+        <label className="block text-xs sm:text-sm font-semibold text-gray-700">
+          Email receipt
+        </label>
+        <div className="flex space-x-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full px-3 sm:px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm sm:text-base"
+            placeholder="customer@example.com"
+          />
+          <button
+            type="button"
+            onClick={handleSendReceipt}
+            disabled={isSending || !email}
+            className="px-3 sm:px-4 rounded-lg text-xs sm:text-sm font-semibold bg-gray-100 hover:bg-gray-200 text-gray-700 transition-colors whitespace-nowrap disabled:opacity-50"
+          >
+            {isSending ? "Sending..." : "Send"}
+          </button>
+        </div>
+        {emailStatus && (
+          <p
+            className={`text-xs sm:text-sm font-medium ${
+              emailStatus.sent ? "text-green-600" : "text-red-600"
+            }`}
+          >
+            {emailStatus.message}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
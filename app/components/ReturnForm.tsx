@@ -0,0 +1,300 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { processReturn } from "@/db/queries";
+import { formatCents, toCents } from "@/lib/money";
+import { getOrderPath } from "@/lib/orders";
+import { PAYMENT_METHODS, PaymentMethod } from "@/lib/payments";
+import {
+  RETURN_REASONS,
+  ReturnReason,
+  ReturnSuccess,
+  ReturnableOrder,
+} from "@/lib/returns";
+
+interface LineSelection {
+  quantity: number;
+  // Empty for a refund
+  exchangeVariantId: string;
+}
+
+// Lines to take back, each refunded or swapped for another variant. The
+// balance is an estimate; Shopify works out the exact refund.
+export default function ReturnForm({ order }: { order: ReturnableOrder }) {
+  const [selections, setSelections] = useState<Record<string, LineSelection>>(
+    {}
+  );
+  const [reason, setReason] = useState<ReturnReason | "">("");
+  const [note, setNote] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | "">("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ReturnSuccess | null>(null);
+  // Kept across retries so a return is processed once
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
+
+  const getSelection = (lineId: string) =>
+    selections[lineId] ?? { quantity: 0, exchangeVariantId: "" };
+
+  const updateSelection = (lineId: string, update: Partial<LineSelection>) => {
+    setSelections((current) => ({
+      ...current,
+      [lineId]: { ...getSelection(lineId), ...update },
+    }));
+  };
+
+  let returnedCents = 0;
+  let exchangeCents = 0;
+  for (const line of order.lines) {
+    const selection = getSelection(line.id);
+    if (selection.quantity === 0) continue;
+    returnedCents += line.unitPriceCents * selection.quantity;
+    const option = line.exchangeOptions.find(
+      (option) => option.variantId === selection.exchangeVariantId
+    );
+    if (option) {
+      exchangeCents += toCents(option.price) * selection.quantity;
+    }
+  }
+  const dueCents = Math.max(0, exchangeCents - returnedCents);
+  const refundCents = Math.max(0, returnedCents - exchangeCents);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await processReturn({
+        orderId: order.id,
+        reason: reason as ReturnReason,
+        note: note || undefined,
+        lines: order.lines
+          .map((line) => ({ lineItemId: line.id, ...getSelection(line.id) }))
+          .filter((line) => line.quantity > 0)
+          .map((line) => ({
+            lineItemId: line.lineItemId,
+            quantity: line.quantity,
+            exchangeVariantId: line.exchangeVariantId || undefined,
+          })),
+        paymentMethod:
+          dueCents > 0 && paymentMethod ? paymentMethod : undefined,
+        idempotencyKey,
+      });
+      if (!response.success) {
+        setError(response.error);
+        return;
+      }
+      setResult(response);
+    } catch (err) {
+      console.error("Error processing return:", err);
+      setError("Could not process the return. Try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm p-4 text-sm text-gray-900 space-y-3">
+        <p className="font-semibold text-green-600">Return processed</p>
+        <div className="flex justify-between">
+          <span className="text-gray-600">Refunded to the customer</span>
+          <span>€{formatCents(result.refundedCents)}</span>
+        </div>
+        {result.exchangeOrderName && (
+          <div className="flex justify-between">
+            <span className="text-gray-600">Exchange order</span>
+            <span>{result.exchangeOrderName}</span>
+          </div>
+        )}
+        {!!result.amountDueCents && (
+          <div className="flex justify-between">
+            <span className="text-gray-600">Paid by the customer</span>
+            <span>€{formatCents(result.amountDueCents)}</span>
+          </div>
+        )}
+        <Link
+          href={getOrderPath(order.id)}
+          className="block text-blue-600 hover:text-blue-700 font-medium"
+        >
+          Back to order {order.name}
+        </Link>
+      </div>
+    );
+  }
+
+  const returnableLines = order.lines.filter(
+    (line) => line.refundableQuantity > 0
+  );
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white rounded-xl shadow-sm p-4 space-y-4 text-sm text-gray-900"
+    >
+      {returnableLines.length === 0 && (
+        <p className="text-gray-600">
+          Everything on this order has already been returned.
+        </p>
+      )}
+
+      {returnableLines.map((line) => {
+        const selection = getSelection(line.id);
+        return (
+          <div
+            key={line.id}
+            className="border-b border-gray-100 pb-3 last:border-b-0 space-y-2"
+          >
+            <div className="flex justify-between gap-3">
+              <div>
+                <p className="font-semibold">{line.title}</p>
+                {line.variantTitle && (
+                  <p className="text-gray-600">{line.variantTitle}</p>
+                )}
+              </div>
+              <span className="whitespace-nowrap">
+                €{formatCents(line.unitPriceCents)}
+              </span>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="space-y-1">
+                <span className="block text-xs font-semibold text-gray-700">
+                  Quantity
+                </span>
+                <select
+                  value={selection.quantity}
+                  onChange={(e) =>
+                    updateSelection(line.id, {
+                      quantity: Number(e.target.value),
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black"
+                >
+                  {Array.from(
+                    { length: line.refundableQuantity + 1 },
+                    (_, quantity) => (
+                      <option key={quantity} value={quantity}>
+                        {quantity}
+                      </option>
+                    )
+                  )}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <span className="block text-xs font-semibold text-gray-700">
+                  Give back
+                </span>
+                <select
+                  value={selection.exchangeVariantId}
+                  onChange={(e) =>
+                    updateSelection(line.id, {
+                      exchangeVariantId: e.target.value,
+                    })
+                  }
+                  disabled={selection.quantity === 0}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black disabled:bg-gray-100"
+                >
+                  <option value="">Refund</option>
+                  {line.exchangeOptions.map((option) => (
+                    <option
+                      key={option.variantId}
+                      value={option.variantId}
+                      disabled={option.inventoryQuantity < selection.quantity}
+                    >
+                      {option.title} (€{option.price})
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </div>
+        );
+      })}
+
+      <label className="block space-y-1">
+        <span className="block text-xs font-semibold text-gray-700">
+          Reason
+        </span>
+        <select
+          value={reason}
+          onChange={(e) => setReason(e.target.value as ReturnReason | "")}
+          required
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black"
+        >
+          <option value="">Select a reason</option>
+          {Object.entries(RETURN_REASONS).map(([id, label]) => (
+            <option key={id} value={id}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block space-y-1">
+        <span className="block text-xs font-semibold text-gray-700">Note</span>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black"
+          placeholder="Optional"
+        />
+      </label>
+
+      <div className="p-3 bg-gray-50 rounded-lg space-y-1">
+        <div className="flex justify-between">
+          <span className="text-gray-600">Returned items</span>
+          <span>€{formatCents(returnedCents)}</span>
+        </div>
+        {exchangeCents > 0 && (
+          <div className="flex justify-between">
+            <span className="text-gray-600">Exchange items</span>
+            <span>€{formatCents(exchangeCents)}</span>
+          </div>
+        )}
+        <div className="flex justify-between font-semibold">
+          <span>{dueCents > 0 ? "Customer pays" : "Refund"}</span>
+          <span>€{formatCents(dueCents > 0 ? dueCents : refundCents)}</span>
+        </div>
+      </div>
+
+      {dueCents > 0 && (
+        <label className="block space-y-1">
+          <span className="block text-xs font-semibold text-gray-700">
+            Difference paid by
+          </span>
+          <select
+            value={paymentMethod}
+            onChange={(e) =>
+              setPaymentMethod(e.target.value as PaymentMethod | "")
+            }
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black"
+          >
+            <option value="">Select a payment method</option>
+            {Object.entries(PAYMENT_METHODS).map(([id, method]) => (
+              <option key={id} value={id}>
+                {method.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {error && <p className="text-red-600 font-medium">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={isSubmitting || returnedCents === 0}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors disabled:opacity-50"
+      >
+        {isSubmitting
+          ? "Processing..."
+          : exchangeCents > 0
+          ? "Return and exchange"
+          : "Return and refund"}
+      </button>
+    </form>
+  );
+}
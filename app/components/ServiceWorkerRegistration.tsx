@@ -0,0 +1,16 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Registers public/sw.js so the order page keeps working offline
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker.register("/sw.js").catch((err) => {
+      console.error("Error registering service worker:", err);
+    });
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { formatCents } from "@/lib/money";
+import { CountryCode } from "@/lib/countries";
+import { ShippingRate, getShippingPriceCents } from "@/lib/shipping";
+
+export default function ShippingOptions({
+  rates,
+  selectedRateId,
+  countryCode,
+  zip,
+  subtotalCents,
+  onSelect,
+}: {
+  rates: ShippingRate[];
+  selectedRateId: string;
+  countryCode: CountryCode;
+  zip: string;
+  subtotalCents: number;
+  onSelect: (rateId: string) => void;
+}) {
+  return (
+    <div className="space-y-1.5 sm:space-y-2">
+      <label className="block text-xs sm:text-sm font-semibold text-gray-700">
+        Delivery
+      </label>
+      {rates.map((rate) => {
+        const priceCents = getShippingPriceCents(
+          rate,
+          countryCode,
+          zip,
+          subtotalCents
+        );
+        const isSelected = rate.id === selectedRateId;
+
+        return (
+          <label
+            key={rate.id}
+            className={`flex items-center justify-between p-3 rounded-lg border cursor-pointer transition-colors ${
+              isSelected
+                ? "border-blue-500 bg-blue-50"
+                : "border-gray-200 hover:bg-gray-50"
+            }`}
+          >
+            <div className="flex items-center space-x-3">
+              <input
+                type="radio"
+                name="shippingRateId"
+                value={rate.id}
+                checked={isSelected}
+                onChange={() => onSelect(rate.id)}
+                className="text-blue-600 focus:ring-blue-500"
+              />
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {rate.title}
+                </p>
+                <p className="text-xs text-gray-500">{rate.description}</p>
+              </div>
+            </div>
+            <span className="text-sm font-semibold text-gray-900">
+              {priceCents === null
+                ? zip
+                  ? "Not available"
+                  : "Enter address"
+                : priceCents === 0
+                ? "Free"
+                : `€${formatCents(priceCents)}`}
+            </span>
+          </label>
+        );
+      })}
+    </div>
+  );
+}
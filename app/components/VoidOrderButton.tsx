@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { voidOrder } from "@/db/queries";
+import { VOID_REASONS, VoidReason } from "@/lib/orders";
+
+// Managers cancel an order with a reason; the customer is refunded and the
+// items go back into stock
+export default function VoidOrderButton({
+  orderId,
+  orderName,
+}: {
+  orderId: string;
+  orderName: string;
+}) {
+  const router = useRouter();
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [reason, setReason] = useState<VoidReason | "">("");
+  const [isVoiding, setIsVoiding] = useState(false);
+  const [status, setStatus] = useState<{
+    voided: boolean;
+    message: string;
+  } | null>(null);
+
+  const handleVoid = async () => {
+    if (!reason) return;
+    setIsVoiding(true);
+    setStatus(null);
+    try {
+      const result = await voidOrder(orderId, reason);
+      if (!result.success) {
+        setStatus({ voided: false, message: result.error });
+        return;
+      }
+      setStatus({
+        voided: true,
+        message: `${orderName} is being cancelled and refunded`,
+      });
+      setIsConfirming(false);
+      router.refresh();
+    } catch (err) {
+      console.error("Error voiding order:", err);
+      setStatus({ voided: false, message: "Could not void the order" });
+    } finally {
+      setIsVoiding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {isConfirming ? (
+        <div className="bg-white rounded-xl shadow-sm p-4 space-y-2">
+          <label className="block text-xs sm:text-sm font-semibold text-gray-700">
+            Why is {orderName} being voided?
+          </label>
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value as VoidReason | "")}
+            className="w-full px-3 sm:px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm sm:text-base"
+          >
+            <option value="">Select a reason</option>
+            {Object.entries(VOID_REASONS).map(([id, label]) => (
+              <option key={id} value={id}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-600">
+            The customer is refunded and the items go back into stock.
+          </p>
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={() => setIsConfirming(false)}
+              className="flex-1 py-2.5 px-4 rounded-lg font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors text-sm"
+            >
+              Keep order
+            </button>
+            <button
+              type="button"
+              onClick={handleVoid}
+              disabled={!reason || isVoiding}
+              className="flex-1 py-2.5 px-4 rounded-lg font-semibold text-white bg-red-600 hover:bg-red-700 transition-colors text-sm disabled:opacity-50"
+            >
+              {isVoiding ? "Voiding..." : "Void order"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        !status?.voided && (
+          <button
+            type="button"
+            onClick={() => setIsConfirming(true)}
+            className="block w-full py-3 px-4 rounded-lg font-semibold text-center text-red-600 bg-white hover:bg-red-50 border border-red-200 transition-colors text-sm sm:text-base"
+          >
+            Void order
+          </button>
+        )
+      )}
+      {status && (
+        <p
+          className={`text-xs sm:text-sm font-medium ${
+            status.voided ? "text-green-600" : "text-red-600"
+          }`}
+        >
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+}
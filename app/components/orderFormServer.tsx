@@ -1,7 +1,40 @@
+import { getActiveEvent } from "@/db/events";
 import { getProducts } from "@/db/queries";
+import { getCurrentStaff, listStaff } from "@/lib/auth";
+import { getConfig } from "@/lib/config";
+import { hasPermission } from "@/lib/staff";
 import OrderForm from "./OrderForm";
 
 export async function OrderFormServer() {
+  const event = await getActiveEvent();
+  if (!event) {
+    return (
+      <p className="text-center text-gray-600">
+        No event is on today, so orders can&apos;t be taken. A manager can
+        activate one on the Events page.
+      </p>
+    );
+  }
+
   const products = await getProducts();
-  return <OrderForm products={products} />;
+  const { shipping } = getConfig();
+  const staff = await getCurrentStaff();
+  // The event's rate may have been removed from SHIPPING_RATES since
+  const eventRate = shipping.rates.find(
+    (rate) => rate.id === event.defaultShippingRateId
+  );
+  return (
+    <OrderForm
+      products={products}
+      shippingRates={shipping.rates}
+      defaultShippingRateId={eventRate?.id ?? shipping.defaultRateId}
+      canApproveDiscounts={
+        staff ? hasPermission(staff, "discounts:approve") : false
+      }
+      managers={listStaff().filter((member) =>
+        hasPermission(member, "discounts:approve")
+      )}
+      welcomeText={event.brandingText}
+    />
+  );
 }
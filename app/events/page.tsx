@@ -0,0 +1,131 @@
+import Link from "next/link";
+import { getEventProfiles } from "@/db/queries";
+import { requireStaff } from "@/lib/auth";
+import { getConfig } from "@/lib/config";
+import { getShopDate } from "@/lib/dates";
+import { isEventOn } from "@/lib/events";
+import { hasPermission } from "@/lib/staff";
+import ActivateEventButton from "../components/ActivateEventButton";
+import EventProfileForm from "../components/EventProfileForm";
+
+export default async function EventsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ edit?: string }>;
+}) {
+  const staff = await requireStaff();
+  if (!hasPermission(staff, "events:manage")) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4">
+        <p className="text-center text-gray-600">
+          Only managers can change the event.{" "}
+          <Link href="/" className="text-blue-600 hover:text-blue-700">
+            Back to orders
+          </Link>
+        </p>
+      </div>
+    );
+  }
+
+  const params = await searchParams;
+  const { events, activeEventId } = await getEventProfiles();
+  const editing = events.find((event) => event.id === params.edit) ?? null;
+  const { shipping, timeZone } = getConfig();
+  const today = getShopDate(timeZone);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-4 sm:py-8 px-3 sm:px-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-3">
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">
+            Events
+          </h1>
+          <Link
+            href="/"
+            className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            New order
+          </Link>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-white rounded-xl shadow-sm overflow-x-auto">
+            {events.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500">
+                No events yet. Orders can&apos;t be taken until one is added and
+                activated.
+              </p>
+            ) : (
+              <table className="w-full text-sm text-left text-gray-900">
+                <thead className="bg-gray-50 text-xs text-gray-600 uppercase">
+                  <tr>
+                    <th className="px-4 py-2">Event</th>
+                    <th className="px-4 py-2">Dates</th>
+                    <th className="px-4 py-2">Tags</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {events.map((event) => (
+                    <tr key={event.id}>
+                      <td className="px-4 py-2">
+                        <span className="font-medium">{event.name}</span>
+                        <span className="text-gray-500"> · {event.city}</span>
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        {event.startDate} – {event.endDate}
+                      </td>
+                      <td className="px-4 py-2 text-gray-500">
+                        {event.tags.join(", ") || "—"}
+                      </td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap space-x-3">
+                        <Link
+                          href={`/events?edit=${event.id}`}
+                          className="text-blue-600 hover:text-blue-700 font-medium"
+                        >
+                          Edit
+                        </Link>
+                        {event.id === activeEventId ? (
+                          <span className="px-2 py-1 bg-green-50 text-green-700 rounded-full text-xs font-semibold">
+                            {isEventOn(event, today)
+                              ? "Active"
+                              : "Active, not on today"}
+                          </span>
+                        ) : event.endDate < today ? (
+                          <span className="text-gray-500">Ended</span>
+                        ) : (
+                          <ActivateEventButton eventId={event.id} />
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm p-4">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-lg font-semibold text-gray-900">
+                {editing ? `Edit ${editing.name}` : "New event"}
+              </h2>
+              {editing && (
+                <Link
+                  href="/events"
+                  className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  Cancel
+                </Link>
+              )}
+            </div>
+            <EventProfileForm
+              key={editing?.id ?? "new"}
+              event={editing}
+              shippingRates={shipping.rates}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import { getActiveEvent } from "@/db/events";
+import { DEFAULT_TITLE } from "@/lib/events";
+import ServiceWorkerRegistration from "./components/ServiceWorkerRegistration";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -12,10 +15,21 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "Shameless Pop Up 2025",
-  description: "Shameless Pop Up 2025",
-};
+// Rendered per request so switching events needs no rebuild
+export const dynamic = "force-dynamic";
+
+// Titled after the active event, so each pop-up's tabs and shortcuts are
+// named for it
+export async function generateMetadata(): Promise<Metadata> {
+  const event = await getActiveEvent();
+  if (!event) {
+    return { title: DEFAULT_TITLE, description: DEFAULT_TITLE };
+  }
+  return {
+    title: event.name,
+    description: event.city ? `${event.name} · ${event.city}` : event.name,
+  };
+}
 
 export default function RootLayout({
   children,
@@ -28,6 +42,7 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         {children}
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
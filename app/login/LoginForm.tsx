@@ -0,0 +1,80 @@
+"use client";
+
+import { useActionState } from "react";
+import { StaffMember } from "@/lib/staff";
+import { LoginState, login } from "./actions";
+
+const initialState: LoginState = { error: null };
+
+export default function LoginForm({
+  staff,
+  next,
+}: {
+  staff: StaffMember[];
+  next: string;
+}) {
+  const [state, formAction, isPending] = useActionState(login, initialState);
+
+  return (
+    <form
+      action={formAction}
+      className="bg-white rounded-xl sm:rounded-2xl shadow-lg p-4 sm:p-6 space-y-3 sm:space-y-4"
+    >
+      {state.error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-red-600 shadow-sm text-sm">
+          {state.error}
+        </div>
+      )}
+
+      <input type="hidden" name="next" value={next} />
+
+      <div className="space-y-1.5 sm:space-y-2">
+        <label className="block text-xs sm:text-sm font-semibold text-gray-700">
+          Staff Member
+        </label>
+        <select
+          name="staffId"
+          required
+          defaultValue=""
+          className="w-full px-3 sm:px-4 py-2.5 sm:py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm sm:text-base"
+        >
+          <option value="" disabled>
+            Select your name
+          </option>
+          {staff.map((member) => (
+            <option key={member.id} value={member.id}>
+              {member.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-1.5 sm:space-y-2">
+        <label className="block text-xs sm:text-sm font-semibold text-gray-700">
+          PIN
+        </label>
+        <input
+          type="password"
+          name="pin"
+          inputMode="numeric"
+          autoComplete="off"
+          required
+          className="w-full px-3 sm:px-4 py-2.5 sm:py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-black text-sm sm:text-base"
+          placeholder="Enter your PIN"
+        />
+      </div>
+
+      <button
+        type="submit"
+        disabled={isPending}
+        className={`w-full py-3 sm:py-4 px-4 sm:px-6 rounded-lg font-semibold text-white transition-colors text-sm sm:text-base ${
+          isPending
+            ? "bg-gray-400 cursor-not-allowed"
+            : "bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+        }`}
+      >
+        {isPending ? "Signing in..." : "Sign In"}
+      </button>
+    </form>
+  );
+}
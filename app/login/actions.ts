@@ -0,0 +1,62 @@
+"use server";
+
+import { cookies, headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { signInWithPin } from "@/lib/auth";
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_SECONDS,
+  createSessionToken,
+} from "@/lib/session";
+
+export interface LoginState {
+  error: string | null;
+}
+
+// Behind a proxy the client address is the last X-Forwarded-For entry, the
+// one the proxy appended. Earlier entries come from the client and can be
+// anything.
+async function getClientAddress() {
+  const headerStore = await headers();
+  return (
+    headerStore.get("x-forwarded-for")?.split(",").pop()?.trim() ||
+    headerStore.get("x-real-ip") ||
+    "unknown"
+  );
+}
+
+export async function login(
+  _prevState: LoginState,
+  formData: FormData
+): Promise<LoginState> {
+  const staffId = String(formData.get("staffId") ?? "");
+  const pin = String(formData.get("pin") ?? "");
+  const next = String(formData.get("next") ?? "/");
+
+  const { staff, error } = signInWithPin(
+    staffId,
+    pin,
+    await getClientAddress()
+  );
+  if (!staff) {
+    return { error };
+  }
+
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE, await createSessionToken(staff), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+
+  // Only follow same-site relative paths after signing in
+  redirect(next.startsWith("/") && !next.startsWith("//") ? next : "/");
+}
+
+export async function logout() {
+  const cookieStore = await cookies();
+  cookieStore.delete(SESSION_COOKIE);
+  redirect("/login");
+}
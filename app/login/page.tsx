@@ -0,0 +1,30 @@
+import Image from "next/image";
+import { listStaff } from "@/lib/auth";
+import LoginForm from "./LoginForm";
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string }>;
+}) {
+  const { next } = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md mx-auto">
+        <div className="text-center mb-8">
+          <Image
+            src="/LOGO_black.png"
+            alt="Shameless Collective"
+            width={240}
+            height={96}
+            className="h-20 sm:h-24 mx-auto mb-6"
+            priority
+          />
+          <p className="text-lg text-gray-600">Staff sign in</p>
+        </div>
+        <LoginForm staff={listStaff()} next={next ?? "/"} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import type { MetadataRoute } from "next";
+import { getActiveEvent } from "@/db/events";
+import { DEFAULT_TITLE } from "@/lib/events";
+
+// Named after the active event, so it is built per request
+export const dynamic = "force-dynamic";
+
+// Lets staff install the order page on the stand's tablets
+export default async function manifest(): Promise<MetadataRoute.Manifest> {
+  const event = await getActiveEvent();
+  return {
+    name: event?.name ?? DEFAULT_TITLE,
+    short_name: "Pop-up",
+    description: "Take orders at the pop-up stand",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#eef2ff",
+    theme_color: "#2563eb",
+    icons: [
+      {
+        src: "/LOGO_black.png",
+        sizes: "1572x556",
+        type: "image/png",
+      },
+    ],
+  };
+}
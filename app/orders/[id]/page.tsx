@@ -0,0 +1,102 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getPopUpOrder } from "@/db/orders";
+import { listStaff, requireStaff } from "@/lib/auth";
+import { formatOrderStatus, toOrderId } from "@/lib/orders";
+import { getStaffIdFromTags, hasPermission } from "@/lib/staff";
+import OrderReceipt from "../../components/OrderReceipt";
+import ReceiptActions from "../../components/ReceiptActions";
+import VoidOrderButton from "../../components/VoidOrderButton";
+
+export default async function OrderPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const staff = await requireStaff();
+  const { id } = await params;
+  if (!/^\d+$/.test(id)) {
+    notFound();
+  }
+
+  const order = await getPopUpOrder(toOrderId(id));
+  if (!order) {
+    notFound();
+  }
+
+  const staffId = getStaffIdFromTags(order.tags);
+  const staffName = staffId
+    ? listStaff().find((member) => member.id === staffId)?.name ?? staffId
+    : null;
+  const address = order.shippingAddress;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-4 sm:py-8 px-3 sm:px-4 print:min-h-0 print:bg-none print:bg-white print:p-0">
+      <div className="max-w-md mx-auto print:max-w-none">
+        <div className="mb-6 print:hidden">
+          <Link
+            href="/orders"
+            className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            ← All orders
+          </Link>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 mt-2">
+            Order {order.name}
+          </h1>
+          <p className="text-sm text-gray-600 capitalize">
+            {order.cancelledAt
+              ? "cancelled"
+              : [order.displayFinancialStatus, order.displayFulfillmentStatus]
+                  .filter((status): status is string => Boolean(status))
+                  .map(formatOrderStatus)
+                  .join(" · ")}
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-4 mb-6 text-sm text-gray-900 space-y-1 print:hidden">
+          <p className="font-semibold">
+            {order.customer?.displayName ??
+              [address?.firstName, address?.lastName].filter(Boolean).join(" ")}
+          </p>
+          {order.email && <p>{order.email}</p>}
+          {(order.phone ?? address?.phone) && (
+            <p>{order.phone ?? address?.phone}</p>
+          )}
+          {address && (
+            <p className="text-gray-600">
+              {[
+                address.address1,
+                address.address2,
+                address.zip,
+                address.city,
+                address.provinceCode,
+                address.countryCode,
+              ]
+                .filter(Boolean)
+                .join(", ")}
+            </p>
+          )}
+          {staffName && <p className="text-gray-600">Sold by {staffName}</p>}
+          {order.note && <p className="text-gray-600">{order.note}</p>}
+        </div>
+
+        <OrderReceipt order={order} />
+
+        <div className="mt-6 space-y-4 print:hidden">
+          <ReceiptActions orderId={order.id} defaultEmail={order.email} />
+          {!order.cancelledAt && (
+            <Link
+              href={`/orders/${id}/return`}
+              className="block w-full py-3 px-4 rounded-lg font-semibold text-center text-gray-700 bg-white hover:bg-gray-50 border border-gray-300 transition-colors text-sm sm:text-base"
+            >
+              Return / exchange
+            </Link>
+          )}
+          {!order.cancelledAt && hasPermission(staff, "orders:void") && (
+            <VoidOrderButton orderId={order.id} orderName={order.name} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
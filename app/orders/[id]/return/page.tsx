@@ -0,0 +1,46 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getReturnableOrder } from "@/db/queries";
+import { requireStaff } from "@/lib/auth";
+import { toOrderId } from "@/lib/orders";
+import ReturnForm from "../../../components/ReturnForm";
+
+export default async function ReturnPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  await requireStaff();
+  const { id } = await params;
+  if (!/^\d+$/.test(id)) {
+    notFound();
+  }
+
+  const order = await getReturnableOrder(toOrderId(id));
+  if (!order) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-4 sm:py-8 px-3 sm:px-4">
+      <div className="max-w-md mx-auto">
+        <div className="mb-6">
+          <Link
+            href={`/orders/${id}`}
+            className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            ← Order {order.name}
+          </Link>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 mt-2">
+            Return or exchange
+          </h1>
+          {order.customerName && (
+            <p className="text-sm text-gray-600">{order.customerName}</p>
+          )}
+        </div>
+
+        <ReturnForm order={order} />
+      </div>
+    </div>
+  );
+}
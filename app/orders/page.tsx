@@ -0,0 +1,228 @@
+import Link from "next/link";
+import { getSelectedEvent } from "@/db/events";
+import { listPopUpOrders } from "@/db/orders";
+import { listStaff, requireStaff } from "@/lib/auth";
+import { getConfig } from "@/lib/config";
+import { getShopDate } from "@/lib/dates";
+import { clampToEvent } from "@/lib/events";
+import { formatCents, toCents } from "@/lib/money";
+import { formatOrderStatus, getOrderPath } from "@/lib/orders";
+import { getStaffIdFromTags } from "@/lib/staff";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toDate(value: string | undefined, fallback: string) {
+  return value && DATE_PATTERN.test(value) ? value : fallback;
+}
+
+export default async function OrdersPage({
+  searchParams,
+}: {
+  searchParams: Promise<{
+    from?: string;
+    to?: string;
+    q?: string;
+    staff?: string;
+    after?: string;
+  }>;
+}) {
+  await requireStaff();
+  const event = await getSelectedEvent();
+  if (!event) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4">
+        <p className="text-center text-gray-600">
+          No event has been activated, so there are no orders to show.{" "}
+          <Link href="/" className="text-blue-600 hover:text-blue-700">
+            Back to orders
+          </Link>
+        </p>
+      </div>
+    );
+  }
+
+  const params = await searchParams;
+  // The event's orders of today, or of its nearest day, unless another range
+  // is picked
+  const today = clampToEvent(event, getShopDate(getConfig().timeZone));
+  const search = {
+    eventId: event.id,
+    from: toDate(params.from, today),
+    to: toDate(params.to, today),
+    text: params.q ?? "",
+    staffId: params.staff ?? "",
+  };
+
+  const staff = listStaff();
+  const { orders, endCursor, hasNextPage } = await listPopUpOrders({
+    ...search,
+    after: params.after,
+  });
+  const staffNames = new Map(staff.map((member) => [member.id, member.name]));
+
+  const nextPageParams = new URLSearchParams({
+    from: search.from,
+    to: search.to,
+    q: search.text,
+    staff: search.staffId,
+    after: endCursor ?? "",
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-4 sm:py-8 px-3 sm:px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">
+            Orders · {event.name}
+          </h1>
+          <Link
+            href="/"
+            className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            New order
+          </Link>
+        </div>
+
+        <form className="bg-white rounded-xl shadow-sm p-4 mb-6 grid grid-cols-2 sm:grid-cols-5 gap-3 items-end">
+          <label className="col-span-2 sm:col-span-2 space-y-1">
+            <span className="block text-xs font-semibold text-gray-700">
+              Search
+            </span>
+            <input
+              type="search"
+              name="q"
+              defaultValue={search.text}
+              placeholder="Order number, email or phone"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black text-sm"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-xs font-semibold text-gray-700">
+              From
+            </span>
+            <input
+              type="date"
+              name="from"
+              defaultValue={search.from}
+              min={event.startDate}
+              max={event.endDate}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black text-sm"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-xs font-semibold text-gray-700">
+              To
+            </span>
+            <input
+              type="date"
+              name="to"
+              defaultValue={search.to}
+              min={event.startDate}
+              max={event.endDate}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black text-sm"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-xs font-semibold text-gray-700">
+              Staff
+            </span>
+            <select
+              name="staff"
+              defaultValue={search.staffId}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black text-sm"
+            >
+              <option value="">Everyone</option>
+              {staff.map((member) => (
+                <option key={member.id} value={member.id}>
+                  {member.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="submit"
+            className="col-span-2 sm:col-span-5 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors text-sm"
+          >
+            Search
+          </button>
+        </form>
+
+        {orders.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No orders found</p>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-900">
+              <thead className="bg-gray-50 text-xs text-gray-600 uppercase">
+                <tr>
+                  <th className="px-4 py-3">Order</th>
+                  <th className="px-4 py-3">Time</th>
+                  <th className="px-4 py-3">Customer</th>
+                  <th className="px-4 py-3">Staff</th>
+                  <th className="px-4 py-3 text-right">Items</th>
+                  <th className="px-4 py-3 text-right">Total</th>
+                  <th className="px-4 py-3">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {orders.map((order) => {
+                  const staffId = getStaffIdFromTags(order.tags);
+                  return (
+                    <tr key={order.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 font-semibold">
+                        <Link
+                          href={getOrderPath(order.id)}
+                          className="text-blue-600 hover:text-blue-700"
+                        >
+                          {order.name}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {new Date(order.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3">
+                        <p>{order.customer?.displayName ?? "—"}</p>
+                        <p className="text-xs text-gray-500">
+                          {order.email ?? order.phone}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3">
+                        {staffId ? staffNames.get(staffId) ?? staffId : "—"}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {order.currentSubtotalLineItemsQuantity}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        €
+                        {formatCents(
+                          toCents(order.currentTotalPriceSet.shopMoney.amount)
+                        )}
+                      </td>
+                      <td className="px-4 py-3 capitalize">
+                        {order.cancelledAt
+                          ? "cancelled"
+                          : order.displayFinancialStatus
+                          ? formatOrderStatus(order.displayFinancialStatus)
+                          : "—"}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {hasNextPage && (
+          <div className="mt-4 text-center">
+            <Link
+              href={`/orders?${nextPageParams}`}
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+            >
+              Older orders
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,55 @@
 import Image from "next/image";
+import Link from "next/link";
 import { OrderFormServer } from "./components/orderFormServer";
+import { getCurrentStaff } from "@/lib/auth";
+import { hasPermission } from "@/lib/staff";
+import { logout } from "./login/actions";
+
+export default async function Home() {
+  const staff = await getCurrentStaff();
 
-export default function Home() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-7xl mx-auto">
+        {staff && (
+          <div className="flex items-center justify-end space-x-3 mb-4 text-sm text-gray-600">
+            <span>
+              Signed in as{" "}
+              <span className="font-semibold text-gray-900">{staff.name}</span>{" "}
+              ({staff.role})
+            </span>
+            <Link
+              href="/orders"
+              className="text-blue-600 hover:text-blue-700 font-medium transition-colors"
+            >
+              Orders
+            </Link>
+            {hasPermission(staff, "reports:view") && (
+              <Link
+                href="/reports"
+                className="text-blue-600 hover:text-blue-700 font-medium transition-colors"
+              >
+                Report
+              </Link>
+            )}
+            {hasPermission(staff, "events:manage") && (
+              <Link
+                href="/events"
+                className="text-blue-600 hover:text-blue-700 font-medium transition-colors"
+              >
+                Events
+              </Link>
+            )}
+            <form action={logout}>
+              <button
+                type="submit"
+                className="text-red-600 hover:text-red-700 font-medium transition-colors"
+              >
+                Sign out
+              </button>
+            </form>
+          </div>
+        )}
         <div className="text-center mb-12">
           <div className="mb-6">
             <Image
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadSalesReport } from "@/db/reports";
+import { getCurrentStaff } from "@/lib/auth";
+import { renderSalesReportPdf } from "@/lib/reportPdf";
+import { isReportDate, toSalesReportCsv } from "@/lib/reports";
+import { hasPermission } from "@/lib/staff";
+
+// Downloads the end-of-day report as ?format=csv or ?format=pdf
+export async function GET(request: NextRequest) {
+  const staff = await getCurrentStaff();
+  if (!staff || !hasPermission(staff, "reports:view")) {
+    return NextResponse.json({ error: "Not allowed" }, { status: 403 });
+  }
+
+  const date = request.nextUrl.searchParams.get("date") ?? "";
+  const format = request.nextUrl.searchParams.get("format");
+  if (!isReportDate(date) || (format !== "csv" && format !== "pdf")) {
+    return NextResponse.json(
+      { error: "Expected ?date=YYYY-MM-DD&format=csv|pdf" },
+      { status: 400 }
+    );
+  }
+
+  const salesReport = await loadSalesReport(date);
+  if (!salesReport) {
+    return NextResponse.json(
+      { error: "No event has been activated" },
+      { status: 404 }
+    );
+  }
+  const { report, cashCount } = salesReport;
+  const fileName = `pop-up-report-${date}.${format}`;
+
+  if (format === "csv") {
+    return new NextResponse(toSalesReportCsv(report, cashCount), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  }
+
+  const pdf = await renderSalesReportPdf(report, cashCount);
+  return new NextResponse(Buffer.from(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+    },
+  });
+}
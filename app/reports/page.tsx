@@ -0,0 +1,197 @@
+import Link from "next/link";
+import { getSelectedEvent } from "@/db/events";
+import { getSalesReport } from "@/db/queries";
+import { requireStaff } from "@/lib/auth";
+import { getConfig } from "@/lib/config";
+import { getShopDate } from "@/lib/dates";
+import { clampToEvent } from "@/lib/events";
+import { formatCents } from "@/lib/money";
+import { isReportDate } from "@/lib/reports";
+import { hasPermission } from "@/lib/staff";
+import CashCountForm from "../components/CashCountForm";
+
+export default async function ReportsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ date?: string }>;
+}) {
+  const staff = await requireStaff();
+  if (!hasPermission(staff, "reports:view")) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4">
+        <p className="text-center text-gray-600">
+          Only managers can see the sales report.{" "}
+          <Link href="/" className="text-blue-600 hover:text-blue-700">
+            Back to orders
+          </Link>
+        </p>
+      </div>
+    );
+  }
+
+  const event = await getSelectedEvent();
+  if (!event) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4">
+        <p className="text-center text-gray-600">
+          No event has been activated, so there is nothing to report.{" "}
+          <Link href="/" className="text-blue-600 hover:text-blue-700">
+            Back to orders
+          </Link>
+        </p>
+      </div>
+    );
+  }
+
+  const params = await searchParams;
+  // Today, or the event's nearest day, by default. Later days can be picked
+  // for refunds made after the event.
+  const date =
+    params.date && isReportDate(params.date)
+      ? params.date
+      : clampToEvent(event, getShopDate(getConfig().timeZone));
+  const { report, cashCount } = await getSalesReport(date);
+
+  const summary = [
+    ["Orders", String(report.orderCount)],
+    ["Units", String(report.unitCount)],
+    ["Total", `€${formatCents(report.totalCents)}`],
+    ["Average ticket", `€${formatCents(report.averageTicketCents)}`],
+    ["Discounts", `€${formatCents(report.discountCents)}`],
+    ["Shipping", `€${formatCents(report.shippingCents)}`],
+    ["Refunded", `€${formatCents(report.refundedCents)}`],
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-4 sm:py-8 px-3 sm:px-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">
+            Sales report · {event.name}
+          </h1>
+          <div className="flex items-center space-x-4 text-sm">
+            <form className="flex items-center space-x-2">
+              <input
+                type="date"
+                name="date"
+                defaultValue={date}
+                min={event.startDate}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-black"
+              />
+              <button
+                type="submit"
+                className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-lg font-semibold transition-colors"
+              >
+                Show
+              </button>
+            </form>
+            <a
+              href={`/reports/export?date=${date}&format=csv`}
+              className="text-blue-600 hover:text-blue-700 font-medium"
+            >
+              CSV
+            </a>
+            <a
+              href={`/reports/export?date=${date}&format=pdf`}
+              className="text-blue-600 hover:text-blue-700 font-medium"
+            >
+              PDF
+            </a>
+            <Link
+              href="/"
+              className="text-blue-600 hover:text-blue-700 font-medium"
+            >
+              New order
+            </Link>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-3">
+          {summary.map(([label, value]) => (
+            <div key={label} className="bg-white rounded-xl shadow-sm p-4">
+              <p className="text-xs text-gray-500">{label}</p>
+              <p className="text-lg font-bold text-gray-900">{value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-white rounded-xl shadow-sm overflow-x-auto">
+            <h2 className="px-4 pt-4 text-lg font-semibold text-gray-900">
+              Products
+            </h2>
+            {report.products.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500">No sales on this day</p>
+            ) : (
+              <table className="w-full text-sm text-left text-gray-900 mt-2">
+                <thead className="bg-gray-50 text-xs text-gray-600 uppercase">
+                  <tr>
+                    <th className="px-4 py-2">Product</th>
+                    <th className="px-4 py-2">SKU</th>
+                    <th className="px-4 py-2 text-right">Units</th>
+                    <th className="px-4 py-2 text-right">Revenue</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {report.products.map((product) => (
+                    <tr key={`${product.title}/${product.variantTitle}`}>
+                      <td className="px-4 py-2">
+                        {product.title}
+                        {product.variantTitle && (
+                          <span className="text-gray-500">
+                            {" "}
+                            · {product.variantTitle}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-gray-500">
+                        {product.sku ?? "—"}
+                      </td>
+                      <td className="px-4 py-2 text-right">{product.units}</td>
+                      <td className="px-4 py-2 text-right">
+                        €{formatCents(product.revenueCents)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            <div className="bg-white rounded-xl shadow-sm p-4">
+              <h2 className="text-lg font-semibold text-gray-900 mb-2">
+                Payments
+              </h2>
+              {report.payments.length === 0 ? (
+                <p className="text-sm text-gray-500">No payments</p>
+              ) : (
+                <ul className="text-sm text-gray-900 space-y-1">
+                  {report.payments.map((payment) => (
+                    <li key={payment.gateway} className="flex justify-between">
+                      <span>{payment.label}</span>
+                      <span>€{formatCents(payment.amountCents)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm p-4">
+              <h2 className="text-lg font-semibold text-gray-900 mb-2">
+                Cash-up
+              </h2>
+              <CashCountForm
+                key={cashCount?.countedAt ?? date}
+                date={date}
+                cashSalesCents={report.cashSalesCents}
+                cashRefundsCents={report.cashRefundsCents}
+                cashCount={cashCount}
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,351 @@
+import "server-only";
+import { CatalogVariant, ShopifyProduct } from "@/lib/catalog";
+import { getConfig } from "@/lib/config";
+import { ShopifyGraphQLResponse, shopifyGraphQL } from "./shopify";
+
+// Page sizes keep each request under Shopify's query cost limit
+// (products x (variants + collections) per page)
+const PRODUCTS_PAGE_SIZE = 10;
+const VARIANTS_PAGE_SIZE = 25;
+const EXTRA_VARIANTS_PAGE_SIZE = 250;
+const COLLECTIONS_PER_PRODUCT = 10;
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface VariantNode
+  extends Omit<CatalogVariant, "inventoryItem" | "warehouseQuantity"> {
+  inventoryItem: {
+    id: string;
+    // Only queried with a pop-up location; null when it stocks none
+    inventoryLevel?: { quantities: Array<{ quantity: number }> } | null;
+  };
+}
+
+interface VariantConnection {
+  edges: Array<{ node: VariantNode }>;
+  pageInfo: PageInfo;
+}
+
+interface ProductsPage {
+  products: {
+    edges: Array<{ node: ProductNode }>;
+    pageInfo: PageInfo;
+  };
+}
+
+interface ProductNode {
+  id: string;
+  status: "ACTIVE" | "ARCHIVED" | "DRAFT";
+  title: string;
+  handle: string;
+  description: string;
+  productType: string;
+  tags: string[];
+  collections: ShopifyProduct["collections"];
+  publishedOnPublication?: boolean;
+  images: ShopifyProduct["images"];
+  variants: VariantConnection;
+}
+
+// With a pop-up location, also reads what that location has available
+function buildVariantFields(byLocation: boolean) {
+  return `
+  edges {
+    node {
+      id
+      price
+      title
+      inventoryQuantity
+      inventoryItem {
+        id
+        ${
+          byLocation
+            ? `inventoryLevel(locationId: $locationId) {
+                quantities(names: ["available"]) {
+                  quantity
+                }
+              }`
+            : ""
+        }
+      }
+      sku
+      barcode
+      selectedOptions {
+        name
+        value
+      }
+    }
+  }
+  pageInfo {
+    hasNextPage
+    endCursor
+  }
+`;
+}
+
+function buildProductFields(filterByPublication: boolean, byLocation: boolean) {
+  return `
+    id
+    status
+    title
+    handle
+    description
+    productType
+    tags
+    collections(first: ${COLLECTIONS_PER_PRODUCT}) {
+      edges {
+        node {
+          id
+          title
+        }
+      }
+    }
+    ${
+      filterByPublication
+        ? "publishedOnPublication(publicationId: $publicationId)"
+        : ""
+    }
+    images(first: 1) {
+      edges {
+        node {
+          url
+          src: url
+        }
+      }
+    }
+    variants(first: $variantsFirst) {
+      ${buildVariantFields(byLocation)}
+    }
+  `;
+}
+
+// Active products only and, when SHOPIFY_PUBLICATION_ID is set, only those
+// published to the pop-up's sales channel
+function isSoldAtPopUp(product: ProductNode, publicationId?: string) {
+  return (
+    product.status === "ACTIVE" &&
+    (!publicationId || Boolean(product.publishedOnPublication))
+  );
+}
+
+async function withAllVariants(
+  product: ProductNode,
+  locationId?: string
+): Promise<ShopifyProduct> {
+  const variants = product.variants.pageInfo.hasNextPage
+    ? [
+        ...product.variants.edges,
+        ...(await fetchRemainingVariants(
+          product.id,
+          product.variants.pageInfo.endCursor,
+          locationId
+        )),
+      ]
+    : product.variants.edges;
+
+  return toCatalogProduct(product, variants);
+}
+
+async function fetchRemainingVariants(
+  productId: string,
+  after: string | null,
+  locationId?: string
+): Promise<Array<{ node: VariantNode }>> {
+  const query = `
+    query getProductVariants(
+      $id: ID!
+      $first: Int!
+      $after: String
+      ${locationId ? "$locationId: ID!" : ""}
+    ) {
+      product(id: $id) {
+        variants(first: $first, after: $after) {
+          ${buildVariantFields(Boolean(locationId))}
+        }
+      }
+    }
+  `;
+
+  const edges: Array<{ node: VariantNode }> = [];
+  let cursor = after;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const { data, errors } = await shopifyGraphQL<{
+      product: { variants: VariantConnection } | null;
+    }>(query, {
+      id: productId,
+      first: EXTRA_VARIANTS_PAGE_SIZE,
+      after: cursor,
+      locationId,
+    });
+
+    if (errors || !data?.product) {
+      console.error("GraphQL Errors:", errors);
+      throw new Error(`Variant query failed for ${productId}`);
+    }
+
+    edges.push(...data.product.variants.edges);
+    hasNextPage = data.product.variants.pageInfo.hasNextPage;
+    cursor = data.product.variants.pageInfo.endCursor;
+  }
+
+  return edges;
+}
+
+// With a pop-up location the variant's stock is what that location has
+// available; the rest of its stock can only be shipped from the warehouse
+function toCatalogVariant(node: VariantNode): CatalogVariant {
+  const { inventoryItem, ...variant } = node;
+  if (inventoryItem.inventoryLevel === undefined) {
+    return {
+      ...variant,
+      inventoryItem: { id: inventoryItem.id },
+      warehouseQuantity: 0,
+    };
+  }
+
+  const popUpQuantity =
+    inventoryItem.inventoryLevel?.quantities[0]?.quantity ?? 0;
+  return {
+    ...variant,
+    inventoryItem: { id: inventoryItem.id },
+    inventoryQuantity: popUpQuantity,
+    warehouseQuantity: Math.max(0, node.inventoryQuantity - popUpQuantity),
+  };
+}
+
+function toCatalogProduct(
+  product: ProductNode,
+  variants: Array<{ node: VariantNode }>
+): ShopifyProduct {
+  return {
+    id: product.id,
+    title: product.title,
+    handle: product.handle,
+    description: product.description,
+    productType: product.productType,
+    tags: product.tags,
+    collections: product.collections,
+    images: product.images,
+    variants: {
+      edges: variants.map(({ node }) => ({ node: toCatalogVariant(node) })),
+    },
+    image: {
+      // Empty when the product has no image
+      src: product.images.edges[0]?.node.src ?? "",
+    },
+  };
+}
+
+// Walks every page of products, and of variants for products with more than
+// fit on the first page, so large catalogs are returned complete. With a
+// location, stock is what that location has available.
+export async function fetchCatalog(
+  locationId?: string
+): Promise<ShopifyProduct[]> {
+  const { publicationId } = getConfig().shopify;
+  const query = `
+    query getProducts(
+      $first: Int!
+      $after: String
+      $variantsFirst: Int!
+      ${publicationId ? "$publicationId: ID!" : ""}
+      ${locationId ? "$locationId: ID!" : ""}
+    ) {
+      products(first: $first, after: $after, query: "status:active") {
+        edges {
+          node {
+            ${buildProductFields(Boolean(publicationId), Boolean(locationId))}
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  `;
+
+  const catalog: ShopifyProduct[] = [];
+  let cursor: string | null = null;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const { data, errors }: ShopifyGraphQLResponse<ProductsPage> =
+      await shopifyGraphQL(query, {
+        first: PRODUCTS_PAGE_SIZE,
+        after: cursor,
+        variantsFirst: VARIANTS_PAGE_SIZE,
+        publicationId,
+        locationId,
+      });
+
+    if (errors || !data) {
+      console.error("GraphQL Errors:", errors);
+      throw new Error("GraphQL query failed");
+    }
+
+    for (const { node: product } of data.products.edges) {
+      if (!isSoldAtPopUp(product, publicationId)) continue;
+      catalog.push(await withAllVariants(product, locationId));
+    }
+
+    hasNextPage = data.products.pageInfo.hasNextPage;
+    cursor = data.products.pageInfo.endCursor;
+  }
+
+  return catalog;
+}
+
+// Fetches single products again, e.g. after a webhook. Products that were
+// deleted, archived or unpublished map to null.
+export async function fetchCatalogProducts(
+  productIds: string[],
+  locationId?: string
+): Promise<Map<string, ShopifyProduct | null>> {
+  const { publicationId } = getConfig().shopify;
+  const query = `
+    query getCatalogProducts(
+      $ids: [ID!]!
+      $variantsFirst: Int!
+      ${publicationId ? "$publicationId: ID!" : ""}
+      ${locationId ? "$locationId: ID!" : ""}
+    ) {
+      nodes(ids: $ids) {
+        ... on Product {
+          ${buildProductFields(Boolean(publicationId), Boolean(locationId))}
+        }
+      }
+    }
+  `;
+
+  const products = new Map<string, ShopifyProduct | null>(
+    productIds.map((id) => [id, null])
+  );
+  if (productIds.length === 0) return products;
+
+  const { data, errors } = await shopifyGraphQL<{
+    nodes: Array<ProductNode | null>;
+  }>(query, {
+    ids: productIds,
+    variantsFirst: VARIANTS_PAGE_SIZE,
+    publicationId,
+    locationId,
+  });
+
+  if (errors || !data) {
+    console.error("GraphQL Errors:", errors);
+    throw new Error("GraphQL query failed");
+  }
+
+  for (const product of data.nodes) {
+    if (!product?.id || !isSoldAtPopUp(product, publicationId)) continue;
+    products.set(product.id, await withAllVariants(product, locationId));
+  }
+
+  return products;
+}
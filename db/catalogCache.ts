@@ -0,0 +1,103 @@
+import "server-only";
+import { ShopifyProduct } from "@/lib/catalog";
+import { getConfig } from "@/lib/config";
+import { fetchCatalog, fetchCatalogProducts } from "./catalog";
+import { getStockLocationId } from "./locations";
+
+// The catalog is kept in process memory so tablets reloading the order form
+// do not each walk the whole Shopify catalog. Entries expire after the
+// configured TTL and single products are refreshed by Shopify webhooks.
+
+interface CatalogCache {
+  products: Map<string, ShopifyProduct>;
+  loadedAt: number;
+  // Stock location the quantities were read for
+  locationId?: string;
+}
+
+let cache: CatalogCache | null = null;
+// Catalog loads in progress, shared by concurrent requests. Keyed by stock
+// location so a load started before the location changed is never reused.
+const loading = new Map<string, Promise<CatalogCache>>();
+
+function isCurrent(catalog: CatalogCache, locationId?: string) {
+  return (
+    catalog.locationId === locationId &&
+    Date.now() - catalog.loadedAt < getConfig().catalog.cacheTtlMs
+  );
+}
+
+async function loadCatalog(locationId?: string): Promise<CatalogCache> {
+  const key = locationId ?? "";
+  let load = loading.get(key);
+  if (!load) {
+    load = fetchCatalog(locationId)
+      .then(async (products) => {
+        const loaded: CatalogCache = {
+          products: new Map(products.map((product) => [product.id, product])),
+          loadedAt: Date.now(),
+          locationId,
+        };
+        // The location may have changed while this load was running
+        if ((await getStockLocationId()) === locationId) {
+          cache = loaded;
+        }
+        return loaded;
+      })
+      .finally(() => {
+        loading.delete(key);
+      });
+    loading.set(key, load);
+  }
+  return load;
+}
+
+export async function getCachedCatalog(): Promise<ShopifyProduct[]> {
+  const locationId = await getStockLocationId();
+  const catalog =
+    cache && isCurrent(cache, locationId)
+      ? cache
+      : await loadCatalog(locationId);
+  return [...catalog.products.values()];
+}
+
+// Drops the cache and loads the catalog again straight away
+export async function reloadCatalog() {
+  cache = null;
+  await loadCatalog(await getStockLocationId());
+}
+
+export async function refreshCachedProducts(productIds: string[]) {
+  const catalog = cache;
+  if (!catalog || productIds.length === 0) return;
+
+  const products = await fetchCatalogProducts(productIds, catalog.locationId);
+  for (const [productId, product] of products) {
+    if (product) {
+      catalog.products.set(productId, product);
+    } else {
+      catalog.products.delete(productId);
+    }
+  }
+}
+
+export function removeCachedProduct(productId: string) {
+  cache?.products.delete(productId);
+}
+
+// Products whose variants use any of the inventory items
+export function findCachedProductIds(inventoryItemIds: string[]): string[] {
+  if (!cache) return [];
+
+  const productIds: string[] = [];
+  for (const product of cache.products.values()) {
+    if (
+      product.variants.edges.some(({ node }) =>
+        inventoryItemIds.includes(node.inventoryItem.id)
+      )
+    ) {
+      productIds.push(product.id);
+    }
+  }
+  return productIds;
+}
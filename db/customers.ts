@@ -0,0 +1,65 @@
+import "server-only";
+import { CustomerMatch } from "@/lib/customers";
+import { normalizePhone } from "@/lib/orderSchema";
+import { quoteSearchValue } from "./orders";
+import { shopifyGraphQL } from "./shopify";
+
+const CUSTOMER_MATCH_LIMIT = 10;
+
+// Email or phone typed in the lookup; anything else searches names
+function toCustomerQuery(text: string) {
+  if (text.includes("@")) {
+    return `email:${quoteSearchValue(text)}`;
+  }
+  const phone = normalizePhone(text);
+  if (phone) {
+    return `phone:${quoteSearchValue(phone)}`;
+  }
+  return quoteSearchValue(text);
+}
+
+export async function findCustomers(text: string): Promise<CustomerMatch[]> {
+  const query = `
+    query FindCustomers($query: String!, $first: Int!) {
+      customers(first: $first, query: $query) {
+        nodes {
+          id
+          displayName
+          firstName
+          lastName
+          email
+          phone
+          numberOfOrders
+          defaultAddress {
+            address1
+            city
+            provinceCode
+            countryCodeV2
+            zip
+          }
+        }
+      }
+    }
+  `;
+
+  const { data, errors } = await shopifyGraphQL<{
+    customers: {
+      nodes: Array<
+        Omit<CustomerMatch, "numberOfOrders"> & {
+          // UnsignedInt64, serialised as a string
+          numberOfOrders: string;
+        }
+      >;
+    };
+  }>(query, { query: toCustomerQuery(text), first: CUSTOMER_MATCH_LIMIT });
+
+  if (errors || !data) {
+    console.error("GraphQL Errors:", errors);
+    throw new Error("Customer query failed");
+  }
+
+  return data.customers.nodes.map((customer) => ({
+    ...customer,
+    numberOfOrders: Number(customer.numberOfOrders),
+  }));
+}
@@ -0,0 +1,44 @@
+import "server-only";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { getConfig } from "@/lib/config";
+
+// JSON files in DATA_DIR for the little state the pop-up keeps outside
+// Shopify
+
+// Writes per file are chained so concurrent saves do not overwrite each other
+const pendingWrites = new Map<string, Promise<void>>();
+
+function getDataPath(fileName: string) {
+  return path.join(getConfig().dataDir, fileName);
+}
+
+// Parsed contents of the file, or null when it has not been written yet
+export async function readDataFile<T>(fileName: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(getDataPath(fileName), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+    return null;
+  }
+}
+
+export async function writeDataFile(fileName: string, value: unknown) {
+  const filePath = getDataPath(fileName);
+  const previous = pendingWrites.get(fileName) ?? Promise.resolve();
+  const write = previous.then(async () => {
+    const tempPath = `${filePath}.tmp`;
+    await mkdir(path.dirname(filePath), { recursive: true });
+    // Write then rename so a crash never leaves a half-written file
+    await writeFile(tempPath, JSON.stringify(value));
+    await rename(tempPath, filePath);
+  });
+  // A failed write must not block the ones after it
+  pendingWrites.set(
+    fileName,
+    write.catch(() => undefined)
+  );
+  await write;
+}
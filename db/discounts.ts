@@ -0,0 +1,157 @@
+import "server-only";
+import { CodeDiscount, DiscountValue } from "@/lib/discounts";
+import { toCents } from "@/lib/money";
+import { shopifyGraphQL } from "./shopify";
+
+interface DiscountCodeNode {
+  codeDiscount: {
+    __typename: string;
+    title?: string;
+    status?: "ACTIVE" | "EXPIRED" | "SCHEDULED";
+    usageLimit?: number | null;
+    asyncUsageCount?: number;
+    customerGets?: {
+      items: { __typename: string };
+      value:
+        | { __typename: "DiscountPercentage"; percentage: number }
+        | {
+            __typename: "DiscountAmount";
+            amount: { amount: string };
+            appliesOnEachItem: boolean;
+          }
+        | { __typename: string };
+    };
+    minimumRequirement?:
+      | {
+          __typename: "DiscountMinimumSubtotal";
+          greaterThanOrEqualToSubtotal: { amount: string };
+        }
+      | {
+          __typename: "DiscountMinimumQuantity";
+          greaterThanOrEqualToQuantity: string;
+        }
+      | null;
+  };
+}
+
+// Looks a code up in the store and turns it into a discount the pop-up can
+// apply. Only order-wide basic codes (percentage or fixed amount off every
+// item) are supported at the stand.
+export async function resolveDiscountCode(
+  code: string
+): Promise<{ discount: CodeDiscount } | { error: string }> {
+  const query = `
+    query discountByCode($code: String!) {
+      codeDiscountNodeByCode(code: $code) {
+        codeDiscount {
+          __typename
+          ... on DiscountCodeBasic {
+            title
+            status
+            usageLimit
+            asyncUsageCount
+            customerGets {
+              items {
+                __typename
+              }
+              value {
+                __typename
+                ... on DiscountPercentage {
+                  percentage
+                }
+                ... on DiscountAmount {
+                  amount {
+                    amount
+                  }
+                  appliesOnEachItem
+                }
+              }
+            }
+            minimumRequirement {
+              __typename
+              ... on DiscountMinimumSubtotal {
+                greaterThanOrEqualToSubtotal {
+                  amount
+                }
+              }
+              ... on DiscountMinimumQuantity {
+                greaterThanOrEqualToQuantity
+              }
+            }
+          }
+        }
+      }
+    }
+  `;
+
+  const normalizedCode = code.trim().toUpperCase();
+  const { data, errors } = await shopifyGraphQL<{
+    codeDiscountNodeByCode: DiscountCodeNode | null;
+  }>(query, { code: normalizedCode });
+
+  if (errors || !data) {
+    console.error("GraphQL Errors:", errors);
+    throw new Error("Discount code query failed");
+  }
+
+  const discount = data.codeDiscountNodeByCode?.codeDiscount;
+  if (!discount) {
+    return { error: `Discount code ${normalizedCode} does not exist` };
+  }
+  if (discount.__typename !== "DiscountCodeBasic" || !discount.customerGets) {
+    return {
+      error: `${normalizedCode} is not an order discount and cannot be used at the pop-up`,
+    };
+  }
+  if (discount.status !== "ACTIVE") {
+    return { error: `${normalizedCode} is not active` };
+  }
+  if (
+    discount.usageLimit &&
+    (discount.asyncUsageCount ?? 0) >= discount.usageLimit
+  ) {
+    return { error: `${normalizedCode} has reached its usage limit` };
+  }
+  if (discount.customerGets.items.__typename !== "AllDiscountItems") {
+    return {
+      error: `${normalizedCode} only applies to some products and cannot be used at the pop-up`,
+    };
+  }
+
+  // Shopify reports percentages as fractions (0.15 for 15%)
+  const { value } = discount.customerGets;
+  let discountValue: DiscountValue;
+  if ("percentage" in value) {
+    discountValue = {
+      type: "percentage",
+      percentage: Math.round(value.percentage * 10000) / 100,
+    };
+  } else if ("amount" in value && !value.appliesOnEachItem) {
+    discountValue = {
+      type: "fixed",
+      amountCents: toCents(value.amount.amount),
+    };
+  } else {
+    return {
+      error: `${normalizedCode} has an unsupported discount value and cannot be used at the pop-up`,
+    };
+  }
+
+  const resolved: CodeDiscount = {
+    code: normalizedCode,
+    title: discount.title ?? normalizedCode,
+    value: discountValue,
+  };
+
+  const requirement = discount.minimumRequirement;
+  if (requirement && "greaterThanOrEqualToSubtotal" in requirement) {
+    resolved.minimumSubtotalCents = toCents(
+      requirement.greaterThanOrEqualToSubtotal.amount
+    );
+  }
+  if (requirement && "greaterThanOrEqualToQuantity" in requirement) {
+    resolved.minimumQuantity = Number(requirement.greaterThanOrEqualToQuantity);
+  }
+
+  return { discount: resolved };
+}
@@ -0,0 +1,50 @@
+import "server-only";
+import { getConfig } from "@/lib/config";
+import { getShopDate } from "@/lib/dates";
+import { DEFAULT_EVENT, EventProfile, isEventOn } from "@/lib/events";
+import { readDataFile, writeDataFile } from "./dataFile";
+
+const EVENTS_FILE = "events.json";
+
+export interface EventsFile {
+  events: EventProfile[];
+  activeEventId: string | null;
+}
+
+// Installs without events saved yet start on the default event
+export async function listEventProfiles(): Promise<EventsFile> {
+  return (
+    (await readDataFile<EventsFile>(EVENTS_FILE)) ?? {
+      events: [DEFAULT_EVENT],
+      activeEventId: DEFAULT_EVENT.id,
+    }
+  );
+}
+
+// The event a manager activated, whether or not it is on today. Its orders are
+// the ones listed and reported on.
+export async function getSelectedEvent(): Promise<EventProfile | null> {
+  const { events, activeEventId } = await listEventProfiles();
+  return events.find((event) => event.id === activeEventId) ?? null;
+}
+
+// The event new orders are placed for: the activated one, on its dates only
+export async function getActiveEvent(): Promise<EventProfile | null> {
+  const event = await getSelectedEvent();
+  const today = getShopDate(getConfig().timeZone);
+  return event && isEventOn(event, today) ? event : null;
+}
+
+// Adds the profile, or replaces the one with the same id
+export async function saveEventProfile(profile: EventProfile) {
+  const file = await listEventProfiles();
+  const events = file.events.filter((event) => event.id !== profile.id);
+  events.push(profile);
+  events.sort((a, b) => a.startDate.localeCompare(b.startDate));
+  await writeDataFile(EVENTS_FILE, { ...file, events });
+}
+
+export async function setActiveEvent(eventId: string) {
+  const file = await listEventProfiles();
+  await writeDataFile(EVENTS_FILE, { ...file, activeEventId: eventId });
+}
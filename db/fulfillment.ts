@@ -0,0 +1,249 @@
+import "server-only";
+import {
+  FulfillmentOrderLine,
+  getHandedOverLines,
+  getMisplacedLines,
+} from "@/lib/fulfillment";
+import { ShopifyUserError } from "@/lib/orderResult";
+import { getStockLocationId } from "./locations";
+import { shopifyGraphQL } from "./shopify";
+
+interface FulfillmentOrderNode {
+  id: string;
+  status: string;
+  assignedLocation: { location: { id: string } | null };
+  lineItems: { nodes: FulfillmentOrderLine[] };
+  locationsForMove: {
+    nodes: Array<{ movable: boolean; location: { id: string } }>;
+  };
+}
+
+async function fetchFulfillmentOrders(
+  orderId: string
+): Promise<FulfillmentOrderNode[]> {
+  const query = `
+    query OrderFulfillmentOrders($id: ID!) {
+      order(id: $id) {
+        fulfillmentOrders(first: 10) {
+          nodes {
+            id
+            status
+            assignedLocation {
+              location {
+                id
+              }
+            }
+            lineItems(first: 100) {
+              nodes {
+                id
+                remainingQuantity
+                lineItem {
+                  id
+                }
+              }
+            }
+            locationsForMove(first: 10) {
+              nodes {
+                movable
+                location {
+                  id
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  `;
+
+  const { data, errors } = await shopifyGraphQL<{
+    order: { fulfillmentOrders: { nodes: FulfillmentOrderNode[] } } | null;
+  }>(query, { id: orderId });
+
+  if (errors || !data?.order) {
+    console.error("GraphQL Errors:", errors);
+    throw new Error("Fulfillment order query failed");
+  }
+  return data.order.fulfillmentOrders.nodes;
+}
+
+async function moveFulfillmentOrderLines(
+  fulfillmentOrderId: string,
+  newLocationId: string,
+  lineItems: Array<{ id: string; quantity: number }>
+) {
+  const query = `
+    mutation FulfillmentOrderMove(
+      $id: ID!
+      $newLocationId: ID!
+      $fulfillmentOrderLineItems: [FulfillmentOrderLineItemInput!]
+    ) {
+      fulfillmentOrderMove(
+        id: $id
+        newLocationId: $newLocationId
+        fulfillmentOrderLineItems: $fulfillmentOrderLineItems
+      ) {
+        movedFulfillmentOrder {
+          id
+        }
+        userErrors {
+          field
+          message
+        }
+      }
+    }
+  `;
+
+  const { data, errors } = await shopifyGraphQL<{
+    fulfillmentOrderMove: {
+      movedFulfillmentOrder: { id: string } | null;
+      userErrors: ShopifyUserError[];
+    } | null;
+  }>(query, {
+    id: fulfillmentOrderId,
+    newLocationId,
+    fulfillmentOrderLineItems: lineItems,
+  });
+
+  const userErrors = data?.fulfillmentOrderMove?.userErrors ?? [];
+  if (errors || userErrors.length > 0) {
+    console.error("Fulfillment order move failed:", { errors, userErrors });
+    throw new Error(
+      userErrors.map((userError) => userError.message).join(", ") ||
+        "Fulfillment order move failed"
+    );
+  }
+}
+
+// Shopify assigns an order's lines to locations by its own routing rules.
+// This moves the lines sold from the table to the pop-up location, and lines
+// sold from the warehouse away from it, so each is fulfilled where the stock
+// is.
+async function routeFulfillmentOrders(
+  orderId: string,
+  popUpLocationId: string,
+  warehouseLineItemIds: Set<string>
+) {
+  const fulfillmentOrders = await fetchFulfillmentOrders(orderId);
+
+  for (const fulfillmentOrder of fulfillmentOrders) {
+    if (fulfillmentOrder.status !== "OPEN") continue;
+
+    const atPopUp =
+      fulfillmentOrder.assignedLocation.location?.id === popUpLocationId;
+    const misplaced = getMisplacedLines(
+      fulfillmentOrder.lineItems.nodes,
+      atPopUp,
+      warehouseLineItemIds
+    );
+    if (misplaced.length === 0) continue;
+
+    const newLocationId = atPopUp
+      ? fulfillmentOrder.locationsForMove.nodes.find(
+          (candidate) =>
+            candidate.movable && candidate.location.id !== popUpLocationId
+        )?.location.id
+      : popUpLocationId;
+    if (!newLocationId) {
+      console.error(
+        "No location to move warehouse lines to:",
+        fulfillmentOrder.id
+      );
+      continue;
+    }
+
+    await moveFulfillmentOrderLines(
+      fulfillmentOrder.id,
+      newLocationId,
+      misplaced
+    );
+  }
+}
+
+// Marks lines the customer took away at the stand as fulfilled, from the
+// location Shopify has them at (the pop-up location once routed). No
+// shipping notification is sent.
+async function fulfillHandedOverLines(
+  orderId: string,
+  handedOverLineItemIds: Set<string>
+) {
+  const lineItemsByFulfillmentOrder = getHandedOverLines(
+    await fetchFulfillmentOrders(orderId),
+    handedOverLineItemIds
+  );
+  if (lineItemsByFulfillmentOrder.length === 0) return;
+
+  const query = `
+    mutation FulfillmentCreate($fulfillment: FulfillmentInput!) {
+      fulfillmentCreate(fulfillment: $fulfillment) {
+        fulfillment {
+          id
+        }
+        userErrors {
+          field
+          message
+        }
+      }
+    }
+  `;
+
+  const { data, errors } = await shopifyGraphQL<{
+    fulfillmentCreate: {
+      fulfillment: { id: string } | null;
+      userErrors: ShopifyUserError[];
+    } | null;
+  }>(query, {
+    fulfillment: { lineItemsByFulfillmentOrder, notifyCustomer: false },
+  });
+
+  const userErrors = data?.fulfillmentCreate?.userErrors ?? [];
+  if (
+    errors ||
+    userErrors.length > 0 ||
+    !data?.fulfillmentCreate?.fulfillment
+  ) {
+    console.error("Fulfillment creation failed:", { errors, userErrors });
+    throw new Error(
+      userErrors.map((userError) => userError.message).join(", ") ||
+        "Fulfillment creation failed"
+    );
+  }
+}
+
+// Routes a new order's lines, given by line item id, to where they are
+// fulfilled from, then fulfills the ones handed over at the stand. The order
+// exists either way, so failures are only logged: they can be fixed in the
+// Shopify admin. Without a pop-up location nothing is fulfilled, since Shopify
+// may have assigned the handed over lines to a warehouse that still holds the
+// stock.
+export async function settleNewOrder(
+  orderId: string,
+  lines: {
+    warehouseLineItemIds: Set<string>;
+    handedOverLineItemIds: Set<string>;
+  }
+) {
+  try {
+    const locationId = await getStockLocationId();
+    if (!locationId) {
+      if (lines.handedOverLineItemIds.size > 0) {
+        console.error(
+          "No pop-up location set, so lines handed over were not fulfilled:",
+          orderId
+        );
+      }
+      return;
+    }
+
+    await routeFulfillmentOrders(
+      orderId,
+      locationId,
+      lines.warehouseLineItemIds
+    );
+    if (lines.handedOverLineItemIds.size > 0) {
+      await fulfillHandedOverLines(orderId, lines.handedOverLineItemIds);
+    }
+  } catch (error) {
+    console.error("Error fulfilling order at the pop-up:", orderId, error);
+  }
+}
@@ -0,0 +1,69 @@
+import "server-only";
+import {
+  IdempotencyRecord,
+  IdempotencyStore,
+  createIdempotentRunner,
+} from "@/lib/idempotency";
+import { CreateOrderFailure, CreatedOrder } from "@/lib/orderResult";
+import { PricedQuote } from "@/lib/pricing";
+import { ReturnFailure, ReturnSuccess } from "@/lib/returns";
+import { readDataFile, writeDataFile } from "./dataFile";
+
+// Idempotency records of orders and returns, keyed by the idempotency key the
+// client sent with them. Persisted in DATA_DIR so a retry after a timeout or
+// restart returns the existing result instead of creating a duplicate.
+
+// Offline orders can be replayed days after they were taken
+const RECORD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface IdempotentOrder {
+  data: CreatedOrder;
+  // Not known when the order was found again in Shopify
+  quote?: PricedQuote;
+}
+
+function createFileStore<T>(fileName: string): IdempotencyStore<T> {
+  let records: Map<string, IdempotencyRecord<T>> | null = null;
+
+  async function loadRecords() {
+    if (records) return records;
+
+    const stored = await readDataFile<Record<string, IdempotencyRecord<T>>>(
+      fileName
+    );
+    records = new Map(Object.entries(stored ?? {}));
+    return records;
+  }
+
+  async function saveRecords(current: Map<string, IdempotencyRecord<T>>) {
+    const now = Date.now();
+    for (const [key, record] of current) {
+      if (now - record.recordedAt > RECORD_TTL_MS) {
+        current.delete(key);
+      }
+    }
+    await writeDataFile(fileName, Object.fromEntries(current));
+  }
+
+  return {
+    async find(key) {
+      const current = await loadRecords();
+      return current.get(key);
+    },
+    async save(key, record) {
+      const current = await loadRecords();
+      current.set(key, record);
+      await saveRecords(current);
+    },
+  };
+}
+
+export const createOrderOnce = createIdempotentRunner<
+  IdempotentOrder,
+  CreateOrderFailure
+>(createFileStore("idempotency.json"));
+
+export const processReturnOnce = createIdempotentRunner<
+  ReturnSuccess,
+  ReturnFailure
+>(createFileStore("return-idempotency.json"));
@@ -0,0 +1,37 @@
+import "server-only";
+import { getConfig } from "@/lib/config";
+import { getActiveEvent } from "./events";
+import { shopifyGraphQL } from "./shopify";
+
+let primaryLocationId: string | null = null;
+
+// Location whose stock the pop-up sells: the active event's, else
+// SHOPIFY_LOCATION_ID. Undefined means stock is counted across all locations.
+export async function getStockLocationId(): Promise<string | undefined> {
+  const event = await getActiveEvent();
+  return event?.locationId ?? getConfig().shopify.locationId;
+}
+
+// Location the pop-up sells from and restocks returns to, falling back to the
+// shop's primary location
+export async function getPopUpLocationId(): Promise<string> {
+  const locationId = await getStockLocationId();
+  if (locationId) return locationId;
+  if (primaryLocationId) return primaryLocationId;
+
+  const { data, errors } = await shopifyGraphQL<{
+    location: { id: string } | null;
+  }>(`
+    query PrimaryLocation {
+      location {
+        id
+      }
+    }
+  `);
+  if (errors || !data?.location) {
+    console.error("GraphQL Errors:", errors);
+    throw new Error("Location query failed");
+  }
+  primaryLocationId = data.location.id;
+  return primaryLocationId;
+}
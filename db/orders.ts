@@ -0,0 +1,329 @@
+import "server-only";
+import { getConfig } from "@/lib/config";
+import { getDayStart, getNextDay } from "@/lib/dates";
+import { getEventIdFromTags, getEventSearchTags } from "@/lib/events";
+import { normalizePhone } from "@/lib/orderSchema";
+import {
+  OrderDetail,
+  OrderSearch,
+  OrderSummary,
+  VoidReason,
+} from "@/lib/orders";
+import { CreatedOrder, ShopifyUserError } from "@/lib/orderResult";
+import { staffTag } from "@/lib/staff";
+import { shopifyGraphQL } from "./shopify";
+
+const ORDERS_PAGE_SIZE = 50;
+
+// Everything the receipt shows (CreatedOrder), shared by orderCreate and the
+// order lookups
+export const ORDER_RECEIPT_FRAGMENT = `
+  fragment OrderReceiptFields on Order {
+    id
+    name
+    email
+    createdAt
+    statusPageUrl
+    taxesIncluded
+    currentSubtotalPriceSet {
+      ...MoneyBag
+    }
+    currentTotalDiscountsSet {
+      ...MoneyBag
+    }
+    totalShippingPriceSet {
+      ...MoneyBag
+    }
+    currentTotalTaxSet {
+      ...MoneyBag
+    }
+    currentTotalPriceSet {
+      ...MoneyBag
+    }
+    taxLines {
+      title
+      ratePercentage
+      priceSet {
+        ...MoneyBag
+      }
+    }
+    lineItems(first: 100) {
+      nodes {
+        id
+        title
+        variantTitle
+        sku
+        quantity
+        originalUnitPriceSet {
+          ...MoneyBag
+        }
+        discountedTotalSet {
+          ...MoneyBag
+        }
+      }
+    }
+    shippingLine {
+      title
+    }
+    transactions {
+      gateway
+      amountSet {
+        ...MoneyBag
+      }
+    }
+    customAttributes {
+      key
+      value
+    }
+    shippingAddress {
+      address1
+      address2
+      city
+      countryCode
+      firstName
+      lastName
+      phone
+      provinceCode
+      zip
+    }
+  }
+
+  fragment MoneyBag on MoneyBag {
+    shopMoney {
+      amount
+      currencyCode
+    }
+  }
+`;
+
+// Quoted value for Shopify search syntax
+export function quoteSearchValue(value: string) {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+// Order name, email or phone typed in the search box
+function toTextTerm(text: string) {
+  if (text.includes("@")) {
+    return `email:${quoteSearchValue(text)}`;
+  }
+  if (/^#?\d{1,7}$/.test(text)) {
+    return `name:${quoteSearchValue(text.startsWith("#") ? text : `#${text}`)}`;
+  }
+  // Orders have no phone filter; the default search matches phone numbers in
+  // the format they were saved in
+  return quoteSearchValue(normalizePhone(text) ?? text);
+}
+
+// Shopify search syntax for the event's orders matching the search. Dates are
+// days in the shop's time zone.
+export function buildOrdersQuery({
+  eventId,
+  from,
+  to,
+  text,
+  staffId,
+}: OrderSearch) {
+  const { timeZone } = getConfig();
+  const eventTerms = getEventSearchTags(eventId).map(
+    (tag) => `tag:${quoteSearchValue(tag)}`
+  );
+  const terms = [
+    eventTerms.length > 1 ? `(${eventTerms.join(" OR ")})` : eventTerms[0],
+  ];
+  if (from) {
+    terms.push(`created_at:>='${getDayStart(from, timeZone).toISOString()}'`);
+  }
+  if (to) {
+    const end = getDayStart(getNextDay(to), timeZone);
+    terms.push(`created_at:<'${end.toISOString()}'`);
+  }
+  if (staffId) {
+    terms.push(`tag:${quoteSearchValue(staffTag(staffId))}`);
+  }
+  if (text?.trim()) {
+    terms.push(toTextTerm(text.trim()));
+  }
+  return terms.join(" AND ");
+}
+
+export async function listPopUpOrders(search: OrderSearch): Promise<{
+  orders: OrderSummary[];
+  endCursor: string | null;
+  hasNextPage: boolean;
+}> {
+  const query = `
+    query PopUpOrders($query: String!, $first: Int!, $after: String) {
+      orders(
+        first: $first
+        after: $after
+        query: $query
+        sortKey: CREATED_AT
+        reverse: true
+      ) {
+        nodes {
+          id
+          name
+          createdAt
+          email
+          phone
+          cancelledAt
+          displayFinancialStatus
+          tags
+          customer {
+            displayName
+          }
+          currentTotalPriceSet {
+            shopMoney {
+              amount
+              currencyCode
+            }
+          }
+          currentSubtotalLineItemsQuantity
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  `;
+
+  const { data, errors } = await shopifyGraphQL<{
+    orders: {
+      nodes: OrderSummary[];
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    };
+  }>(query, {
+    query: buildOrdersQuery(search),
+    first: ORDERS_PAGE_SIZE,
+    after: search.after ?? null,
+  });
+
+  if (errors || !data) {
+    console.error("GraphQL Errors:", errors);
+    throw new Error("Orders query failed");
+  }
+
+  return {
+    orders: data.orders.nodes,
+    endCursor: data.orders.pageInfo.endCursor,
+    hasNextPage: data.orders.pageInfo.hasNextPage,
+  };
+}
+
+// The order carrying the tag, e.g. the idempotency key of an earlier attempt
+export async function findOrderByTag(
+  tag: string
+): Promise<CreatedOrder | null> {
+  const query = `
+    query OrderByTag($query: String!) {
+      orders(first: 1, query: $query) {
+        nodes {
+          ...OrderReceiptFields
+        }
+      }
+    }
+
+    ${ORDER_RECEIPT_FRAGMENT}
+  `;
+
+  const { data, errors } = await shopifyGraphQL<{
+    orders: { nodes: CreatedOrder[] };
+  }>(query, { query: `tag:${quoteSearchValue(tag)}` });
+
+  if (errors || !data) {
+    console.error("GraphQL Errors:", errors);
+    throw new Error("Order query failed");
+  }
+  return data.orders.nodes[0] ?? null;
+}
+
+// A single pop-up order, or null when it does not exist or was not placed
+// during one of the events
+export async function getPopUpOrder(
+  orderId: string
+): Promise<OrderDetail | null> {
+  const query = `
+    query PopUpOrder($id: ID!) {
+      order(id: $id) {
+        ...OrderReceiptFields
+        phone
+        tags
+        note
+        cancelledAt
+        displayFinancialStatus
+        displayFulfillmentStatus
+        customer {
+          displayName
+        }
+      }
+    }
+
+    ${ORDER_RECEIPT_FRAGMENT}
+  `;
+
+  const { data, errors } = await shopifyGraphQL<{
+    order: OrderDetail | null;
+  }>(query, { id: orderId });
+
+  if (errors || !data) {
+    console.error("GraphQL Errors:", errors);
+    throw new Error("Order query failed");
+  }
+
+  const order = data.order;
+  return order && getEventIdFromTags(order.tags) ? order : null;
+}
+
+// Cancels the order, refunds its payments and puts its items back in stock.
+// Shopify finishes the cancellation in the background.
+export async function cancelOrder(input: {
+  orderId: string;
+  reason: VoidReason;
+  staffNote: string;
+}): Promise<{ error?: string }> {
+  const query = `
+    mutation OrderCancel(
+      $orderId: ID!
+      $reason: OrderCancelReason!
+      $staffNote: String
+    ) {
+      orderCancel(
+        orderId: $orderId
+        reason: $reason
+        refund: true
+        restock: true
+        notifyCustomer: true
+        staffNote: $staffNote
+      ) {
+        job {
+          id
+        }
+        orderCancelUserErrors {
+          field
+          message
+        }
+      }
+    }
+  `;
+
+  const { data, errors } = await shopifyGraphQL<{
+    orderCancel: {
+      job: { id: string } | null;
+      orderCancelUserErrors: ShopifyUserError[];
+    } | null;
+  }>(query, input);
+
+  if (errors || !data?.orderCancel) {
+    console.error("GraphQL Errors:", errors);
+    throw new Error("Order cancellation failed");
+  }
+  const { orderCancelUserErrors } = data.orderCancel;
+  return orderCancelUserErrors.length > 0
+    ? {
+        error: orderCancelUserErrors
+          .map((userError) => userError.message)
+          .join(", "),
+      }
+    : {};
+}
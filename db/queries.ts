@@ -1,230 +1,613 @@
 "use server";
 
-const createSession = (): RequestInit => {
-  if (
-    !process.env.NEXT_PUBLIC_ACCESS_TOKEN ||
-    !process.env.NEXT_PUBLIC_SHOP_URL
-  ) {
-    throw new Error("Missing Shopify access token or shop URL");
+import { CURRENCY_CODE, formatCents, toCents } from "@/lib/money";
+import {
+  PricedQuote,
+  VariantPrice,
+  buildQuote,
+  withShipping,
+} from "@/lib/pricing";
+import {
+  CodeDiscount,
+  ManualDiscount,
+  getCodeDiscountProblem,
+} from "@/lib/discounts";
+import { getShippingPriceCents } from "@/lib/shipping";
+import {
+  checkManagerApproval,
+  createApprovalToken,
+  requireStaff,
+  verifyApprovalToken,
+} from "@/lib/auth";
+import {
+  PAYMENT_METHODS,
+  getChangeCents,
+  validateTenders,
+} from "@/lib/payments";
+import { getConfig } from "@/lib/config";
+import { StaffMember, hasPermission, staffTag } from "@/lib/staff";
+import {
+  LiveStock,
+  StockError,
+  StockLine,
+  findLineStockErrors,
+  findStockErrors,
+} from "@/lib/stock";
+import {
+  CreateOrderFailure,
+  CreateOrderResult,
+  CreateOrderSuccess,
+  CreatedOrder,
+  ShopifyUserError,
+  mapUserErrors,
+} from "@/lib/orderResult";
+import {
+  OrderInput,
+  ValidOrder,
+  emailSchema,
+  orderInputSchema,
+  toOrderErrors,
+} from "@/lib/orderSchema";
+import { pickLineItemIds } from "@/lib/fulfillment";
+import { idempotencyTag } from "@/lib/idempotency";
+import { VOID_REASONS, VoidReason } from "@/lib/orders";
+import {
+  EventProfile,
+  EventProfileInput,
+  eventProfileInputSchema,
+  eventTag,
+  formatOrderNote,
+} from "@/lib/events";
+import { getShopDate } from "@/lib/dates";
+import { CustomerMatch } from "@/lib/customers";
+import {
+  CashCount,
+  CashCountInput,
+  SalesReport,
+  cashCountInputSchema,
+  isReportDate,
+} from "@/lib/reports";
+import {
+  RETURN_REASONS,
+  ReturnInput,
+  ReturnResult,
+  ReturnableOrder,
+  ValidReturn,
+  getExchangeProblem,
+  limitRefundTransactions,
+  returnInputSchema,
+} from "@/lib/returns";
+import {
+  getHeldQuantity,
+  holdReservation,
+  releaseReservation,
+} from "./reservations";
+import { getCachedCatalog, reloadCatalog } from "./catalogCache";
+import { findCustomers } from "./customers";
+import {
+  EventsFile,
+  getActiveEvent,
+  getSelectedEvent,
+  listEventProfiles,
+  saveEventProfile,
+  setActiveEvent,
+} from "./events";
+import { resolveDiscountCode } from "./discounts";
+import { createOrderOnce, processReturnOnce } from "./idempotency";
+import { settleNewOrder } from "./fulfillment";
+import { getPopUpLocationId, getStockLocationId } from "./locations";
+import {
+  ORDER_RECEIPT_FRAGMENT,
+  cancelOrder,
+  findOrderByTag,
+  getPopUpOrder,
+} from "./orders";
+import { loadSalesReport, saveCashCount } from "./reports";
+import {
+  RefundLineItemInput,
+  createExchangeOrder,
+  createRefund,
+  fetchReturnableOrder,
+  findExchangeOrder,
+  findRefundByKey,
+  suggestRefund,
+} from "./returns";
+import { shopifyGraphQL } from "./shopify";
+
+export async function getProducts() {
+  await requireStaff();
+
+  try {
+    return await getCachedCatalog();
+  } catch (error) {
+    console.error("Error fetching products:", error);
+    throw error;
   }
+}
 
-  return {
-    headers: {
-      "X-Shopify-Access-Token": process.env.NEXT_PUBLIC_ACCESS_TOKEN,
-      "Content-Type": "application/json",
-    },
-  };
-};
-
-export interface ShopifyProduct {
-  id: string;
-  title: string;
-  handle: string;
-  description: string;
-  images: {
-    edges: Array<{
-      node: {
-        url: string;
-        src: string;
-      };
-    }>;
-  };
-  variants: {
-    edges: Array<{
-      node: {
-        id: string;
-        price: string;
-        title: string;
-        inventoryQuantity: number;
-      };
-    }>;
-  };
-  image?: {
-    src: string;
-  };
+// Reloads the cached catalog from Shopify, for when staff know it changed
+export async function refreshCatalog() {
+  await requireStaff();
+  await reloadCatalog();
 }
 
-export async function getProducts() {
-  const session = createSession();
-  const shopifyGraphQLUrl = `${process.env.NEXT_PUBLIC_SHOP_URL}/admin/api/graphql.json`;
+interface LiveVariantNode extends VariantPrice {
+  inventoryQuantity: number;
+  inventoryPolicy: "DENY" | "CONTINUE";
+  product: { id: string };
+  inventoryItem: {
+    tracked: boolean;
+    // Only queried with a pop-up location; null when it stocks none
+    inventoryLevel?: { quantities: Array<{ quantity: number }> } | null;
+  };
+}
 
+// Current price and stock of each variant, read straight from Shopify. With a
+// pop-up location, `stock` is what it has available and `warehouseStock` what
+// the other locations have. `productIds` maps each variant to its product.
+async function getLiveVariants(variantIds: string[]): Promise<{
+  prices: Map<string, VariantPrice>;
+  stock: Map<string, LiveStock>;
+  warehouseStock: Map<string, LiveStock>;
+  productIds: Map<string, string>;
+}> {
+  const locationId = await getStockLocationId();
   const query = `
-      query getProducts {
-        products(first: 250) {
-          edges {
-            node {
-              id
-              title
-              handle
-              description
-              images(first: 1) {
-                edges {
-                  node {
-                    url
-                    src: url
-                  }
-                }
-              }
-              variants(first: 10) {
-                edges {
-                  node {
-                    id
-                    price
-                    title
-                    inventoryQuantity
-                  }
-                }
-              }
+    query getLiveVariants(
+      $ids: [ID!]!
+      ${locationId ? "$locationId: ID!" : ""}
+    ) {
+      nodes(ids: $ids) {
+        ... on ProductVariant {
+          id
+          price
+          compareAtPrice
+          inventoryQuantity
+          inventoryPolicy
+          product {
+            id
+          }
+          inventoryItem {
+            tracked
+            ${
+              locationId
+                ? `inventoryLevel(locationId: $locationId) {
+                    quantities(names: ["available"]) {
+                      quantity
+                    }
+                  }`
+                : ""
             }
           }
         }
       }
-    `;
+    }
+  `;
 
-  try {
-    const response = await fetch(shopifyGraphQLUrl, {
-      method: "POST",
-      headers: session.headers,
-      body: JSON.stringify({
-        query,
-      }),
+  const { data, errors } = await shopifyGraphQL<{
+    nodes: Array<LiveVariantNode | null>;
+  }>(query, { ids: variantIds, locationId });
+
+  if (errors || !data) {
+    console.error("GraphQL Errors:", errors);
+    throw new Error("Variant query failed");
+  }
+
+  // Unknown or deleted variants come back as null nodes
+  const prices = new Map<string, VariantPrice>();
+  const stock = new Map<string, LiveStock>();
+  const warehouseStock = new Map<string, LiveStock>();
+  const productIds = new Map<string, string>();
+  for (const node of data.nodes) {
+    if (!node?.id) continue;
+    prices.set(node.id, {
+      id: node.id,
+      price: node.price,
+      compareAtPrice: node.compareAtPrice,
+    });
+    productIds.set(node.id, node.product.id);
+    const unlimited =
+      !node.inventoryItem.tracked || node.inventoryPolicy === "CONTINUE";
+    const popUpQuantity = locationId
+      ? node.inventoryItem.inventoryLevel?.quantities[0]?.quantity ?? 0
+      : node.inventoryQuantity;
+    stock.set(node.id, {
+      variantId: node.id,
+      inventoryQuantity: popUpQuantity,
+      unlimited,
     });
+    warehouseStock.set(node.id, {
+      variantId: node.id,
+      inventoryQuantity: Math.max(0, node.inventoryQuantity - popUpQuantity),
+      unlimited,
+    });
+  }
+  return { prices, stock, warehouseStock, productIds };
+}
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+export async function reserveStock(
+  holdId: string,
+  lineItems: StockLine[]
+): Promise<{
+  success: boolean;
+  stockErrors: StockError[];
+  expiresAt?: number;
+}> {
+  await requireStaff("orders:create");
+  if (lineItems.length === 0) {
+    releaseReservation(holdId);
+    return { success: true, stockErrors: [] };
+  }
 
-    const { data, errors } = await response.json();
+  const { stock, warehouseStock } = await getLiveVariants(
+    lineItems.map((item) => item.variantId)
+  );
+  const stockErrors = findLineStockErrors(
+    lineItems,
+    { popUp: stock, warehouse: warehouseStock },
+    (variantId, fromWarehouse) =>
+      getHeldQuantity(variantId, holdId, fromWarehouse)
+  );
+  if (stockErrors.length > 0) {
+    return { success: false, stockErrors };
+  }
 
-    if (errors) {
-      console.error("GraphQL Errors:", errors);
-      throw new Error("GraphQL query failed");
-    }
+  const expiresAt = holdReservation(holdId, lineItems);
+  return { success: true, stockErrors: [], expiresAt };
+}
 
-    // Transform the response to include image.src for each product
-    const products = data.products.edges.map(
-      ({ node: product }: { node: ShopifyProduct }) => {
-        if (product.images.edges.length > 0) {
-          product.image = {
-            src: product.images.edges[0].node.src,
-          };
-        } else {
-          product.image = {
-            src: "", // Provide a default empty string if no image exists
-          };
-        }
-        return product;
+export async function releaseStock(holdId: string) {
+  await requireStaff("orders:create");
+  releaseReservation(holdId);
+}
+
+export async function validateDiscountCode(
+  code: string
+): Promise<{ discount: CodeDiscount } | { error: string }> {
+  await requireStaff("orders:create");
+  return resolveDiscountCode(code);
+}
+
+export async function searchCustomers(
+  text: string
+): Promise<{ customers: CustomerMatch[] } | { error: string }> {
+  await requireStaff("orders:create");
+  const term = text.trim();
+  if (term.length < 3) {
+    return { error: "Type at least 3 characters to search" };
+  }
+  return { customers: await findCustomers(term) };
+}
+
+// The token only covers this discount on the checkout with this key
+export async function approveManualDiscount(
+  managerId: string,
+  pin: string,
+  discount: ManualDiscount,
+  idempotencyKey: string
+): Promise<
+  | { approved: true; managerName: string; token: string }
+  | { approved: false; error: string }
+> {
+  const staff = await requireStaff("orders:create");
+  const { staff: manager, error } = checkManagerApproval(managerId, pin, staff);
+  return manager
+    ? {
+        approved: true,
+        managerName: manager.name,
+        token: createApprovalToken(manager, staff, {
+          discount,
+          idempotencyKey,
+        }),
       }
-    );
+    : { approved: false, error };
+}
 
-    return products;
-  } catch (error) {
-    console.error("Error fetching products:", error);
-    throw error;
+// orderCreate accepts a single discount application, so manual discounts and
+// the discount code are sent together as one fixed amount unless the order
+// only has a percentage code
+function toOrderDiscountCode(
+  quote: PricedQuote,
+  discountCode: CodeDiscount | null
+) {
+  if (quote.discountCents === 0) return undefined;
+
+  const hasManualDiscounts = quote.discounts.some(
+    (discount) => discount.source === "manual"
+  );
+  if (
+    discountCode &&
+    !hasManualDiscounts &&
+    discountCode.value.type === "percentage"
+  ) {
+    return {
+      itemPercentageDiscountCode: {
+        code: discountCode.code,
+        percentage: discountCode.value.percentage,
+      },
+    };
   }
+
+  const code = [discountCode?.code, hasManualDiscounts ? "STAFF" : null]
+    .filter(Boolean)
+    .join("+");
+  return {
+    itemFixedDiscountCode: {
+      code,
+      amountSet: {
+        shopMoney: {
+          amount: formatCents(quote.discountCents),
+          currencyCode: CURRENCY_CODE,
+        },
+      },
+    },
+  };
 }
-const SPANISH_PROVINCE_CODES: { [key: string]: string } = {
-  Álava: "VI",
-  Albacete: "AB",
-  Alicante: "A",
-  Almería: "AL",
-  Asturias: "O",
-  Ávila: "AV",
-  Badajoz: "BA",
-  Barcelona: "B",
-  Burgos: "BU",
-  Cáceres: "CC",
-  Cádiz: "CA",
-  Cantabria: "S",
-  Castellón: "CS",
-  "Ciudad Real": "CR",
-  Córdoba: "CO",
-  "La Coruña": "C",
-  Cuenca: "CU",
-  Gerona: "GI",
-  Granada: "GR",
-  Guadalajara: "GU",
-  Guipúzcoa: "SS",
-  Huelva: "H",
-  Huesca: "HU",
-  "Islas Baleares": "PM",
-  Jaén: "J",
-  León: "LE",
-  Lérida: "L",
-  Lugo: "LU",
-  Madrid: "M",
-  Málaga: "MA",
-  Murcia: "MU",
-  Navarra: "NA",
-  Orense: "OR",
-  Palencia: "P",
-  "Las Palmas": "GC",
-  Pontevedra: "PO",
-  "La Rioja": "LO",
-  Salamanca: "SA",
-  "Santa Cruz de Tenerife": "TF",
-  Segovia: "SG",
-  Sevilla: "SE",
-  Soria: "SO",
-  Tarragona: "T",
-  Teruel: "TE",
-  Toledo: "TO",
-  Valencia: "V",
-  Valladolid: "VA",
-  Vizcaya: "BI",
-  Zamora: "ZA",
-  Zaragoza: "Z",
-};
-
-function getProvinceCode(provinceName: string): string {
-  // Normalize the province name by removing accents and converting to uppercase
-  const normalizedName = provinceName
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .toUpperCase();
-
-  // Find the matching province code
-  for (const [name, code] of Object.entries(SPANISH_PROVINCE_CODES)) {
-    if (
-      name
-        .normalize("NFD")
-        .replace(/[\u0300-\u036f]/g, "")
-        .toUpperCase() === normalizedName
-    ) {
-      return code;
-    }
+
+export async function createOrder(
+  input: OrderInput
+): Promise<CreateOrderResult> {
+  await requireStaff("orders:create");
+  // Same rules as the form, as the request may not come from it
+  const parsed = orderInputSchema.safeParse(input);
+  if (!parsed.success) {
+    console.error("Invalid order input:", parsed.error.issues);
+    return {
+      success: false,
+      code: "invalid_input",
+      error: parsed.error.issues[0]?.message ?? "The order is not valid",
+      ...toOrderErrors(parsed.error, input?.lineItems),
+    };
   }
 
-  // If no match found, return the original province name
-  return provinceName;
+  const orderData = parsed.data;
+  const { idempotencyKey } = orderData;
+  if (!idempotencyKey) {
+    return placeOrder(orderData);
+  }
+
+  const outcome = await createOrderOnce(idempotencyKey, {
+    findExisting: async () => {
+      const order = await findOrderByTag(idempotencyTag(idempotencyKey));
+      return order && { data: order };
+    },
+    create: async () => {
+      const result = await placeOrder(orderData);
+      return result.success ? { created: result } : { failed: result };
+    },
+  });
+  if ("failed" in outcome) {
+    return outcome.failed;
+  }
+  return {
+    success: true,
+    data: outcome.created.data,
+    quote: outcome.created.quote,
+    duplicate: outcome.duplicate || undefined,
+  };
+}
+
+function invalidDiscount(
+  field: "discountCode" | "manualDiscounts",
+  error: string
+): CreateOrderFailure {
+  return {
+    success: false,
+    code: "invalid_discount",
+    error,
+    fieldErrors: { [field]: error },
+  };
 }
 
-interface OrderInput {
-  firstName: string;
-  lastName: string;
-  email: string;
-  phone: string;
-  address1: string;
-  city: string;
-  zip: string;
-  lineItems: Array<{
-    variantId: string;
-    quantity: number;
-  }>;
+function shopifyError(detail: string): CreateOrderFailure {
+  return {
+    success: false,
+    code: "shopify_error",
+    error: `Shopify did not confirm the order (${detail}). Check Shopify before trying again.`,
+  };
 }
 
-export async function createOrder(orderData: OrderInput) {
-  const session = createSession();
-  const shopifyGraphQLUrl = `${process.env.NEXT_PUBLIC_SHOP_URL}/admin/api/2025-01/graphql.json`;
-  // Get province code from the province field if available, otherwise try to derive it from city
-  const provinceCode = getProvinceCode(orderData.city);
+async function placeOrder(orderData: ValidOrder): Promise<CreateOrderResult> {
+  const staff = await requireStaff("orders:create");
+  const { shipping } = getConfig();
+  const event = await getActiveEvent();
+  if (!event) {
+    return {
+      success: false,
+      code: "no_active_event",
+      error:
+        "No event is on today. A manager can activate one on the Events page.",
+    };
+  }
+  // The schema already normalised the zip and resolved the province
+  const { zip, province: provinceCode } = orderData;
+
+  // Price the order from Shopify's current variant prices, never the client
+  const { prices, stock, warehouseStock } = await getLiveVariants(
+    orderData.lineItems.map((item) => item.variantId)
+  );
+  const unknownVariants = orderData.lineItems.filter(
+    (item) => !prices.has(item.variantId)
+  );
+  if (unknownVariants.length > 0) {
+    console.error("Unknown variants in order:", unknownVariants);
+    return {
+      success: false,
+      code: "unknown_products",
+      error: "Some products in the cart are no longer available",
+      lineErrors: Object.fromEntries(
+        unknownVariants.map((item) => [
+          item.variantId,
+          "No longer available. Remove it from the cart.",
+        ])
+      ),
+    };
+  }
+
+  // Another tablet may have sold the last units since the catalog was loaded
+  const stockErrors = findLineStockErrors(
+    orderData.lineItems,
+    { popUp: stock, warehouse: warehouseStock },
+    (variantId, fromWarehouse) =>
+      getHeldQuantity(variantId, orderData.holdId, fromWarehouse)
+  );
+  if (stockErrors.length > 0) {
+    console.error("Insufficient stock:", stockErrors);
+    return {
+      success: false,
+      code: "insufficient_stock",
+      error: "Some products in the cart no longer have enough stock",
+      stockErrors,
+    };
+  }
+
+  let discountCode: CodeDiscount | null = null;
+  if (orderData.discountCode) {
+    const resolved = await resolveDiscountCode(orderData.discountCode);
+    if ("error" in resolved) {
+      return invalidDiscount("discountCode", resolved.error);
+    }
+    discountCode = resolved.discount;
+  }
+
+  // The manager who approved each manual discount
+  const manualDiscounts = orderData.manualDiscounts ?? [];
+  const approvedBy = manualDiscounts.map(({ approval, ...discount }) =>
+    hasPermission(staff, "discounts:approve")
+      ? staff
+      : approval && orderData.idempotencyKey
+      ? verifyApprovalToken(approval.token, staff, {
+          discount,
+          idempotencyKey: orderData.idempotencyKey,
+        })
+      : null
+  );
+  if (approvedBy.some((manager) => !manager)) {
+    return {
+      success: false,
+      code: "discount_not_approved",
+      error: "Manual discounts must be approved by a manager",
+      fieldErrors: {
+        manualDiscounts: "Ask a manager to approve each discount",
+      },
+    };
+  }
+
+  const itemsQuote = buildQuote(orderData.lineItems, prices, {
+    discountCode,
+    manualDiscounts,
+  });
+  const codeProblem =
+    discountCode &&
+    getCodeDiscountProblem(
+      discountCode,
+      itemsQuote.subtotalCents,
+      orderData.lineItems.reduce((total, item) => total + item.quantity, 0)
+    );
+  if (codeProblem) {
+    return invalidDiscount("discountCode", codeProblem);
+  }
+
+  const shippingRate = shipping.rates.find(
+    (rate) => rate.id === orderData.shippingRateId
+  );
+  const shippingCents =
+    shippingRate &&
+    getShippingPriceCents(
+      shippingRate,
+      orderData.countryCode,
+      zip,
+      itemsQuote.subtotalCents - itemsQuote.discountCents
+    );
+  if (!shippingRate || shippingCents === null || shippingCents === undefined) {
+    const error =
+      "The selected shipping option is not available for this address";
+    return {
+      success: false,
+      code: "shipping_unavailable",
+      error,
+      fieldErrors: { shippingRateId: error },
+    };
+  }
+  if (
+    shippingRate.pickup &&
+    orderData.lineItems.some((item) => item.fromWarehouse)
+  ) {
+    const error = "Items from the warehouse have to be shipped";
+    return {
+      success: false,
+      code: "shipping_unavailable",
+      error,
+      fieldErrors: { shippingRateId: error },
+    };
+  }
+  if (!shippingRate.pickup && !orderData.address1) {
+    return {
+      success: false,
+      code: "invalid_address",
+      error: `${shippingRate.title} needs a delivery address`,
+      fieldErrors: { address1: "Enter the delivery address" },
+    };
+  }
+
+  // Whether the customer walks away with each line: every line of a
+  // take-away order
+  const isHandedOver = (item: ValidOrder["lineItems"][number]) =>
+    shippingRate.pickup || Boolean(item.takenNow);
+
+  const quote = withShipping(itemsQuote, shippingCents);
+  if (quote.totalCents !== orderData.expectedTotalCents) {
+    console.error("Order total mismatch:", {
+      expectedTotalCents: orderData.expectedTotalCents,
+      quote,
+    });
+    return {
+      success: false,
+      code: "price_changed",
+      error: `Prices have changed since the catalog was loaded: the order total is now €${formatCents(
+        quote.totalCents
+      )} instead of €${formatCents(
+        orderData.expectedTotalCents
+      )}. Please reload the page and try again.`,
+      quote,
+    };
+  }
+
+  const paymentProblem = validateTenders(orderData.payments, quote.totalCents);
+  if (paymentProblem) {
+    console.error("Invalid payments:", {
+      payments: orderData.payments,
+      totalCents: quote.totalCents,
+    });
+    return {
+      success: false,
+      code: "invalid_payments",
+      error: paymentProblem,
+      fieldErrors: { payments: paymentProblem },
+    };
+  }
+
+  const cashTenderedCents = orderData.payments.reduce(
+    (total, tender) =>
+      tender.method === "cash"
+        ? total + (tender.tenderedCents ?? tender.amountCents)
+        : total,
+    0
+  );
 
-  // Calculate total amount from line items
-  const totalAmount = orderData.lineItems.reduce((total, item) => {
-    // For now, we'll use a placeholder calculation since we don't have variant prices here
-    // In a real implementation, you'd fetch variant prices or pass them in the orderData
-    return total + item.quantity * 10; // Placeholder price of €10 per item
-  }, 0);
+  const address = orderData.address1
+    ? {
+        address1: orderData.address1,
+        address2: "",
+        city: orderData.city,
+        countryCode: orderData.countryCode,
+        firstName: orderData.firstName,
+        lastName: orderData.lastName,
+        phone: orderData.phone,
+        provinceCode,
+        zip,
+      }
+    : undefined;
 
   const query = `
     mutation OrderCreate(
@@ -233,21 +616,7 @@ export async function createOrder(orderData: OrderInput) {
     ) {
       orderCreate(options: $options, order: $order) {
         order {
-          id
-          name
-          email
-          createdAt
-          shippingAddress {
-            address1
-            address2
-            city
-            countryCode
-            firstName
-            lastName
-            phone
-            provinceCode
-            zip
-          }
+          ...OrderReceiptFields
         }
         userErrors {
           field
@@ -255,6 +624,8 @@ export async function createOrder(orderData: OrderInput) {
         }
       }
     }
+
+    ${ORDER_RECEIPT_FRAGMENT}
   `;
 
   const variables = {
@@ -264,85 +635,116 @@ export async function createOrder(orderData: OrderInput) {
       sendReceipt: true,
     },
     order: {
-      billingAddress: {
-        address1: orderData.address1,
-        address2: "",
-        city: orderData.city,
-        countryCode: "ES",
-        firstName: orderData.firstName || "Return",
-        lastName: orderData.lastName || "Return",
-        phone: orderData.phone || "+34608667749",
-        provinceCode: provinceCode,
-        zip: orderData.zip,
-      },
+      billingAddress: address,
       buyerAcceptsMarketing: true,
-      currency: "EUR",
+      currency: CURRENCY_CODE,
+      // Links the order to the customer's history in Shopify
+      customer: orderData.customerId
+        ? { toAssociate: { id: orderData.customerId } }
+        : {
+            toUpsert: {
+              email: orderData.email,
+              phone: orderData.phone,
+              firstName: orderData.firstName,
+              lastName: orderData.lastName,
+            },
+          },
+      discountCode: toOrderDiscountCode(quote, discountCode),
       email: orderData.email,
       financialStatus: "PAID",
-      lineItems: orderData.lineItems.map((item) => ({
-        variantId: item.variantId,
-        quantity: item.quantity,
-        requiresShipping: true,
-      })),
-      note: `Pedido Pop Up`,
-      shippingAddress: {
-        address1: orderData.address1,
-        address2: "",
-        city: orderData.city,
-        countryCode: "ES",
-        firstName: orderData.firstName || "Return",
-        lastName: orderData.lastName || "Return",
-        phone: orderData.phone || "+34608667749",
-        provinceCode: provinceCode,
-        zip: orderData.zip,
-      },
-      shippingLines: [
-        {
-          priceSet: {
-            shopMoney: {
-              amount: "4.00",
-              currencyCode: "EUR",
-            },
+      lineItems: quote.lines.map((line, index) => ({
+        variantId: line.variantId,
+        quantity: line.quantity,
+        priceSet: {
+          shopMoney: {
+            amount: formatCents(line.unitPriceCents),
+            currencyCode: CURRENCY_CODE,
           },
-          title: "Estándar",
         },
+        requiresShipping: !isHandedOver(orderData.lineItems[index]),
+      })),
+      note: formatOrderNote(event),
+      // Take-away orders leave with the customer: no address or shipping line
+      shippingAddress: shippingRate.pickup ? undefined : address,
+      shippingLines: shippingRate.pickup
+        ? []
+        : [
+            {
+              code: shippingRate.id,
+              priceSet: {
+                shopMoney: {
+                  amount: formatCents(quote.shippingCents),
+                  currencyCode: CURRENCY_CODE,
+                },
+              },
+              title: shippingRate.title,
+            },
+          ],
+      tags: [
+        eventTag(event.id),
+        ...event.tags,
+        staffTag(staff.id),
+        // Lets a retry find the order if this attempt dies after creating it
+        ...(orderData.idempotencyKey
+          ? [idempotencyTag(orderData.idempotencyKey)]
+          : []),
+      ],
+      customAttributes: [
+        { key: "Staff", value: staff.name },
+        ...quote.discounts
+          .filter((discount) => discount.source === "manual")
+          .map((discount, index) => ({
+            key: `Manual discount ${index + 1}`,
+            value: `${discount.label} (-€${formatCents(
+              discount.amountCents
+            )}), approved by ${approvedBy[index]?.name}`,
+          })),
+        ...(cashTenderedCents > 0
+          ? [
+              { key: "Cash given", value: formatCents(cashTenderedCents) },
+              {
+                key: "Change",
+                value: formatCents(getChangeCents(orderData.payments)),
+              },
+            ]
+          : []),
       ],
-      tags: ["Pop Up"],
       taxesIncluded: true,
       test: false,
-      transactions: [
-        {
+      // One transaction per tender so finance can reconcile by method
+      transactions: orderData.payments
+        .filter((tender) => tender.amountCents > 0)
+        .map((tender) => ({
           amountSet: {
             shopMoney: {
-              amount: (totalAmount + 4).toFixed(2), // Total + shipping
-              currencyCode: "EUR",
+              amount: formatCents(tender.amountCents),
+              currencyCode: CURRENCY_CODE,
             },
           },
           kind: "SALE",
-          gateway: "manual",
+          gateway: PAYMENT_METHODS[tender.method].gateway,
           status: "SUCCESS",
-        },
-      ],
+        })),
     },
   };
 
   try {
-    const response = await fetch(shopifyGraphQLUrl, {
-      method: "POST",
-      headers: session.headers,
-      body: JSON.stringify({ query, variables }),
-    });
-
-    const data = await response.json();
+    const data = await shopifyGraphQL<{
+      orderCreate: {
+        order: CreatedOrder | null;
+        userErrors: ShopifyUserError[];
+      } | null;
+    }>(query, variables);
 
     // Enhanced error logging
-    if (data.errors || data.data?.orderCreate?.userErrors?.length > 0) {
+    if (data.errors || data.data?.orderCreate?.userErrors?.length) {
       console.error("Order creation failed:", {
         errors: data.errors,
         userErrors: data.data?.orderCreate?.userErrors,
         input: {
           city: orderData.city,
-          province: orderData.city,
+          country: orderData.countryCode,
+          zip,
           provinceCode,
           address: orderData.address1,
           lineItems: orderData.lineItems,
@@ -354,24 +756,485 @@ export async function createOrder(orderData: OrderInput) {
     const orderResponse = data?.data?.orderCreate;
     if (!orderResponse) {
       console.error("No orderCreate found in response:", data);
-      return { success: false, error: "Missing orderCreate field" };
+      return shopifyError("Missing orderCreate field");
     }
 
-    // Optionally, check for userErrors.
+    // Point each of Shopify's complaints at the field it is about
     if (orderResponse.userErrors && orderResponse.userErrors.length > 0) {
       console.error("User errors:", orderResponse.userErrors);
-      return { success: false, error: orderResponse.userErrors };
+      return {
+        success: false,
+        code: "shopify_rejected",
+        error: `Shopify rejected the order: ${orderResponse.userErrors
+          .map((userError) => userError.message)
+          .join(", ")}`,
+        ...mapUserErrors(orderResponse.userErrors, orderData.lineItems),
+      };
     }
 
     // Ensure order exists.
     const createdOrder = orderResponse.order;
     if (!createdOrder) {
       console.error("Order not found in response:", data);
-      return { success: false, error: "Order not found in response" };
+      return shopifyError("Order not found in response");
+    }
+
+    if (orderData.holdId) {
+      releaseReservation(orderData.holdId);
     }
-    return { success: true, data: createdOrder };
+
+    // Created lines come back in the order they were sent
+    const createdLineItems = createdOrder.lineItems.nodes;
+    await settleNewOrder(createdOrder.id, {
+      warehouseLineItemIds: pickLineItemIds(
+        createdLineItems,
+        orderData.lineItems,
+        (item) => Boolean(item.fromWarehouse)
+      ),
+      handedOverLineItemIds: pickLineItemIds(
+        createdLineItems,
+        orderData.lineItems,
+        isHandedOver
+      ),
+    });
+    return { success: true, data: createdOrder, quote };
   } catch (error) {
     console.error("Error creating order:", error);
     throw error;
   }
 }
+
+// Emails the order receipt (Shopify's order invoice) to the customer, or to
+// another address they give at the stand
+export async function sendOrderReceipt(
+  orderId: string,
+  email: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  await requireStaff("orders:create");
+  const parsedEmail = emailSchema.safeParse(email);
+  if (!parsedEmail.success) {
+    return { success: false, error: parsedEmail.error.issues[0].message };
+  }
+
+  const query = `
+    mutation OrderInvoiceSend($id: ID!, $email: EmailInput) {
+      orderInvoiceSend(id: $id, email: $email) {
+        order {
+          id
+        }
+        userErrors {
+          field
+          message
+        }
+      }
+    }
+  `;
+
+  const { data, errors } = await shopifyGraphQL<{
+    orderInvoiceSend: {
+      order: { id: string } | null;
+      userErrors: ShopifyUserError[];
+    } | null;
+  }>(query, { id: orderId, email: { to: parsedEmail.data } });
+
+  if (errors || !data?.orderInvoiceSend) {
+    console.error("Error sending receipt:", errors);
+    return { success: false, error: "Could not send the receipt. Try again." };
+  }
+  if (data.orderInvoiceSend.userErrors.length > 0) {
+    return {
+      success: false,
+      error: data.orderInvoiceSend.userErrors
+        .map((userError) => userError.message)
+        .join(", "),
+    };
+  }
+  return { success: true };
+}
+
+// Cancels a pop-up order, refunding the customer and restocking the items
+export async function voidOrder(
+  orderId: string,
+  reason: VoidReason
+): Promise<{ success: true } | { success: false; error: string }> {
+  const staff = await requireStaff("orders:void");
+  if (!Object.keys(VOID_REASONS).includes(reason)) {
+    return { success: false, error: "Select a reason" };
+  }
+
+  const order = await getPopUpOrder(orderId);
+  if (!order) {
+    return { success: false, error: "Order not found" };
+  }
+  if (order.cancelledAt) {
+    return { success: false, error: `${order.name} is already cancelled` };
+  }
+
+  const { error } = await cancelOrder({
+    orderId,
+    reason,
+    staffNote: `Voided by ${staff.name}: ${VOID_REASONS[reason]}`,
+  });
+  return error ? { success: false, error } : { success: true };
+}
+
+// End-of-day figures for the activated event's orders placed and refunds made
+// on the date (YYYY-MM-DD)
+export async function getSalesReport(date: string): Promise<{
+  report: SalesReport;
+  cashCount: CashCount | null;
+}> {
+  await requireStaff("reports:view");
+  if (!isReportDate(date)) {
+    throw new Error(`Not a valid report date: ${date}`);
+  }
+
+  const salesReport = await loadSalesReport(date);
+  if (!salesReport) {
+    throw new Error("No event has been activated");
+  }
+  return salesReport;
+}
+
+export async function recordCashCount(
+  input: CashCountInput
+): Promise<
+  { success: true; cashCount: CashCount } | { success: false; error: string }
+> {
+  const staff = await requireStaff("reports:view");
+  const parsed = cashCountInputSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  // Counted for the event the report shows
+  const event = await getSelectedEvent();
+  if (!event) {
+    return { success: false, error: "No event has been activated" };
+  }
+
+  const cashCount: CashCount = {
+    ...parsed.data,
+    eventId: event.id,
+    note: parsed.data.note || undefined,
+    countedBy: staff.name,
+    countedAt: Date.now(),
+  };
+  await saveCashCount(cashCount);
+  return { success: true, cashCount };
+}
+
+// A pop-up order with what can still be returned, and the variants of each
+// product that are in stock to exchange it for
+export async function getReturnableOrder(
+  orderId: string
+): Promise<ReturnableOrder | null> {
+  await requireStaff("orders:create");
+  const [order, catalog] = await Promise.all([
+    fetchReturnableOrder(orderId),
+    getCachedCatalog(),
+  ]);
+  if (!order) return null;
+
+  return {
+    ...order,
+    lines: order.lines.map((line) => {
+      const product = catalog.find((product) => product.id === line.productId);
+      return {
+        ...line,
+        exchangeOptions: (product?.variants.edges ?? [])
+          .map(({ node }) => node)
+          .filter(
+            (variant) =>
+              variant.id !== line.variantId && variant.inventoryQuantity > 0
+          )
+          .map((variant) => ({
+            variantId: variant.id,
+            title: variant.title,
+            price: variant.price,
+            inventoryQuantity: variant.inventoryQuantity,
+          })),
+      };
+    }),
+  };
+}
+
+// Returns items from a pop-up order: restocks them, creates the exchange order
+// for any swapped for another variant and refunds what is left over. Retries
+// with the same idempotency key get the first result back.
+export async function processReturn(input: ReturnInput): Promise<ReturnResult> {
+  const staff = await requireStaff("orders:create");
+  const parsed = returnInputSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+  const returnData = parsed.data;
+  const { idempotencyKey } = returnData;
+
+  const outcome = await processReturnOnce(idempotencyKey, {
+    findExisting: async () => {
+      const refund = await findRefundByKey(returnData.orderId, idempotencyKey);
+      if (!refund) return null;
+      const exchange = await findExchangeOrder(idempotencyKey);
+      return {
+        success: true,
+        refundedCents: refund.refundedCents,
+        exchangeOrderName: exchange?.name,
+      };
+    },
+    create: async () => {
+      const result = await returnItems(staff, returnData);
+      return result.success ? { created: result } : { failed: result };
+    },
+  });
+  return "failed" in outcome ? outcome.failed : outcome.created;
+}
+
+async function returnItems(
+  staff: StaffMember,
+  returnData: ValidReturn
+): Promise<ReturnResult> {
+  const order = await fetchReturnableOrder(returnData.orderId);
+  if (!order) {
+    return { success: false, error: "Order not found" };
+  }
+
+  for (const returned of returnData.lines) {
+    const line = order.lines.find((line) => line.id === returned.lineItemId);
+    if (!line) {
+      return { success: false, error: "An item is not part of this order" };
+    }
+    if (returned.quantity > line.refundableQuantity) {
+      return {
+        success: false,
+        error: `Only ${line.refundableQuantity} of ${line.title} can be returned`,
+      };
+    }
+  }
+
+  // Exchanges are priced and stock-checked like any other sale
+  const exchangeLines = returnData.lines.flatMap((returned) =>
+    returned.exchangeVariantId
+      ? [{ variantId: returned.exchangeVariantId, quantity: returned.quantity }]
+      : []
+  );
+  const { prices, stock, productIds } =
+    exchangeLines.length > 0
+      ? await getLiveVariants(exchangeLines.map((line) => line.variantId))
+      : {
+          prices: new Map<string, VariantPrice>(),
+          stock: new Map<string, LiveStock>(),
+          productIds: new Map<string, string>(),
+        };
+  if (exchangeLines.some((line) => !prices.has(line.variantId))) {
+    return {
+      success: false,
+      error: "A variant chosen for the exchange is no longer available",
+    };
+  }
+  const exchangeProblem = getExchangeProblem(
+    returnData.lines,
+    order.lines,
+    productIds
+  );
+  if (exchangeProblem) {
+    return { success: false, error: exchangeProblem };
+  }
+  // Left by an earlier attempt that died before refunding; its items already
+  // came out of stock
+  let exchange =
+    exchangeLines.length > 0
+      ? await findExchangeOrder(returnData.idempotencyKey)
+      : null;
+  const stockErrors = exchange
+    ? []
+    : findStockErrors(exchangeLines, stock, (variantId) =>
+        getHeldQuantity(variantId)
+      );
+  if (stockErrors.length > 0) {
+    return {
+      success: false,
+      error: "A variant chosen for the exchange is out of stock",
+    };
+  }
+
+  const locationId = await getPopUpLocationId();
+  const refundLineItems: RefundLineItemInput[] = returnData.lines.map(
+    (returned) => {
+      const line = order.lines.find((line) => line.id === returned.lineItemId);
+      return {
+        lineItemId: returned.lineItemId,
+        quantity: returned.quantity,
+        // Items still waiting to ship are cancelled off the order; fulfilled
+        // ones, including those taken away at the stand, are returned. Both
+        // go back into stock.
+        restockType:
+          line && line.unfulfilledQuantity >= returned.quantity
+            ? "CANCEL"
+            : "RETURN",
+        locationId,
+      };
+    }
+  );
+
+  const suggested = await suggestRefund(order.id, refundLineItems);
+  const exchangeCents = exchangeLines.reduce(
+    (total, line) =>
+      total + toCents(prices.get(line.variantId)!.price) * line.quantity,
+    0
+  );
+  const creditCents = Math.min(suggested.amountCents, exchangeCents);
+  const refundedCents = suggested.amountCents - creditCents;
+  const amountDueCents = exchangeCents - creditCents;
+  if (amountDueCents > 0 && !returnData.paymentMethod) {
+    return {
+      success: false,
+      error: `Select how the customer pays the €${formatCents(
+        amountDueCents
+      )} difference`,
+    };
+  }
+
+  // Exchanges are new sales, so they need an event on today like any order
+  const event = exchangeLines.length > 0 ? await getActiveEvent() : null;
+  if (exchangeLines.length > 0 && !event) {
+    return {
+      success: false,
+      error: "No event is on today, so items can only be refunded",
+    };
+  }
+
+  const reason = RETURN_REASONS[returnData.reason];
+  if (event && !exchange) {
+    const created = await createExchangeOrder({
+      originalOrder: order,
+      staff,
+      event,
+      reason,
+      lines: exchangeLines.map((line) => ({
+        ...line,
+        unitPriceCents: toCents(prices.get(line.variantId)!.price),
+      })),
+      creditCents,
+      dueCents: amountDueCents,
+      paymentMethod: returnData.paymentMethod,
+      idempotencyKey: returnData.idempotencyKey,
+    });
+    if ("error" in created) {
+      return {
+        success: false,
+        error: `The exchange order could not be created: ${created.error}`,
+      };
+    }
+    exchange = created.order;
+    // Exchanges are handed over at the stand
+    await settleNewOrder(exchange.id, {
+      warehouseLineItemIds: new Set(),
+      handedOverLineItemIds: new Set(
+        created.order.lineItems.nodes.map((lineItem) => lineItem.id)
+      ),
+    });
+  }
+
+  const refund = await createRefund({
+    orderId: order.id,
+    note: [
+      `${reason} (${staff.name})`,
+      exchange && `exchanged in ${exchange.name}`,
+      returnData.note,
+      // Lets a retry find the refund if this attempt dies after making it
+      idempotencyTag(returnData.idempotencyKey),
+    ]
+      .filter(Boolean)
+      .join(" - "),
+    refundLineItems,
+    transactions: limitRefundTransactions(
+      suggested.transactions,
+      refundedCents
+    ),
+  });
+  if ("error" in refund) {
+    if (!exchange) {
+      return { success: false, error: `The refund failed: ${refund.error}` };
+    }
+    // The items were not taken back, so the exchange is undone
+    const cancelled = await cancelOrder({
+      orderId: exchange.id,
+      reason: "OTHER",
+      staffNote: `Refund of ${order.name} failed`,
+    });
+    return {
+      success: false,
+      error: cancelled.error
+        ? `The refund failed (${refund.error}) and exchange order ${exchange.name} could not be cancelled. Cancel it in Shopify.`
+        : `The refund failed (${refund.error}), so exchange order ${exchange.name} was cancelled`,
+    };
+  }
+
+  return {
+    success: true,
+    refundedCents,
+    amountDueCents,
+    exchangeOrderName: exchange?.name,
+  };
+}
+
+export async function getEventProfiles(): Promise<EventsFile> {
+  await requireStaff("events:manage");
+  return listEventProfiles();
+}
+
+// Stock figures in the catalog are per location, so switching location
+// reloads it
+async function reloadCatalogIfLocationChanged(previousLocationId?: string) {
+  if ((await getStockLocationId()) !== previousLocationId) {
+    await reloadCatalog();
+  }
+}
+
+// Adds an event profile, or updates the one with the same id
+export async function updateEventProfile(
+  input: EventProfileInput
+): Promise<
+  { success: true; event: EventProfile } | { success: false; error: string }
+> {
+  await requireStaff("events:manage");
+  const parsed = eventProfileInputSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const event = parsed.data;
+  const { shipping } = getConfig();
+  if (
+    event.defaultShippingRateId &&
+    !shipping.rates.some((rate) => rate.id === event.defaultShippingRateId)
+  ) {
+    return { success: false, error: "Select one of the shipping rates" };
+  }
+
+  const previousLocationId = await getStockLocationId();
+  await saveEventProfile(event);
+  await reloadCatalogIfLocationChanged(previousLocationId);
+  return { success: true, event };
+}
+
+// Makes the event the one new orders are placed for
+export async function activateEventProfile(
+  eventId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  await requireStaff("events:manage");
+  const { events } = await listEventProfiles();
+  const event = events.find((event) => event.id === eventId);
+  if (!event) {
+    return { success: false, error: "That event no longer exists" };
+  }
+  if (event.endDate < getShopDate(getConfig().timeZone)) {
+    return { success: false, error: "That event has already ended" };
+  }
+
+  const previousLocationId = await getStockLocationId();
+  await setActiveEvent(eventId);
+  await reloadCatalogIfLocationChanged(previousLocationId);
+  return { success: true };
+}
@@ -0,0 +1,312 @@
+import "server-only";
+import { getConfig } from "@/lib/config";
+import { getDayStart, getNextDay } from "@/lib/dates";
+import {
+  CashCount,
+  ReportOrder,
+  ReportRefund,
+  SalesReport,
+  buildSalesReport,
+} from "@/lib/reports";
+import { readDataFile, writeDataFile } from "./dataFile";
+import { getSelectedEvent } from "./events";
+import { buildOrdersQuery } from "./orders";
+import { ShopifyGraphQLResponse, shopifyGraphQL } from "./shopify";
+
+// Kept small because each order brings its line items, which Shopify counts
+// towards the query cost
+const REPORT_PAGE_SIZE = 10;
+const LINE_ITEMS_PAGE_SIZE = 50;
+const CASH_COUNTS_FILE = "cash-counts.json";
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface OrdersPage<T> {
+  orders: { nodes: T[]; pageInfo: PageInfo };
+}
+
+type ReportLineItem = ReportOrder["lineItems"]["nodes"][number];
+
+interface LineItemsPage {
+  nodes: ReportLineItem[];
+  pageInfo: PageInfo;
+}
+
+// As queried: the first page of line items, with the rest fetched after
+type ReportOrderPage = Omit<ReportOrder, "lineItems"> & {
+  lineItems: LineItemsPage;
+};
+
+const MONEY_BAG_FRAGMENT = `
+  fragment MoneyBag on MoneyBag {
+    shopMoney {
+      amount
+      currencyCode
+    }
+  }
+`;
+
+const REPORT_LINE_ITEM_FRAGMENT = `
+  fragment ReportLineItem on LineItem {
+    title
+    variantTitle
+    sku
+    quantity
+    discountedUnitPriceAfterAllDiscountsSet {
+      ...MoneyBag
+    }
+    variant {
+      id
+    }
+  }
+`;
+
+// Every page of the orders matching the search
+async function fetchAllOrders<T>(
+  query: string,
+  search: string,
+  failure: string
+): Promise<T[]> {
+  const orders: T[] = [];
+  let after: string | null = null;
+  do {
+    const response: ShopifyGraphQLResponse<OrdersPage<T>> =
+      await shopifyGraphQL<OrdersPage<T>>(query, {
+        query: search,
+        first: REPORT_PAGE_SIZE,
+        after,
+      });
+
+    if (response.errors || !response.data) {
+      console.error("GraphQL Errors:", response.errors);
+      throw new Error(failure);
+    }
+
+    orders.push(...response.data.orders.nodes);
+    const { pageInfo } = response.data.orders;
+    after = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+  } while (after);
+
+  return orders;
+}
+
+// Line items of an order past the first page, for orders too large for it
+async function fetchRemainingLineItems(
+  orderId: string,
+  after: string | null
+): Promise<ReportLineItem[]> {
+  const query = `
+    query ReportOrderLineItems($id: ID!, $first: Int!, $after: String) {
+      order(id: $id) {
+        lineItems(first: $first, after: $after) {
+          nodes {
+            ...ReportLineItem
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    }
+
+    ${REPORT_LINE_ITEM_FRAGMENT}
+    ${MONEY_BAG_FRAGMENT}
+  `;
+
+  const lineItems: ReportLineItem[] = [];
+  let cursor = after;
+  do {
+    const response: ShopifyGraphQLResponse<{
+      order: { lineItems: LineItemsPage } | null;
+    }> = await shopifyGraphQL(query, {
+      id: orderId,
+      first: LINE_ITEMS_PAGE_SIZE,
+      after: cursor,
+    });
+
+    if (response.errors || !response.data?.order) {
+      console.error("GraphQL Errors:", response.errors);
+      throw new Error("Report line items query failed");
+    }
+
+    lineItems.push(...response.data.order.lineItems.nodes);
+    const { pageInfo } = response.data.order.lineItems;
+    cursor = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+  } while (cursor);
+
+  return lineItems;
+}
+
+// Every order of the event placed on the given day (YYYY-MM-DD)
+export async function fetchReportOrders(
+  eventId: string,
+  date: string
+): Promise<ReportOrder[]> {
+  const query = `
+    query ReportOrders($query: String!, $first: Int!, $after: String) {
+      orders(first: $first, after: $after, query: $query) {
+        nodes {
+          id
+          name
+          totalPriceSet {
+            ...MoneyBag
+          }
+          totalDiscountsSet {
+            ...MoneyBag
+          }
+          totalShippingPriceSet {
+            ...MoneyBag
+          }
+          transactions {
+            gateway
+            kind
+            status
+            amountSet {
+              ...MoneyBag
+            }
+          }
+          lineItems(first: ${LINE_ITEMS_PAGE_SIZE}) {
+            nodes {
+              ...ReportLineItem
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+
+    ${REPORT_LINE_ITEM_FRAGMENT}
+    ${MONEY_BAG_FRAGMENT}
+  `;
+
+  const orders = await fetchAllOrders<ReportOrderPage>(
+    query,
+    buildOrdersQuery({ eventId, from: date, to: date }),
+    "Report orders query failed"
+  );
+  return Promise.all(
+    orders.map(async (order) => ({
+      ...order,
+      lineItems: {
+        nodes: [
+          ...order.lineItems.nodes,
+          ...(order.lineItems.pageInfo.hasNextPage
+            ? await fetchRemainingLineItems(
+                order.id,
+                order.lineItems.pageInfo.endCursor
+              )
+            : []),
+        ],
+      },
+    }))
+  );
+}
+
+// Refunds of the event's orders made on the given day, whichever day the order
+// was placed
+export async function fetchReportRefunds(
+  eventId: string,
+  date: string
+): Promise<ReportRefund[]> {
+  const query = `
+    query ReportRefunds($query: String!, $first: Int!, $after: String) {
+      orders(first: $first, after: $after, query: $query) {
+        nodes {
+          refunds {
+            createdAt
+            totalRefundedSet {
+              ...MoneyBag
+            }
+            transactions(first: 10) {
+              nodes {
+                gateway
+                kind
+                status
+                amountSet {
+                  ...MoneyBag
+                }
+              }
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+
+    ${MONEY_BAG_FRAGMENT}
+  `;
+
+  const { timeZone } = getConfig();
+  const start = getDayStart(date, timeZone).getTime();
+  const end = getDayStart(getNextDay(date), timeZone).getTime();
+  // A refund updates its order, so any order refunded on the day was updated
+  // on or after it
+  const orders = await fetchAllOrders<{ refunds: ReportRefund[] }>(
+    query,
+    `${buildOrdersQuery({ eventId })} AND updated_at:>='${new Date(
+      start
+    ).toISOString()}'`,
+    "Report refunds query failed"
+  );
+
+  return orders.flatMap((order) =>
+    order.refunds.filter((refund) => {
+      const createdAt = Date.parse(refund.createdAt);
+      return createdAt >= start && createdAt < end;
+    })
+  );
+}
+
+// Two events may be held on the same day, each with its own till
+function cashCountKey({ eventId, date }: Pick<CashCount, "eventId" | "date">) {
+  return `${eventId}:${date}`;
+}
+
+export async function findCashCount(
+  eventId: string,
+  date: string
+): Promise<CashCount | null> {
+  const counts = await readDataFile<Record<string, CashCount>>(
+    CASH_COUNTS_FILE
+  );
+  return counts?.[cashCountKey({ eventId, date })] ?? null;
+}
+
+// Replaces the count for the event's day, so a recount overrides the first one
+export async function saveCashCount(cashCount: CashCount) {
+  const counts =
+    (await readDataFile<Record<string, CashCount>>(CASH_COUNTS_FILE)) ?? {};
+  counts[cashCountKey(cashCount)] = cashCount;
+  await writeDataFile(CASH_COUNTS_FILE, counts);
+}
+
+// The report of the activated event for the day, or null when no event is
+// activated. Any day can be reported, not only the event's: refunds of its
+// orders may come in after it ended.
+export async function loadSalesReport(
+  date: string
+): Promise<{ report: SalesReport; cashCount: CashCount | null } | null> {
+  const event = await getSelectedEvent();
+  if (!event) return null;
+
+  const [orders, refunds, cashCount] = await Promise.all([
+    fetchReportOrders(event.id, date),
+    fetchReportRefunds(event.id, date),
+    findCashCount(event.id, date),
+  ]);
+  return { report: buildSalesReport(date, orders, refunds), cashCount };
+}
@@ -0,0 +1,59 @@
+import { StockLine } from "@/lib/stock";
+
+// Short-lived stock holds taken while a customer fills in their details.
+// Held in process memory, so they only coordinate tablets served by the same
+// server instance and are dropped on restart.
+const RESERVATION_TTL_MS = 10 * 60 * 1000;
+
+interface Reservation {
+  lineItems: StockLine[];
+  expiresAt: number;
+}
+
+const reservations = new Map<string, Reservation>();
+
+function pruneExpired() {
+  const now = Date.now();
+  for (const [holdId, reservation] of reservations) {
+    if (reservation.expiresAt <= now) {
+      reservations.delete(holdId);
+    }
+  }
+}
+
+export function holdReservation(
+  holdId: string,
+  lineItems: StockLine[]
+): number {
+  pruneExpired();
+  const expiresAt = Date.now() + RESERVATION_TTL_MS;
+  reservations.set(holdId, { lineItems, expiresAt });
+  return expiresAt;
+}
+
+export function releaseReservation(holdId: string) {
+  reservations.delete(holdId);
+}
+
+// Units of a variant held by other checkouts than `excludeHoldId`, from the
+// pop-up's stock or, with `fromWarehouse`, from the warehouse's
+export function getHeldQuantity(
+  variantId: string,
+  excludeHoldId?: string,
+  fromWarehouse = false
+): number {
+  pruneExpired();
+  let held = 0;
+  for (const [holdId, reservation] of reservations) {
+    if (holdId === excludeHoldId) continue;
+    for (const item of reservation.lineItems) {
+      if (
+        item.variantId === variantId &&
+        Boolean(item.fromWarehouse) === fromWarehouse
+      ) {
+        held += item.quantity;
+      }
+    }
+  }
+  return held;
+}
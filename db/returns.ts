@@ -0,0 +1,443 @@
+import "server-only";
+import { EventProfile, eventTag, getEventIdFromTags } from "@/lib/events";
+import { idempotencyTag } from "@/lib/idempotency";
+import { CURRENCY_CODE, formatCents, toCents } from "@/lib/money";
+import { ShopifyMoneyBag, ShopifyUserError } from "@/lib/orderResult";
+import { PAYMENT_METHODS, PaymentMethod } from "@/lib/payments";
+import {
+  EXCHANGE_CREDIT_GATEWAY,
+  ReturnableOrder,
+  SuggestedTransaction,
+} from "@/lib/returns";
+import { StaffMember, staffTag } from "@/lib/staff";
+import { quoteSearchValue } from "./orders";
+import { shopifyGraphQL } from "./shopify";
+
+export interface RefundLineItemInput {
+  lineItemId: string;
+  quantity: number;
+  restockType: "RETURN" | "CANCEL";
+  locationId: string;
+}
+
+interface ReturnableOrderNode {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  tags: string[];
+  customer: { displayName: string } | null;
+  lineItems: {
+    nodes: Array<{
+      id: string;
+      title: string;
+      variantTitle: string | null;
+      refundableQuantity: number;
+      unfulfilledQuantity: number;
+      discountedUnitPriceAfterAllDiscountsSet: ShopifyMoneyBag;
+      variant: { id: string; product: { id: string } } | null;
+    }>;
+  };
+}
+
+// A pop-up order with what can still be returned from each line. Exchange
+// options are left empty for the caller to fill in from the catalog.
+export async function fetchReturnableOrder(
+  orderId: string
+): Promise<ReturnableOrder | null> {
+  const query = `
+    query ReturnableOrder($id: ID!) {
+      order(id: $id) {
+        id
+        name
+        email
+        phone
+        tags
+        customer {
+          displayName
+        }
+        lineItems(first: 100) {
+          nodes {
+            id
+            title
+            variantTitle
+            refundableQuantity
+            unfulfilledQuantity
+            discountedUnitPriceAfterAllDiscountsSet {
+              shopMoney {
+                amount
+                currencyCode
+              }
+            }
+            variant {
+              id
+              product {
+                id
+              }
+            }
+          }
+        }
+      }
+    }
+  `;
+
+  const { data, errors } = await shopifyGraphQL<{
+    order: ReturnableOrderNode | null;
+  }>(query, { id: orderId });
+
+  if (errors || !data) {
+    console.error("GraphQL Errors:", errors);
+    throw new Error("Order query failed");
+  }
+
+  const order = data.order;
+  if (!order || !getEventIdFromTags(order.tags)) return null;
+
+  return {
+    id: order.id,
+    name: order.name,
+    email: order.email,
+    phone: order.phone,
+    customerName: order.customer?.displayName ?? null,
+    lines: order.lineItems.nodes.map((line) => ({
+      id: line.id,
+      title: line.title,
+      variantTitle: line.variantTitle,
+      variantId: line.variant?.id ?? null,
+      productId: line.variant?.product.id ?? null,
+      refundableQuantity: line.refundableQuantity,
+      unfulfilledQuantity: line.unfulfilledQuantity,
+      unitPriceCents: toCents(
+        line.discountedUnitPriceAfterAllDiscountsSet.shopMoney.amount
+      ),
+      exchangeOptions: [],
+    })),
+  };
+}
+
+// Amount Shopify would refund for the lines, split over the order's original
+// payments
+export async function suggestRefund(
+  orderId: string,
+  refundLineItems: RefundLineItemInput[]
+): Promise<{ amountCents: number; transactions: SuggestedTransaction[] }> {
+  const query = `
+    query SuggestedRefund($id: ID!, $refundLineItems: [RefundLineItemInput!]) {
+      order(id: $id) {
+        suggestedRefund(refundLineItems: $refundLineItems) {
+          amountSet {
+            shopMoney {
+              amount
+            }
+          }
+          suggestedTransactions {
+            gateway
+            amountSet {
+              shopMoney {
+                amount
+              }
+            }
+            parentTransaction {
+              id
+            }
+          }
+        }
+      }
+    }
+  `;
+
+  const { data, errors } = await shopifyGraphQL<{
+    order: {
+      suggestedRefund: {
+        amountSet: ShopifyMoneyBag;
+        suggestedTransactions: Array<{
+          gateway: string;
+          amountSet: ShopifyMoneyBag;
+          parentTransaction: { id: string } | null;
+        }>;
+      };
+    } | null;
+  }>(query, { id: orderId, refundLineItems });
+
+  if (errors || !data?.order) {
+    console.error("GraphQL Errors:", errors);
+    throw new Error("Suggested refund query failed");
+  }
+
+  const { suggestedRefund } = data.order;
+  return {
+    amountCents: toCents(suggestedRefund.amountSet.shopMoney.amount),
+    // Refunds must point at the payment they pay back
+    transactions: suggestedRefund.suggestedTransactions.flatMap((transaction) =>
+      transaction.parentTransaction
+        ? [
+            {
+              gateway: transaction.gateway,
+              amountCents: toCents(transaction.amountSet.shopMoney.amount),
+              parentId: transaction.parentTransaction.id,
+            },
+          ]
+        : []
+    ),
+  };
+}
+
+// Refund made by an earlier attempt of the return with the key, found by the
+// key in its note
+export async function findRefundByKey(
+  orderId: string,
+  idempotencyKey: string
+): Promise<{ refundedCents: number } | null> {
+  const query = `
+    query OrderRefunds($id: ID!) {
+      order(id: $id) {
+        refunds {
+          note
+          totalRefundedSet {
+            shopMoney {
+              amount
+            }
+          }
+        }
+      }
+    }
+  `;
+
+  const { data, errors } = await shopifyGraphQL<{
+    order: {
+      refunds: Array<{
+        note: string | null;
+        totalRefundedSet: ShopifyMoneyBag;
+      }>;
+    } | null;
+  }>(query, { id: orderId });
+
+  if (errors || !data) {
+    console.error("GraphQL Errors:", errors);
+    throw new Error("Order refunds query failed");
+  }
+
+  const refund = data.order?.refunds.find((refund) =>
+    refund.note?.includes(idempotencyTag(idempotencyKey))
+  );
+  return refund
+    ? { refundedCents: toCents(refund.totalRefundedSet.shopMoney.amount) }
+    : null;
+}
+
+// Exchange order created by an earlier attempt of the return with the key.
+// Exchanges cancelled because their refund failed are left out.
+export async function findExchangeOrder(
+  idempotencyKey: string
+): Promise<{ id: string; name: string } | null> {
+  const query = `
+    query ExchangeOrderByKey($query: String!) {
+      orders(first: 10, query: $query) {
+        nodes {
+          id
+          name
+          cancelledAt
+        }
+      }
+    }
+  `;
+
+  const { data, errors } = await shopifyGraphQL<{
+    orders: {
+      nodes: Array<{ id: string; name: string; cancelledAt: string | null }>;
+    };
+  }>(query, {
+    query: `tag:${quoteSearchValue(idempotencyTag(idempotencyKey))}`,
+  });
+
+  if (errors || !data) {
+    console.error("GraphQL Errors:", errors);
+    throw new Error("Exchange order query failed");
+  }
+
+  const order = data.orders.nodes.find((order) => !order.cancelledAt);
+  return order ? { id: order.id, name: order.name } : null;
+}
+
+// Restocks the lines and pays back the given transactions, which may add up
+// to less than the lines are worth when part of it went to an exchange
+export async function createRefund(input: {
+  orderId: string;
+  note: string;
+  refundLineItems: RefundLineItemInput[];
+  transactions: SuggestedTransaction[];
+}): Promise<{ refundId: string } | { error: string }> {
+  const query = `
+    mutation RefundCreate($input: RefundInput!) {
+      refundCreate(input: $input) {
+        refund {
+          id
+        }
+        userErrors {
+          field
+          message
+        }
+      }
+    }
+  `;
+
+  const { data, errors } = await shopifyGraphQL<{
+    refundCreate: {
+      refund: { id: string } | null;
+      userErrors: ShopifyUserError[];
+    } | null;
+  }>(query, {
+    input: {
+      orderId: input.orderId,
+      note: input.note,
+      notify: true,
+      refundLineItems: input.refundLineItems,
+      transactions: input.transactions.map((transaction) => ({
+        orderId: input.orderId,
+        parentId: transaction.parentId,
+        gateway: transaction.gateway,
+        kind: "REFUND",
+        amount: formatCents(transaction.amountCents),
+      })),
+      currency: CURRENCY_CODE,
+    },
+  });
+
+  if (errors || !data?.refundCreate) {
+    console.error("Refund creation failed:", errors);
+    return { error: "Shopify did not confirm the refund" };
+  }
+  const { refund, userErrors } = data.refundCreate;
+  if (userErrors.length > 0 || !refund) {
+    console.error("Refund user errors:", userErrors);
+    return {
+      error: userErrors.map((userError) => userError.message).join(", "),
+    };
+  }
+  return { refundId: refund.id };
+}
+
+interface CreatedExchangeOrder {
+  id: string;
+  name: string;
+  lineItems: { nodes: Array<{ id: string }> };
+}
+
+// New order for the variants given in exchange. The value of the returned
+// items is booked as an exchange credit payment and anything on top with the
+// method the customer paid by.
+export async function createExchangeOrder(input: {
+  originalOrder: ReturnableOrder;
+  staff: StaffMember;
+  // Event the exchange is made at
+  event: EventProfile;
+  reason: string;
+  lines: Array<{ variantId: string; quantity: number; unitPriceCents: number }>;
+  creditCents: number;
+  dueCents: number;
+  paymentMethod?: PaymentMethod;
+  // Of the return, so a retry finds the exchange instead of creating another
+  idempotencyKey: string;
+}): Promise<{ order: CreatedExchangeOrder } | { error: string }> {
+  const query = `
+    mutation ExchangeOrderCreate(
+      $options: OrderCreateOptionsInput
+      $order: OrderCreateOrderInput!
+    ) {
+      orderCreate(options: $options, order: $order) {
+        order {
+          id
+          name
+          lineItems(first: 100) {
+            nodes {
+              id
+            }
+          }
+        }
+        userErrors {
+          field
+          message
+        }
+      }
+    }
+  `;
+
+  const payments = [
+    { gateway: EXCHANGE_CREDIT_GATEWAY, amountCents: input.creditCents },
+    ...(input.paymentMethod
+      ? [
+          {
+            gateway: PAYMENT_METHODS[input.paymentMethod].gateway,
+            amountCents: input.dueCents,
+          },
+        ]
+      : []),
+  ].filter((payment) => payment.amountCents > 0);
+
+  const { data, errors } = await shopifyGraphQL<{
+    orderCreate: {
+      order: CreatedExchangeOrder | null;
+      userErrors: ShopifyUserError[];
+    } | null;
+  }>(query, {
+    options: {
+      inventoryBehaviour: "DECREMENT_OBEYING_POLICY",
+      sendReceipt: true,
+    },
+    order: {
+      currency: CURRENCY_CODE,
+      email: input.originalOrder.email,
+      financialStatus: "PAID",
+      lineItems: input.lines.map((line) => ({
+        variantId: line.variantId,
+        quantity: line.quantity,
+        priceSet: {
+          shopMoney: {
+            amount: formatCents(line.unitPriceCents),
+            currencyCode: CURRENCY_CODE,
+          },
+        },
+        // Exchanges are handed over at the stand
+        requiresShipping: false,
+      })),
+      note: `Cambio ${input.event.name} (${input.originalOrder.name})`,
+      tags: [
+        eventTag(input.event.id),
+        ...input.event.tags,
+        staffTag(input.staff.id),
+        idempotencyTag(input.idempotencyKey),
+        "Exchange",
+      ],
+      customAttributes: [
+        { key: "Staff", value: input.staff.name },
+        { key: "Exchange for", value: input.originalOrder.name },
+        { key: "Reason", value: input.reason },
+      ],
+      taxesIncluded: true,
+      transactions: payments.map((payment) => ({
+        amountSet: {
+          shopMoney: {
+            amount: formatCents(payment.amountCents),
+            currencyCode: CURRENCY_CODE,
+          },
+        },
+        kind: "SALE",
+        gateway: payment.gateway,
+        status: "SUCCESS",
+      })),
+    },
+  });
+
+  if (errors || !data?.orderCreate) {
+    console.error("Exchange order creation failed:", errors);
+    return { error: "Shopify did not confirm the exchange order" };
+  }
+  const { order, userErrors } = data.orderCreate;
+  if (userErrors.length > 0 || !order) {
+    console.error("Exchange order user errors:", userErrors);
+    return {
+      error: userErrors.map((userError) => userError.message).join(", "),
+    };
+  }
+  return { order };
+}
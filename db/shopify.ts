@@ -0,0 +1,39 @@
+import "server-only";
+import { getConfig } from "@/lib/config";
+
+const createSession = (): RequestInit => {
+  const { shopify } = getConfig();
+
+  return {
+    headers: {
+      "X-Shopify-Access-Token": shopify.accessToken,
+      "Content-Type": "application/json",
+    },
+  };
+};
+
+export interface ShopifyGraphQLResponse<T> {
+  data?: T;
+  errors?: Array<{ message: string; path?: string[] }>;
+}
+
+// Sends a query to the Admin GraphQL API. GraphQL errors are returned to the
+// caller, transport failures are thrown.
+export async function shopifyGraphQL<T>(
+  query: string,
+  variables?: Record<string, unknown>
+): Promise<ShopifyGraphQLResponse<T>> {
+  const session = createSession();
+
+  const response = await fetch(getConfig().shopify.graphqlUrl, {
+    method: "POST",
+    headers: session.headers,
+    body: JSON.stringify({ query, variables }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  return response.json();
+}
@@ -0,0 +1,8 @@
+// Runs once when the server boots: validate the configuration up front so a
+// missing or invalid setting fails the deploy instead of the first order.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { getConfig } = await import("./lib/config");
+    getConfig();
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  createAttemptLimiter,
+  describeLockout,
+  getLockoutEnd,
+} from "./attempts";
+
+const limits = { maxFailures: 3, windowMs: 60_000, lockoutMs: 300_000 };
+
+describe("createAttemptLimiter", () => {
+  it("locks a key after too many failures within the window", () => {
+    const limiter = createAttemptLimiter(limits);
+    limiter.recordFailure("staff:ana", 0);
+    limiter.recordFailure("staff:ana", 1_000);
+    expect(limiter.getLockedUntil("staff:ana", 2_000)).toBeNull();
+
+    limiter.recordFailure("staff:ana", 2_000);
+    expect(limiter.getLockedUntil("staff:ana", 2_000)).toBe(302_000);
+    expect(limiter.getLockedUntil("staff:luis", 2_000)).toBeNull();
+  });
+
+  it("forgets failures older than the window", () => {
+    const limiter = createAttemptLimiter(limits);
+    limiter.recordFailure("client", 0);
+    limiter.recordFailure("client", 1_000);
+    limiter.recordFailure("client", 61_500);
+    expect(limiter.getLockedUntil("client", 61_500)).toBeNull();
+  });
+
+  it("unlocks once the lockout has passed", () => {
+    const limiter = createAttemptLimiter(limits);
+    for (const at of [0, 1, 2]) limiter.recordFailure("client", at);
+    expect(limiter.getLockedUntil("client", 300_001)).toBe(300_002);
+    expect(limiter.getLockedUntil("client", 300_002)).toBeNull();
+  });
+
+  it("clears failures and lockouts on reset", () => {
+    const limiter = createAttemptLimiter(limits);
+    for (const at of [0, 1, 2]) limiter.recordFailure("staff:ana", at);
+    limiter.reset("staff:ana");
+    expect(limiter.getLockedUntil("staff:ana", 3)).toBeNull();
+  });
+});
+
+describe("getLockoutEnd", () => {
+  it("returns the latest lockout among the keys", () => {
+    const limiter = createAttemptLimiter(limits);
+    for (const at of [0, 1, 2]) limiter.recordFailure("a", at);
+    for (const at of [10, 11, 12]) limiter.recordFailure("b", at);
+    expect(getLockoutEnd(limiter, ["a", "b", "c"], 20)).toBe(300_012);
+    expect(getLockoutEnd(limiter, ["c"], 20)).toBeNull();
+  });
+});
+
+describe("describeLockout", () => {
+  it("rounds the wait up to whole minutes", () => {
+    expect(describeLockout(90_000, 0)).toBe(
+      "Too many wrong PINs. Try again in 2 minutes."
+    );
+    expect(describeLockout(1_000, 0)).toBe(
+      "Too many wrong PINs. Try again in 1 minute."
+    );
+  });
+});
@@ -0,0 +1,71 @@
+// Counts failed PIN attempts per key (a staff member, a client, a session) so
+// short numeric PINs cannot be guessed by trying them all. Kept in memory:
+// a restart clears it, which still leaves guessing far too slow to pay off.
+
+export interface AttemptLimits {
+  // Failures allowed within `windowMs` before the key is locked
+  maxFailures: number;
+  windowMs: number;
+  lockoutMs: number;
+}
+
+export interface AttemptLimiter {
+  // When the key's lockout ends, or null when it is not locked
+  getLockedUntil(key: string, now?: number): number | null;
+  recordFailure(key: string, now?: number): void;
+  reset(key: string): void;
+}
+
+export function createAttemptLimiter(limits: AttemptLimits): AttemptLimiter {
+  const failures = new Map<string, number[]>();
+  const lockedUntil = new Map<string, number>();
+
+  return {
+    getLockedUntil(key, now = Date.now()) {
+      const until = lockedUntil.get(key);
+      if (until === undefined) return null;
+      if (until <= now) {
+        lockedUntil.delete(key);
+        return null;
+      }
+      return until;
+    },
+
+    recordFailure(key, now = Date.now()) {
+      const recent = (failures.get(key) ?? []).filter(
+        (failedAt) => now - failedAt < limits.windowMs
+      );
+      recent.push(now);
+      if (recent.length >= limits.maxFailures) {
+        lockedUntil.set(key, now + limits.lockoutMs);
+        failures.delete(key);
+      } else {
+        failures.set(key, recent);
+      }
+    },
+
+    reset(key) {
+      failures.delete(key);
+      lockedUntil.delete(key);
+    },
+  };
+}
+
+// Latest lockout among the keys, or null when none of them is locked
+export function getLockoutEnd(
+  limiter: AttemptLimiter,
+  keys: string[],
+  now = Date.now()
+): number | null {
+  const ends = keys
+    .map((key) => limiter.getLockedUntil(key, now))
+    .filter((until): until is number => until !== null);
+  return ends.length > 0 ? Math.max(...ends) : null;
+}
+
+export function describeLockout(lockedUntil: number, now = Date.now()) {
+  const minutes = Math.max(1, Math.ceil((lockedUntil - now) / 60_000));
+  return `Too many wrong PINs. Try again in ${minutes} minute${
+    minutes === 1 ? "" : "s"
+  }.`;
+}
@@ -0,0 +1,244 @@
+import "server-only";
+import { createHash, createHmac, scryptSync, timingSafeEqual } from "crypto";
+import { cookies } from "next/headers";
+import {
+  AttemptLimiter,
+  AttemptLimits,
+  createAttemptLimiter,
+  describeLockout,
+  getLockoutEnd,
+} from "./attempts";
+import { StaffAccount, getConfig } from "./config";
+import { ManualDiscount } from "./discounts";
+import { SESSION_COOKIE, verifySessionToken } from "./session";
+import { Permission, StaffMember, hasPermission } from "./staff";
+
+function getStaffAccounts(): StaffAccount[] {
+  return getConfig().staffAccounts;
+}
+
+function toStaffMember({ id, name, role }: StaffAccount): StaffMember {
+  return { id, name, role };
+}
+
+export function listStaff(): StaffMember[] {
+  return getStaffAccounts().map(toStaffMember);
+}
+
+function verifyPin(pin: string, pinHash: string) {
+  const [scheme, salt, hash] = pinHash.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = scryptSync(pin, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export function verifyStaffCredentials(
+  staffId: string,
+  pin: string
+): StaffMember | null {
+  const account = getStaffAccounts().find((staff) => staff.id === staffId);
+  if (!account || !verifyPin(pin, account.pinHash)) {
+    return null;
+  }
+  return toStaffMember(account);
+}
+
+const PIN_ATTEMPT_LIMITS: AttemptLimits = {
+  maxFailures: 5,
+  windowMs: 15 * 60 * 1000,
+  lockoutMs: 15 * 60 * 1000,
+};
+
+// Kept apart so a seller typing wrong approval PINs cannot lock a manager out
+// of signing in
+const signInAttempts = createAttemptLimiter(PIN_ATTEMPT_LIMITS);
+const approvalAttempts = createAttemptLimiter(PIN_ATTEMPT_LIMITS);
+
+export type PinCheck =
+  | { staff: StaffMember; error?: undefined }
+  | { staff: null; error: string };
+
+// Checks a PIN unless any of the keys is locked out. Failures count against
+// every key, but a success only clears the first one (the account), so a
+// client cannot reset its count by signing in to an account it knows.
+function checkPinAttempt(
+  attempts: AttemptLimiter,
+  keys: string[],
+  verify: () => StaffMember | null,
+  wrongPinError: string
+): PinCheck {
+  const lockedUntil = getLockoutEnd(attempts, keys);
+  if (lockedUntil !== null) {
+    console.error("PIN attempt while locked out:", keys.join(", "));
+    return { staff: null, error: describeLockout(lockedUntil) };
+  }
+
+  const staff = verify();
+  if (!staff) {
+    keys.forEach((key) => attempts.recordFailure(key));
+    console.error("Wrong PIN:", keys.join(", "));
+    return { staff: null, error: wrongPinError };
+  }
+  attempts.reset(keys[0]);
+  return { staff };
+}
+
+// `clientId` identifies the device signing in, e.g. its IP address
+export function signInWithPin(
+  staffId: string,
+  pin: string,
+  clientId: string
+): PinCheck {
+  return checkPinAttempt(
+    signInAttempts,
+    [`staff:${staffId}`, `client:${clientId}`],
+    () => verifyStaffCredentials(staffId, pin),
+    "Incorrect staff member or PIN"
+  );
+}
+
+// A manager confirming a discount on a seller's tablet with their own PIN.
+// Wrong PINs count against the manager and against the seller asking.
+export function checkManagerApproval(
+  managerId: string,
+  pin: string,
+  requestedBy: StaffMember
+): PinCheck {
+  return checkPinAttempt(
+    approvalAttempts,
+    [`manager:${managerId}`, `approval-for:${requestedBy.id}`],
+    () => {
+      const manager = verifyStaffCredentials(managerId, pin);
+      return manager && hasPermission(manager, "discounts:approve")
+        ? manager
+        : null;
+    },
+    "Manager PIN not recognised"
+  );
+}
+
+// Long enough to finish the checkout; an order queued offline for longer
+// needs the discount approved again
+const APPROVAL_TOKEN_MAX_AGE_SECONDS = 15 * 60;
+
+// What the manager approved: the discount as entered, for one checkout
+export interface ApprovalSubject {
+  discount: Omit<ManualDiscount, "approval">;
+  idempotencyKey: string;
+}
+
+interface ApprovalPayload {
+  managerId: string;
+  // Seller the approval was given to
+  staffId: string;
+  // Hash of the ApprovalSubject, so the token cannot be moved to a larger
+  // discount or to another order
+  subject: string;
+  exp: number;
+}
+
+function hashApprovalSubject({ discount, idempotencyKey }: ApprovalSubject) {
+  const { variantId, value, reason } = discount;
+  const amount =
+    value.type === "percentage" ? value.percentage : value.amountCents;
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        variantId ?? null,
+        value.type,
+        amount,
+        reason.trim(),
+        idempotencyKey,
+      ])
+    )
+    .digest("base64url");
+}
+
+function signApproval(body: string) {
+  return createHmac("sha256", getConfig().sessionSecret)
+    .update(`approval:${body}`)
+    .digest("base64url");
+}
+
+// Stands in for the manager's PIN on the order, so the PIN is never kept on
+// the tablet or sent again
+export function createApprovalToken(
+  manager: StaffMember,
+  requestedBy: StaffMember,
+  subject: ApprovalSubject
+) {
+  const payload: ApprovalPayload = {
+    managerId: manager.id,
+    staffId: requestedBy.id,
+    subject: hashApprovalSubject(subject),
+    exp: Math.floor(Date.now() / 1000) + APPROVAL_TOKEN_MAX_AGE_SECONDS,
+  };
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${body}.${signApproval(body)}`;
+}
+
+// The approving manager, or null when the token is forged, expired, was given
+// to another seller or for another discount or checkout, or the manager can
+// no longer approve discounts
+export function verifyApprovalToken(
+  token: string,
+  requestedBy: StaffMember,
+  subject: ApprovalSubject
+): StaffMember | null {
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(signApproval(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload: ApprovalPayload = JSON.parse(
+      Buffer.from(body, "base64url").toString("utf8")
+    );
+    if (
+      payload.exp < Date.now() / 1000 ||
+      payload.staffId !== requestedBy.id ||
+      payload.subject !== hashApprovalSubject(subject)
+    ) {
+      return null;
+    }
+    const manager = listStaff().find((staff) => staff.id === payload.managerId);
+    return manager && hasPermission(manager, "discounts:approve")
+      ? manager
+      : null;
+  } catch (error) {
+    console.error("Invalid approval token:", error);
+    return null;
+  }
+}
+
+// Resolves the signed-in staff member, re-reading the account so that removed
+// staff or changed roles take effect before the session cookie expires
+export async function getCurrentStaff(): Promise<StaffMember | null> {
+  const cookieStore = await cookies();
+  const session = await verifySessionToken(
+    cookieStore.get(SESSION_COOKIE)?.value
+  );
+  if (!session) return null;
+
+  const account = getStaffAccounts().find((staff) => staff.id === session.id);
+  return account ? toStaffMember(account) : null;
+}
+
+export async function requireStaff(
+  permission?: Permission
+): Promise<StaffMember> {
+  const staff = await getCurrentStaff();
+  if (!staff) {
+    throw new Error("Not signed in");
+  }
+  if (permission && !hasPermission(staff, permission)) {
+    throw new Error(`${staff.name} is not allowed to do this (${permission})`);
+  }
+  return staff;
+}
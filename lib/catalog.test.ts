@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import {
+  CatalogVariant,
+  ShopifyProduct,
+  filterProducts,
+  findVariantByCode,
+  getFacetSelection,
+  getFacetValues,
+} from "./catalog";
+
+function variant(
+  id: number,
+  options: Record<string, string>,
+  overrides: Partial<CatalogVariant> = {}
+): CatalogVariant {
+  return {
+    id: `gid://shopify/ProductVariant/${id}`,
+    price: "29.90",
+    title: Object.values(options).join(" / "),
+    inventoryQuantity: 1,
+    warehouseQuantity: 0,
+    inventoryItem: { id: `gid://shopify/InventoryItem/${id}` },
+    sku: null,
+    barcode: null,
+    selectedOptions: Object.entries(options).map(([name, value]) => ({
+      name,
+      value,
+    })),
+    ...overrides,
+  };
+}
+
+function product(
+  id: number,
+  title: string,
+  variants: CatalogVariant[]
+): ShopifyProduct {
+  return {
+    id: `gid://shopify/Product/${id}`,
+    title,
+    handle: title.toLowerCase().replace(/\s+/g, "-"),
+    description: "",
+    productType: "",
+    tags: [],
+    collections: { edges: [] },
+    images: { edges: [] },
+    variants: { edges: variants.map((node) => ({ node })) },
+  };
+}
+
+const tShirt = product(1, "T-shirt", [
+  variant(11, { Size: "S" }, { sku: "TS-S", barcode: "8400000000011" }),
+  variant(12, { Size: "M" }, { sku: "TS-M", barcode: "8400000000012" }),
+]);
+const tote = product(2, "Tote bag", [
+  variant(21, { Title: "Default Title" }, { sku: "TOTE" }),
+]);
+
+describe("findVariantByCode", () => {
+  it("finds a variant by its barcode", () => {
+    expect(findVariantByCode([tShirt, tote], "8400000000012")).toEqual({
+      product: tShirt,
+      variant: tShirt.variants.edges[1].node,
+    });
+  });
+
+  it("finds a variant by its SKU, ignoring case and spaces", () => {
+    expect(findVariantByCode([tShirt, tote], " tote ")?.variant.id).toBe(
+      "gid://shopify/ProductVariant/21"
+    );
+  });
+
+  it("reads the variant id from a product URL", () => {
+    expect(
+      findVariantByCode(
+        [tShirt, tote],
+        "https://shop.example.com/products/t-shirt?variant=11"
+      )?.variant.sku
+    ).toBe("TS-S");
+  });
+
+  it("returns null for unknown or empty codes", () => {
+    expect(findVariantByCode([tShirt, tote], "0000")).toBeNull();
+    expect(findVariantByCode([tShirt, tote], "  ")).toBeNull();
+    expect(
+      findVariantByCode([tShirt], "https://shop.example.com/p?variant=99")
+    ).toBeNull();
+  });
+});
+
+describe("catalog facets", () => {
+  const dress = product(3, "Dress", [
+    variant(31, { Talla: "M", Color: "Negro" }),
+    variant(32, { Talla: "L", Color: "Rojo" }, { inventoryQuantity: 0 }),
+    variant(
+      33,
+      { Talla: "XL", Color: "Rojo" },
+      { inventoryQuantity: 0, warehouseQuantity: 2 }
+    ),
+  ]);
+
+  it("lists the sizes and colours in stock, whatever the option is called", () => {
+    expect(getFacetValues([tShirt, dress], "size")).toEqual(["S", "M", "XL"]);
+    expect(getFacetValues([tShirt, dress], "colour")).toEqual([
+      "Negro",
+      "Rojo",
+    ]);
+  });
+
+  it("presets the matching options of a product", () => {
+    expect(getFacetSelection(dress, { size: "M", colour: "Azul" })).toEqual({
+      Talla: "M",
+    });
+    expect(getFacetSelection(tote, { size: "M" })).toEqual({});
+  });
+
+  it("keeps products with a variant in stock in the size and colour", () => {
+    const products = [tShirt, dress, tote];
+
+    expect(filterProducts(products, { search: "", size: "M" })).toEqual([
+      tShirt,
+      dress,
+    ]);
+    expect(
+      filterProducts(products, { search: "", size: "L", colour: "Rojo" })
+    ).toEqual([]);
+    expect(
+      filterProducts(products, { search: "", size: "XL", colour: "Rojo" })
+    ).toEqual([dress]);
+  });
+});
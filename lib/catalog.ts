@@ -0,0 +1,231 @@
+// Catalog shape sent to the order form. Connections keep Shopify's edges
+// layout, but every page of variants has already been fetched: nothing is
+// truncated. Collections are the first few a product is in.
+
+export interface CatalogVariant {
+  id: string;
+  price: string;
+  title: string;
+  // Available at the pop-up location (or everywhere when none is configured)
+  inventoryQuantity: number;
+  // Available at the other locations, sold for shipping once the pop-up has
+  // none left. Always 0 without a pop-up location.
+  warehouseQuantity: number;
+  inventoryItem: { id: string };
+  sku: string | null;
+  barcode: string | null;
+  // e.g. [{ name: "Color", value: "Black" }, { name: "Size", value: "M" }]
+  selectedOptions: Array<{ name: string; value: string }>;
+}
+
+export interface ShopifyProduct {
+  id: string;
+  title: string;
+  handle: string;
+  description: string;
+  productType: string;
+  tags: string[];
+  collections: {
+    edges: Array<{
+      node: { id: string; title: string };
+    }>;
+  };
+  images: {
+    edges: Array<{
+      node: {
+        url: string;
+        src: string;
+      };
+    }>;
+  };
+  variants: {
+    edges: Array<{
+      node: CatalogVariant;
+    }>;
+  };
+  image?: {
+    src: string;
+  };
+}
+
+// Variant for a scanned code: its barcode, its SKU, or a QR code holding a
+// product URL with ?variant=<id> (as printed on Shopify labels)
+export function findVariantByCode(
+  products: ShopifyProduct[],
+  code: string
+): { product: ShopifyProduct; variant: CatalogVariant } | null {
+  const scanned = code.trim();
+  if (!scanned) return null;
+
+  const variantId = scanned.match(/[?&]variant=(\d+)/)?.[1];
+  const matches = (variant: CatalogVariant) =>
+    variantId
+      ? variant.id === `gid://shopify/ProductVariant/${variantId}`
+      : variant.barcode === scanned ||
+        variant.sku?.toUpperCase() === scanned.toUpperCase();
+
+  for (const product of products) {
+    const match = product.variants.edges.find(({ node }) => matches(node));
+    if (match) return { product, variant: match.node };
+  }
+  return null;
+}
+
+export type OptionSelection = Record<string, string>;
+
+// Sellable at the pop-up or, for shipping, from the warehouse
+export function isInStock(variant: CatalogVariant) {
+  return variant.inventoryQuantity > 0 || variant.warehouseQuantity > 0;
+}
+
+// Option names used for the size and colour filters, in the languages the
+// store has used for them
+const FACET_OPTION_NAMES = {
+  size: ["size", "talla", "taille", "taglia"],
+  colour: ["color", "colour", "couleur", "colore"],
+};
+
+export type Facet = keyof typeof FACET_OPTION_NAMES;
+
+function isFacetOption(facet: Facet, optionName: string) {
+  return FACET_OPTION_NAMES[facet].includes(optionName.trim().toLowerCase());
+}
+
+// Options of the product in the order Shopify lists them, with their values
+// in variant order. Products without variants to choose from have none.
+export function getProductOptions(
+  product: ShopifyProduct
+): Array<{ name: string; values: string[] }> {
+  const options = new Map<string, string[]>();
+  for (const { node } of product.variants.edges) {
+    for (const { name, value } of node.selectedOptions) {
+      const values = options.get(name) ?? [];
+      if (!values.includes(value)) values.push(value);
+      options.set(name, values);
+    }
+  }
+  if (product.variants.edges.length <= 1) return [];
+  return [...options].map(([name, values]) => ({ name, values }));
+}
+
+export function matchesOptions(
+  variant: CatalogVariant,
+  selection: OptionSelection
+) {
+  return Object.entries(selection).every(([name, value]) =>
+    variant.selectedOptions.some(
+      (option) => option.name === name && option.value === value
+    )
+  );
+}
+
+// Value of the size or colour option, whatever the store named it
+export function getFacetValue(variant: CatalogVariant, facet: Facet) {
+  return (
+    variant.selectedOptions.find((option) => isFacetOption(facet, option.name))
+      ?.value ?? null
+  );
+}
+
+// Sizes and colours of the variants in stock, for the filters
+export function getFacetValues(
+  products: ShopifyProduct[],
+  facet: Facet
+): string[] {
+  const values: string[] = [];
+  for (const product of products) {
+    for (const { node } of product.variants.edges) {
+      const value = getFacetValue(node, facet);
+      if (value && isInStock(node) && !values.includes(value)) {
+        values.push(value);
+      }
+    }
+  }
+  return values;
+}
+
+// The product's options preset from the size/colour filters, so filtering by
+// "M" opens each product with M already picked
+export function getFacetSelection(
+  product: ShopifyProduct,
+  facets: Partial<Record<Facet, string>>
+): OptionSelection {
+  const selection: OptionSelection = {};
+  for (const option of getProductOptions(product)) {
+    for (const [facet, value] of Object.entries(facets) as Array<
+      [Facet, string | undefined]
+    >) {
+      if (
+        value &&
+        isFacetOption(facet, option.name) &&
+        option.values.includes(value)
+      ) {
+        selection[option.name] = value;
+      }
+    }
+  }
+  return selection;
+}
+
+export function getCollections(
+  products: ShopifyProduct[]
+): Array<{ id: string; title: string }> {
+  const collections = new Map<string, string>();
+  for (const product of products) {
+    for (const { node } of product.collections.edges) {
+      collections.set(node.id, node.title);
+    }
+  }
+  return [...collections]
+    .map(([id, title]) => ({ id, title }))
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+export interface ProductFilter {
+  // Matches the title, product type, tags, SKUs and barcodes
+  search: string;
+  collectionId?: string;
+  size?: string;
+  colour?: string;
+}
+
+// Products with a variant in stock that matches the filter
+export function filterProducts(
+  products: ShopifyProduct[],
+  filter: ProductFilter
+): ShopifyProduct[] {
+  const search = filter.search.trim().toLowerCase();
+
+  return products.filter((product) => {
+    if (
+      filter.collectionId &&
+      !product.collections.edges.some(
+        ({ node }) => node.id === filter.collectionId
+      )
+    ) {
+      return false;
+    }
+
+    const variants = product.variants.edges
+      .map(({ node }) => node)
+      .filter(
+        (variant) =>
+          isInStock(variant) &&
+          (!filter.size || getFacetValue(variant, "size") === filter.size) &&
+          (!filter.colour || getFacetValue(variant, "colour") === filter.colour)
+      );
+    if (variants.length === 0) return false;
+    if (!search) return true;
+
+    return (
+      product.title.toLowerCase().includes(search) ||
+      product.productType.toLowerCase().includes(search) ||
+      product.tags.some((tag) => tag.toLowerCase().includes(search)) ||
+      variants.some(
+        (variant) =>
+          variant.sku?.toLowerCase().includes(search) ||
+          variant.barcode === search
+      )
+    );
+  });
+}
@@ -0,0 +1,200 @@
+import "server-only";
+import path from "node:path";
+import { z } from "zod";
+import { DEFAULT_SHIPPING_RATES, ShippingRate } from "./shipping";
+
+// Server-only settings. Nothing here may use a NEXT_PUBLIC_ variable: Next.js
+// inlines those into the client bundle.
+
+const staffAccountSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  role: z.enum(["seller", "manager"]),
+  pinHash: z
+    .string()
+    .regex(/^scrypt:[0-9a-f]+:[0-9a-f]+$/, "must be generated by hash-pin"),
+});
+
+export type StaffAccount = z.infer<typeof staffAccountSchema>;
+
+const jsonString = z.string().transform((value, ctx) => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "must be valid JSON",
+    });
+    return z.NEVER;
+  }
+});
+
+function isTimeZone(value: string) {
+  try {
+    new Intl.DateTimeFormat("en-CA", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const zonePricesSchema = z
+  .object({
+    peninsula: z.number().int().nonnegative(),
+    baleares: z.number().int().nonnegative(),
+    canarias: z.number().int().nonnegative(),
+    ceuta_melilla: z.number().int().nonnegative(),
+    europe: z.number().int().nonnegative(),
+    united_kingdom: z.number().int().nonnegative(),
+  })
+  .partial();
+
+const shippingRateSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string(),
+  pickup: z.boolean(),
+  zonePrices: zonePricesSchema,
+  freeAboveCents: zonePricesSchema.optional(),
+});
+
+const envSchema = z.object({
+  SHOPIFY_SHOP_URL: z
+    .string({ required_error: "is required" })
+    .url("must be a URL like https://your-store.myshopify.com")
+    .transform((url) => url.replace(/\/+$/, "")),
+  SHOPIFY_ACCESS_TOKEN: z
+    .string({ required_error: "is required" })
+    .min(1, "is required"),
+  SHOPIFY_API_VERSION: z
+    .string()
+    .regex(/^\d{4}-\d{2}$/, "must look like 2025-01")
+    .default("2025-01"),
+  SHOPIFY_LOCATION_ID: z
+    .string()
+    .startsWith("gid://shopify/Location/", "must be a Location GID")
+    .optional(),
+  SHOPIFY_PUBLICATION_ID: z
+    .string()
+    .startsWith("gid://shopify/Publication/", "must be a Publication GID")
+    .optional(),
+  SHOPIFY_WEBHOOK_SECRET: z.string().optional(),
+  CATALOG_CACHE_TTL_SECONDS: z.coerce
+    .number()
+    .int("must be a whole number of seconds")
+    .positive("must be greater than zero")
+    .default(300),
+  DATA_DIR: z.string().default(".data"),
+  SHOP_TIMEZONE: z
+    .string()
+    .refine(isTimeZone, "must be an IANA time zone like Europe/Madrid")
+    .default("Europe/Madrid"),
+  SHIPPING_RATES: jsonString
+    .pipe(z.array(shippingRateSchema).min(1, "must list at least one rate"))
+    .optional(),
+  DEFAULT_SHIPPING_RATE_ID: z.string().default("standard"),
+  SESSION_SECRET: z
+    .string({ required_error: "is required" })
+    .min(32, "must be at least 32 characters"),
+  STAFF_ACCOUNTS: jsonString.pipe(
+    z.array(staffAccountSchema).min(1, "must list at least one staff member")
+  ),
+});
+
+export interface AppConfig {
+  shopify: {
+    shopUrl: string;
+    accessToken: string;
+    apiVersion: string;
+    graphqlUrl: string;
+    locationId?: string;
+    // Sales channel whose products are sold at the pop-up
+    publicationId?: string;
+    // Signs webhooks; webhooks are rejected when it is not set
+    webhookSecret?: string;
+  };
+  catalog: {
+    cacheTtlMs: number;
+  };
+  // Directory for files the server keeps between restarts
+  dataDir: string;
+  // Where the pop-up is held; days in orders and reports run in this zone
+  timeZone: string;
+  shipping: {
+    rates: ShippingRate[];
+    defaultRateId: string;
+  };
+  sessionSecret: string;
+  staffAccounts: StaffAccount[];
+}
+
+function loadConfig(): AppConfig {
+  // Treat blank entries such as `SHOPIFY_LOCATION_ID=` as unset
+  const env = Object.fromEntries(
+    Object.entries(process.env).filter(([, value]) => value !== "")
+  );
+  const result = envSchema.safeParse(env);
+  if (!result.success) {
+    const problems = result.error.issues
+      .map((issue) => `  - ${issue.path.join(".")}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid server configuration:\n${problems}`);
+  }
+
+  const settings = result.data;
+
+  // Refuse to start if the Admin token is also exposed to the browser
+  const leakedVariables = Object.keys(process.env).filter(
+    (key) =>
+      key.startsWith("NEXT_PUBLIC_") &&
+      process.env[key] === settings.SHOPIFY_ACCESS_TOKEN
+  );
+  if (leakedVariables.length > 0) {
+    throw new Error(
+      `Invalid server configuration: the Shopify access token is exposed to the client through ${leakedVariables.join(
+        ", "
+      )}. Remove it and use SHOPIFY_ACCESS_TOKEN only.`
+    );
+  }
+
+  const shippingRates = settings.SHIPPING_RATES ?? DEFAULT_SHIPPING_RATES;
+  if (
+    !shippingRates.some((rate) => rate.id === settings.DEFAULT_SHIPPING_RATE_ID)
+  ) {
+    throw new Error(
+      `Invalid server configuration:\n  - DEFAULT_SHIPPING_RATE_ID: "${settings.DEFAULT_SHIPPING_RATE_ID}" is not one of the shipping rates`
+    );
+  }
+
+  return {
+    shopify: {
+      shopUrl: settings.SHOPIFY_SHOP_URL,
+      accessToken: settings.SHOPIFY_ACCESS_TOKEN,
+      apiVersion: settings.SHOPIFY_API_VERSION,
+      graphqlUrl: `${settings.SHOPIFY_SHOP_URL}/admin/api/${settings.SHOPIFY_API_VERSION}/graphql.json`,
+      locationId: settings.SHOPIFY_LOCATION_ID,
+      publicationId: settings.SHOPIFY_PUBLICATION_ID,
+      webhookSecret: settings.SHOPIFY_WEBHOOK_SECRET,
+    },
+    catalog: {
+      cacheTtlMs: settings.CATALOG_CACHE_TTL_SECONDS * 1000,
+    },
+    dataDir: path.resolve(settings.DATA_DIR),
+    timeZone: settings.SHOP_TIMEZONE,
+    shipping: {
+      rates: shippingRates,
+      defaultRateId: settings.DEFAULT_SHIPPING_RATE_ID,
+    },
+    sessionSecret: settings.SESSION_SECRET,
+    staffAccounts: settings.STAFF_ACCOUNTS,
+  };
+}
+
+let config: AppConfig | null = null;
+
+export function getConfig(): AppConfig {
+  if (!config) {
+    config = loadConfig();
+  }
+  return config;
+}
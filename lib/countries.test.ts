@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  getAddressProblem,
+  isCountryCode,
+  resolveCountryProvinceCode,
+} from "./countries";
+
+describe("isCountryCode", () => {
+  it("accepts only the countries the pop-up ships to", () => {
+    expect(isCountryCode("PT")).toBe(true);
+    expect(isCountryCode("DE")).toBe(false);
+  });
+});
+
+describe("resolveCountryProvinceCode", () => {
+  it("uses the Spanish postal code when no province is given", () => {
+    expect(
+      resolveCountryProvinceCode("ES", { zip: "08001", city: "Barcelona" })
+    ).toBe("B");
+  });
+
+  it("looks the province up in the country's table", () => {
+    expect(
+      resolveCountryProvinceCode("IT", {
+        province: "Città Metropolitana di Milano",
+        zip: "20121",
+        city: "Milano",
+      })
+    ).toBe("MI");
+    expect(
+      resolveCountryProvinceCode("PT", { zip: "1100-148", city: "Lisboa" })
+    ).toBeNull();
+  });
+
+  it("returns null for countries without provinces", () => {
+    expect(
+      resolveCountryProvinceCode("FR", {
+        province: "Île-de-France",
+        zip: "75001",
+        city: "Paris",
+      })
+    ).toBeNull();
+  });
+});
+
+describe("getAddressProblem", () => {
+  it("accepts valid addresses", () => {
+    expect(
+      getAddressProblem("ES", { zip: "28001", provinceCode: "M" })
+    ).toBeNull();
+    expect(
+      getAddressProblem("GB", { zip: "sw1a 1aa", provinceCode: null })
+    ).toBeNull();
+  });
+
+  it("rejects postal codes that do not fit the country", () => {
+    expect(
+      getAddressProblem("PT", { zip: "1100148", provinceCode: "PT-11" })
+    ).toEqual({
+      field: "zip",
+      message: "Enter a valid postal code for Portugal (e.g. 1100-148)",
+    });
+  });
+
+  it("asks for a province where the country needs one", () => {
+    expect(
+      getAddressProblem("PT", { zip: "1100-148", provinceCode: null })
+    ).toEqual({ field: "province", message: "Select a district" });
+  });
+
+  it("rejects a Spanish postal code from another province", () => {
+    expect(
+      getAddressProblem("ES", { zip: "08001", provinceCode: "M" })
+    ).toEqual({
+      field: "zip",
+      message: "Postal code 08001 is not in Madrid",
+    });
+  });
+});
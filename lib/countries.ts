@@ -0,0 +1,132 @@
+import {
+  ITALIAN_PROVINCES,
+  PORTUGUESE_PROVINCES,
+  SPANISH_PROVINCES,
+  findProvinceCode,
+  getProvinceCodeFromZip,
+  resolveProvinceCode,
+} from "./provinces";
+
+// Countries the pop-up ships to
+export type CountryCode = "ES" | "PT" | "FR" | "IT" | "GB";
+
+export interface Country {
+  code: CountryCode;
+  name: string;
+  zipPattern: RegExp;
+  zipExample: string;
+  // Countries where Shopify needs a province code on the address
+  provinces?: Array<{ code: string; name: string }>;
+  provinceLabel?: string;
+  // Google Places address component that holds the province
+  provinceComponent?:
+    | "administrative_area_level_1"
+    | "administrative_area_level_2";
+}
+
+export const DEFAULT_COUNTRY_CODE: CountryCode = "ES";
+
+export const COUNTRIES: Record<CountryCode, Country> = {
+  ES: {
+    code: "ES",
+    name: "Spain",
+    zipPattern: /^\d{5}$/,
+    zipExample: "28001",
+    provinces: SPANISH_PROVINCES,
+    provinceLabel: "Province",
+    provinceComponent: "administrative_area_level_2",
+  },
+  PT: {
+    code: "PT",
+    name: "Portugal",
+    zipPattern: /^\d{4}-\d{3}$/,
+    zipExample: "1100-148",
+    provinces: PORTUGUESE_PROVINCES,
+    provinceLabel: "District",
+    provinceComponent: "administrative_area_level_1",
+  },
+  FR: {
+    code: "FR",
+    name: "France",
+    zipPattern: /^\d{5}$/,
+    zipExample: "75001",
+  },
+  IT: {
+    code: "IT",
+    name: "Italy",
+    zipPattern: /^\d{5}$/,
+    zipExample: "20121",
+    provinces: ITALIAN_PROVINCES,
+    provinceLabel: "Province",
+    provinceComponent: "administrative_area_level_2",
+  },
+  GB: {
+    code: "GB",
+    name: "United Kingdom",
+    zipPattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/,
+    zipExample: "SW1A 1AA",
+  },
+};
+
+export function isCountryCode(value: string): value is CountryCode {
+  return Object.keys(COUNTRIES).includes(value);
+}
+
+export function normalizeZip(zip: string) {
+  return zip.trim().toUpperCase();
+}
+
+// Province code Shopify expects for the address, or null when it cannot be
+// worked out (or the country has no provinces)
+export function resolveCountryProvinceCode(
+  countryCode: CountryCode,
+  address: { province?: string; zip: string; city: string }
+): string | null {
+  if (countryCode === "ES") return resolveProvinceCode(address);
+
+  const { provinces } = COUNTRIES[countryCode];
+  if (!provinces || !address.province) return null;
+  return findProvinceCode(provinces, address.province);
+}
+
+// Returns the field that is wrong with the address and why, or null
+export function getAddressProblem(
+  countryCode: CountryCode,
+  address: { zip: string; provinceCode: string | null }
+): { field: "zip" | "province"; message: string } | null {
+  const country = COUNTRIES[countryCode];
+  const zip = normalizeZip(address.zip);
+
+  if (!country.zipPattern.test(zip)) {
+    return {
+      field: "zip",
+      message: `Enter a valid postal code for ${country.name} (e.g. ${country.zipExample})`,
+    };
+  }
+
+  if (country.provinces) {
+    const province = country.provinces.find(
+      (province) => province.code === address.provinceCode
+    );
+    if (!province) {
+      return {
+        field: "province",
+        message: `Select a ${
+          country.provinceLabel?.toLowerCase() ?? "province"
+        }`,
+      };
+    }
+
+    // Spanish postal codes start with the province number
+    const zipProvince =
+      countryCode === "ES" ? getProvinceCodeFromZip(zip) : null;
+    if (zipProvince && zipProvince !== province.code) {
+      return {
+        field: "zip",
+        message: `Postal code ${zip} is not in ${province.name}`,
+      };
+    }
+  }
+
+  return null;
+}
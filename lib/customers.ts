@@ -0,0 +1,54 @@
+import { isCountryCode, resolveCountryProvinceCode } from "./countries";
+import { OrderFormValues } from "./orderSchema";
+
+// Shopify customer found by the lookup in the order form
+export interface CustomerMatch {
+  id: string;
+  displayName: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  phone: string | null;
+  numberOfOrders: number;
+  defaultAddress: {
+    address1: string | null;
+    city: string | null;
+    provinceCode: string | null;
+    countryCodeV2: string | null;
+    zip: string | null;
+  } | null;
+}
+
+// Order form fields filled in from the customer. The address is only used
+// when it is in one of the countries the pop-up ships to.
+export function toOrderFormValues(
+  customer: CustomerMatch
+): Partial<OrderFormValues> {
+  const values: Partial<OrderFormValues> = {
+    firstName: customer.firstName ?? "",
+    lastName: customer.lastName ?? "",
+    email: customer.email ?? "",
+    phone: customer.phone ?? "",
+  };
+
+  const address = customer.defaultAddress;
+  if (!address?.address1 || !address.countryCodeV2) return values;
+  if (!isCountryCode(address.countryCodeV2)) return values;
+
+  const countryCode = address.countryCodeV2;
+  const city = address.city ?? "";
+  const zip = address.zip ?? "";
+  return {
+    ...values,
+    address1: address.address1,
+    city,
+    zip,
+    countryCode,
+    province:
+      resolveCountryProvinceCode(countryCode, {
+        province: address.provinceCode ?? undefined,
+        zip,
+        city,
+      }) ?? "",
+  };
+}
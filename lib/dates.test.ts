@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { getDayStart, getNextDay, getShopDate } from "./dates";
+
+describe("getShopDate", () => {
+  it("uses the shop's day rather than the UTC one", () => {
+    const lateEvening = new Date("2025-06-10T22:30:00Z");
+    expect(getShopDate("Europe/Madrid", lateEvening)).toBe("2025-06-11");
+    expect(getShopDate("UTC", lateEvening)).toBe("2025-06-10");
+  });
+});
+
+describe("getDayStart", () => {
+  it("returns the UTC instant of the shop's midnight", () => {
+    expect(getDayStart("2025-06-11", "Europe/Madrid").toISOString()).toBe(
+      "2025-06-10T22:00:00.000Z"
+    );
+    expect(getDayStart("2025-01-15", "Europe/Madrid").toISOString()).toBe(
+      "2025-01-14T23:00:00.000Z"
+    );
+    expect(getDayStart("2025-01-15", "Atlantic/Canary").toISOString()).toBe(
+      "2025-01-15T00:00:00.000Z"
+    );
+  });
+
+  it("handles the days the clocks change", () => {
+    expect(getDayStart("2025-03-30", "Europe/Madrid").toISOString()).toBe(
+      "2025-03-29T23:00:00.000Z"
+    );
+    expect(getDayStart("2025-10-26", "Europe/Madrid").toISOString()).toBe(
+      "2025-10-25T22:00:00.000Z"
+    );
+  });
+});
+
+describe("getNextDay", () => {
+  it("rolls over months and years", () => {
+    expect(getNextDay("2025-02-28")).toBe("2025-03-01");
+    expect(getNextDay("2025-12-31")).toBe("2026-01-01");
+  });
+});
@@ -0,0 +1,54 @@
+// Calendar days in the shop's time zone. Shopify stores times in UTC, so a
+// day at the pop-up has to be turned into the UTC instants it starts and ends.
+
+// YYYY-MM-DD in the time zone; en-CA formats dates that way
+export function getShopDate(timeZone: string, now = new Date()) {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now);
+}
+
+// Milliseconds the time zone is ahead of UTC at the instant
+function getOffsetMs(timeZone: string, instant: number) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return wallClock - (instant - (instant % 1000));
+}
+
+// UTC instant of midnight at the start of the day (YYYY-MM-DD)
+export function getDayStart(date: string, timeZone: string) {
+  const midnightUtc = Date.parse(`${date}T00:00:00Z`);
+  let instant = midnightUtc - getOffsetMs(timeZone, midnightUtc);
+  // The offset may differ at midnight itself when the clocks changed that day
+  instant = midnightUtc - getOffsetMs(timeZone, instant);
+  return new Date(instant);
+}
+
+export function getNextDay(date: string) {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  CodeDiscount,
+  applyDiscounts,
+  getCodeDiscountProblem,
+  validateDiscountValue,
+} from "./discounts";
+
+const lines = [
+  { variantId: "shirt", quantity: 1, lineTotalCents: 3000 },
+  { variantId: "tote", quantity: 2, lineTotalCents: 2000 },
+];
+
+describe("validateDiscountValue", () => {
+  it("accepts percentages up to 100 and positive whole-cent amounts", () => {
+    expect(
+      validateDiscountValue({ type: "percentage", percentage: 100 })
+    ).toBeNull();
+    expect(validateDiscountValue({ type: "fixed", amountCents: 1 })).toBeNull();
+    expect(validateDiscountValue({ type: "percentage", percentage: 0 })).toBe(
+      "Percentage must be between 0 and 100"
+    );
+    expect(validateDiscountValue({ type: "fixed", amountCents: 1.5 })).toBe(
+      "Discount amount must be greater than zero"
+    );
+  });
+});
+
+describe("getCodeDiscountProblem", () => {
+  const code: CodeDiscount = {
+    code: "BIG",
+    title: "Big spender",
+    value: { type: "fixed", amountCents: 500 },
+    minimumSubtotalCents: 5000,
+    minimumQuantity: 3,
+  };
+
+  it("checks the minimum subtotal and quantity", () => {
+    expect(getCodeDiscountProblem(code, 4999, 3)).toBe(
+      "BIG needs a minimum purchase of €50.00"
+    );
+    expect(getCodeDiscountProblem(code, 5000, 2)).toBe(
+      "BIG needs at least 3 items"
+    );
+    expect(getCodeDiscountProblem(code, 5000, 3)).toBeNull();
+  });
+});
+
+describe("applyDiscounts", () => {
+  it("keeps manual discounts in the order they were given", () => {
+    const applied = applyDiscounts(lines, null, [
+      { reason: "Event", value: { type: "percentage", percentage: 10 } },
+      {
+        variantId: "tote",
+        reason: "Damaged",
+        value: { type: "fixed", amountCents: 500 },
+      },
+    ]);
+
+    expect(applied).toEqual([
+      // 10% of what is left after the tote discount: 5000 - 500
+      { source: "manual", label: "10% · Event", amountCents: 450 },
+      {
+        source: "manual",
+        label: "€5.00 · Damaged",
+        variantId: "tote",
+        amountCents: 500,
+      },
+    ]);
+  });
+
+  it("caps a line discount at the line total", () => {
+    const [applied] = applyDiscounts(lines, null, [
+      {
+        variantId: "tote",
+        reason: "Gift",
+        value: { type: "fixed", amountCents: 9000 },
+      },
+    ]);
+    expect(applied.amountCents).toBe(2000);
+  });
+
+  it("applies the code last to what is left", () => {
+    const applied = applyDiscounts(
+      lines,
+      {
+        code: "POPUP",
+        title: "Pop-up",
+        value: { type: "percentage", percentage: 15 },
+      },
+      [{ reason: "Friend", value: { type: "fixed", amountCents: 1000 } }]
+    );
+    expect(applied.at(-1)).toEqual({
+      source: "code",
+      label: "POPUP",
+      amountCents: 600,
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { formatCents } from "./money";
+
+export type DiscountValue =
+  | { type: "percentage"; percentage: number }
+  | { type: "fixed"; amountCents: number };
+
+// A Shopify discount code, resolved and validated against the store
+export interface CodeDiscount {
+  code: string;
+  title: string;
+  value: DiscountValue;
+  minimumSubtotalCents?: number;
+  minimumQuantity?: number;
+}
+
+// Given by approveManualDiscount once the manager's PIN is checked
+export interface ManagerApproval {
+  managerId: string;
+  token: string;
+}
+
+// A discount given by staff at the stand, which a manager must approve
+export interface ManualDiscount {
+  // Cart line the discount applies to; the whole order when missing
+  variantId?: string;
+  value: DiscountValue;
+  reason: string;
+  // Each discount is approved on its own; not needed when a manager gives it
+  approval?: ManagerApproval;
+}
+
+export interface AppliedDiscount {
+  source: "code" | "manual";
+  label: string;
+  variantId?: string;
+  amountCents: number;
+}
+
+export function describeDiscountValue(value: DiscountValue) {
+  return value.type === "percentage"
+    ? `${value.percentage}%`
+    : `€${formatCents(value.amountCents)}`;
+}
+
+// Returns a message describing why the discount value is invalid, or null
+export function validateDiscountValue(value: DiscountValue): string | null {
+  if (value.type === "percentage") {
+    return value.percentage > 0 && value.percentage <= 100
+      ? null
+      : "Percentage must be between 0 and 100";
+  }
+  return Number.isInteger(value.amountCents) && value.amountCents > 0
+    ? null
+    : "Discount amount must be greater than zero";
+}
+
+function getDiscountCents(value: DiscountValue, baseCents: number) {
+  const amountCents =
+    value.type === "percentage"
+      ? Math.round((baseCents * value.percentage) / 100)
+      : value.amountCents;
+  return Math.min(Math.max(0, amountCents), baseCents);
+}
+
+export function getCodeDiscountProblem(
+  discount: CodeDiscount,
+  subtotalCents: number,
+  quantity: number
+): string | null {
+  if (
+    discount.minimumSubtotalCents !== undefined &&
+    subtotalCents < discount.minimumSubtotalCents
+  ) {
+    return `${discount.code} needs a minimum purchase of €${formatCents(
+      discount.minimumSubtotalCents
+    )}`;
+  }
+  if (
+    discount.minimumQuantity !== undefined &&
+    quantity < discount.minimumQuantity
+  ) {
+    return `${discount.code} needs at least ${discount.minimumQuantity} items`;
+  }
+  return null;
+}
+
+// Line discounts apply first, then order-wide manual discounts, then the
+// discount code on what is left, so discounts never stack above the price.
+// Manual discounts are returned in the order they were given.
+export function applyDiscounts(
+  lines: Array<{ variantId: string; quantity: number; lineTotalCents: number }>,
+  discountCode: CodeDiscount | null,
+  manualDiscounts: ManualDiscount[]
+): AppliedDiscount[] {
+  const manualApplied: AppliedDiscount[] = new Array(manualDiscounts.length);
+  const remainingByLine = new Map(
+    lines.map((line) => [line.variantId, line.lineTotalCents])
+  );
+
+  manualDiscounts.forEach((discount, index) => {
+    if (!discount.variantId) return;
+    const remaining = remainingByLine.get(discount.variantId) ?? 0;
+    const amountCents = getDiscountCents(discount.value, remaining);
+    remainingByLine.set(discount.variantId, remaining - amountCents);
+    manualApplied[index] = {
+      source: "manual",
+      label: `${describeDiscountValue(discount.value)} · ${discount.reason}`,
+      variantId: discount.variantId,
+      amountCents,
+    };
+  });
+
+  let remainingCents = [...remainingByLine.values()].reduce(
+    (total, cents) => total + cents,
+    0
+  );
+
+  manualDiscounts.forEach((discount, index) => {
+    if (discount.variantId) return;
+    const amountCents = getDiscountCents(discount.value, remainingCents);
+    remainingCents -= amountCents;
+    manualApplied[index] = {
+      source: "manual",
+      label: `${describeDiscountValue(discount.value)} · ${discount.reason}`,
+      amountCents,
+    };
+  });
+
+  if (!discountCode) return manualApplied;
+
+  return [
+    ...manualApplied,
+    {
+      source: "code",
+      label: discountCode.code,
+      amountCents: getDiscountCents(discountCode.value, remainingCents),
+    },
+  ];
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_EVENT,
+  LEGACY_POP_UP_TAG,
+  clampToEvent,
+  eventProfileInputSchema,
+  eventTag,
+  getEventIdFromTags,
+  getEventSearchTags,
+  isEventOn,
+} from "./events";
+
+const event = { startDate: "2025-06-10", endDate: "2025-06-12" };
+
+describe("isEventOn", () => {
+  it("includes the first and last day", () => {
+    expect(isEventOn(event, "2025-06-10")).toBe(true);
+    expect(isEventOn(event, "2025-06-12")).toBe(true);
+    expect(isEventOn(event, "2025-06-09")).toBe(false);
+    expect(isEventOn(event, "2025-06-13")).toBe(false);
+  });
+});
+
+describe("clampToEvent", () => {
+  it("moves days outside the event to its nearest day", () => {
+    expect(clampToEvent(event, "2025-06-01")).toBe("2025-06-10");
+    expect(clampToEvent(event, "2025-06-11")).toBe("2025-06-11");
+    expect(clampToEvent(event, "2025-07-01")).toBe("2025-06-12");
+  });
+});
+
+describe("getEventIdFromTags", () => {
+  it("reads back the event tag", () => {
+    expect(
+      getEventIdFromTags(["Madrid", eventTag("madrid-2025"), "staff:ana"])
+    ).toBe("madrid-2025");
+    expect(getEventIdFromTags(["Madrid", "staff:ana"])).toBeNull();
+  });
+
+  it("gives orders from before events existed to the default event", () => {
+    expect(getEventIdFromTags([LEGACY_POP_UP_TAG, "staff:ana"])).toBe(
+      DEFAULT_EVENT.id
+    );
+    expect(
+      getEventIdFromTags([LEGACY_POP_UP_TAG, eventTag("madrid-2025")])
+    ).toBe("madrid-2025");
+  });
+});
+
+describe("getEventSearchTags", () => {
+  it("finds the default event's orders by the legacy tag too", () => {
+    expect(getEventSearchTags(DEFAULT_EVENT.id)).toEqual([
+      eventTag(DEFAULT_EVENT.id),
+      LEGACY_POP_UP_TAG,
+    ]);
+    expect(getEventSearchTags("madrid-2025")).toEqual([
+      eventTag("madrid-2025"),
+    ]);
+  });
+});
+
+describe("eventProfileInputSchema", () => {
+  const input = {
+    id: "madrid-2025",
+    name: "Madrid 2025",
+    city: "Madrid",
+    startDate: "2025-06-10",
+    endDate: "2025-06-12",
+    tags: [],
+    noteTemplate: "Pedido {event}",
+    brandingText: "Welcome",
+  };
+
+  it("keeps the event tag within Shopify's 40 characters", () => {
+    const id = "a".repeat(35);
+    expect(eventProfileInputSchema.safeParse(input).success).toBe(true);
+    expect(eventTag(id.slice(1)).length).toBe(40);
+    expect(eventProfileInputSchema.safeParse({ ...input, id }).success).toBe(
+      false
+    );
+  });
+
+  it("rejects an event that ends before it starts", () => {
+    const result = eventProfileInputSchema.safeParse({
+      ...input,
+      endDate: "2025-06-09",
+    });
+    expect(result.error?.issues[0].message).toBe(
+      "The event cannot end before it starts"
+    );
+  });
+
+  it("keeps the legacy tag for the default event", () => {
+    const tags = [LEGACY_POP_UP_TAG];
+    expect(eventProfileInputSchema.safeParse({ ...input, tags }).success).toBe(
+      false
+    );
+    expect(
+      eventProfileInputSchema.safeParse({
+        ...input,
+        id: DEFAULT_EVENT.id,
+        tags,
+      }).success
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,146 @@
+import { z } from "zod";
+
+// A pop-up event. The active one decides what goes on new orders and what the
+// pages are titled, so the same install can run several pop-ups a year. Orders
+// are only taken while an event is active and between its dates. A new
+// install starts with DEFAULT_EVENT active.
+export interface EventProfile {
+  // Slug, e.g. "madrid-2025"
+  id: string;
+  // Page title, e.g. "Shameless Pop Up Madrid 2025"
+  name: string;
+  city: string;
+  // Inclusive dates, YYYY-MM-DD
+  startDate: string;
+  endDate: string;
+  // Added to every order next to eventTag(id)
+  tags: string[];
+  // Order note; {event} and {city} are replaced with the event's
+  noteTemplate: string;
+  // Shipping rate the order form starts on; DEFAULT_SHIPPING_RATE_ID when unset
+  defaultShippingRateId?: string;
+  // Location the stand sells from; SHOPIFY_LOCATION_ID when unset
+  locationId?: string;
+  // Heading on the order form
+  brandingText: string;
+}
+
+// Page and app title while no event is on
+export const DEFAULT_TITLE = "Pop-up orders";
+
+// Tag of the orders placed before events existed. They belong to
+// DEFAULT_EVENT, the only event that may use the tag.
+export const LEGACY_POP_UP_TAG = "Pop Up";
+
+// Active until a manager activates another event, so sales can be taken from
+// the start. Tags and notes its orders as they were before events existed,
+// and is on every day.
+export const DEFAULT_EVENT: EventProfile = {
+  id: "pop-up",
+  name: "Pop Up",
+  city: "",
+  startDate: "2000-01-01",
+  endDate: "9999-12-31",
+  tags: [LEGACY_POP_UP_TAG],
+  noteTemplate: "Pedido Pop Up",
+  brandingText: DEFAULT_TITLE,
+};
+
+// Tag added to every order placed during the event, used to find its orders
+// again. Shopify tags are at most 40 characters, so ids are at most 34.
+export function eventTag(eventId: string) {
+  return `event:${eventId}`;
+}
+
+// Event id from an order's tags, the reverse of eventTag. Orders from before
+// events existed are the default event's.
+export function getEventIdFromTags(tags: string[]): string | null {
+  const tag = tags.find((tag) => tag.startsWith("event:"));
+  if (tag) return tag.slice("event:".length);
+  return tags.includes(LEGACY_POP_UP_TAG) ? DEFAULT_EVENT.id : null;
+}
+
+// Tags any of which marks an order as the event's
+export function getEventSearchTags(eventId: string) {
+  return eventId === DEFAULT_EVENT.id
+    ? [eventTag(eventId), LEGACY_POP_UP_TAG]
+    : [eventTag(eventId)];
+}
+
+// Whether the day (YYYY-MM-DD) falls within the event's dates
+export function isEventOn(
+  event: Pick<EventProfile, "startDate" | "endDate">,
+  date: string
+) {
+  return event.startDate <= date && date <= event.endDate;
+}
+
+// The day if it falls within the event, else the event's nearest day
+export function clampToEvent(
+  event: Pick<EventProfile, "startDate" | "endDate">,
+  date: string
+) {
+  if (date < event.startDate) return event.startDate;
+  if (date > event.endDate) return event.endDate;
+  return date;
+}
+
+export function formatOrderNote(event: EventProfile) {
+  return event.noteTemplate
+    .replaceAll("{event}", event.name)
+    .replaceAll("{city}", event.city);
+}
+
+const eventDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Enter the dates as YYYY-MM-DD");
+
+// What the events page sends. Blank optional fields arrive as empty strings.
+export const eventProfileInputSchema = z
+  .object({
+    id: z
+      .string()
+      .trim()
+      .regex(
+        /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+        "Use lowercase letters, numbers and dashes for the id"
+      )
+      .max(34, "Use at most 34 characters for the id"),
+    name: z.string().trim().min(1, "Enter the event name").max(100),
+    city: z.string().trim().min(1, "Enter the city").max(100),
+    startDate: eventDate,
+    endDate: eventDate,
+    tags: z
+      .array(z.string().trim().min(1).max(40, "Tags are at most 40 characters"))
+      .max(10, "Use at most 10 tags"),
+    noteTemplate: z.string().trim().min(1, "Enter the order note").max(200),
+    defaultShippingRateId: z
+      .string()
+      .trim()
+      .optional()
+      .transform((value) => value || undefined),
+    locationId: z
+      .string()
+      .trim()
+      .optional()
+      .transform((value) => value || undefined)
+      .refine(
+        (value) => !value || /^gid:\/\/shopify\/Location\/\d+$/.test(value),
+        "The location must be a Location GID"
+      ),
+    brandingText: z.string().trim().min(1, "Enter the welcome text").max(100),
+  })
+  .refine((event) => event.endDate >= event.startDate, {
+    message: "The event cannot end before it starts",
+    path: ["endDate"],
+  })
+  .refine(
+    (event) =>
+      event.id === DEFAULT_EVENT.id || !event.tags.includes(LEGACY_POP_UP_TAG),
+    {
+      message: `"${LEGACY_POP_UP_TAG}" marks the orders of the default event`,
+      path: ["tags"],
+    }
+  );
+
+export type EventProfileInput = z.input<typeof eventProfileInputSchema>;
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  getHandedOverLines,
+  getMisplacedLines,
+  pickLineItemIds,
+} from "./fulfillment";
+
+// Two lines of the same variant: one taken away at the stand, one shipped
+const lineItems = [
+  { id: "gid://shopify/LineItem/1" },
+  { id: "gid://shopify/LineItem/2" },
+];
+const orderLines = [
+  { variantId: "gid://shopify/ProductVariant/1", takenNow: true },
+  { variantId: "gid://shopify/ProductVariant/1", takenNow: false },
+];
+
+function fulfillmentLine(id: string, lineItemId: string, quantity = 1) {
+  return { id, remainingQuantity: quantity, lineItem: { id: lineItemId } };
+}
+
+describe("pickLineItemIds", () => {
+  it("picks the created lines by their position in the order", () => {
+    expect(
+      pickLineItemIds(lineItems, orderLines, (line) => line.takenNow)
+    ).toEqual(new Set(["gid://shopify/LineItem/1"]));
+  });
+});
+
+describe("getHandedOverLines", () => {
+  it("fulfills only the handed-over line of a variant that is also shipped", () => {
+    const handedOver = pickLineItemIds(
+      lineItems,
+      orderLines,
+      (line) => line.takenNow
+    );
+
+    expect(
+      getHandedOverLines(
+        [
+          {
+            id: "gid://shopify/FulfillmentOrder/1",
+            status: "OPEN",
+            lineItems: {
+              nodes: [
+                fulfillmentLine("fol-1", "gid://shopify/LineItem/1"),
+                fulfillmentLine("fol-2", "gid://shopify/LineItem/2"),
+              ],
+            },
+          },
+        ],
+        handedOver
+      )
+    ).toEqual([
+      {
+        fulfillmentOrderId: "gid://shopify/FulfillmentOrder/1",
+        fulfillmentOrderLineItems: [{ id: "fol-1", quantity: 1 }],
+      },
+    ]);
+  });
+
+  it("skips fulfillment orders that are not open or have nothing left", () => {
+    expect(
+      getHandedOverLines(
+        [
+          {
+            id: "gid://shopify/FulfillmentOrder/1",
+            status: "CLOSED",
+            lineItems: {
+              nodes: [fulfillmentLine("fol-1", "gid://shopify/LineItem/1")],
+            },
+          },
+          {
+            id: "gid://shopify/FulfillmentOrder/2",
+            status: "OPEN",
+            lineItems: {
+              nodes: [fulfillmentLine("fol-2", "gid://shopify/LineItem/1", 0)],
+            },
+          },
+        ],
+        new Set(["gid://shopify/LineItem/1"])
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("getMisplacedLines", () => {
+  const lines = [
+    fulfillmentLine("fol-1", "gid://shopify/LineItem/1", 2),
+    fulfillmentLine("fol-2", "gid://shopify/LineItem/2"),
+  ];
+  const fromWarehouse = new Set(["gid://shopify/LineItem/2"]);
+
+  it("moves warehouse lines away from the pop-up", () => {
+    expect(getMisplacedLines(lines, true, fromWarehouse)).toEqual([
+      { id: "fol-2", quantity: 1 },
+    ]);
+  });
+
+  it("moves pop-up lines to the pop-up", () => {
+    expect(getMisplacedLines(lines, false, fromWarehouse)).toEqual([
+      { id: "fol-1", quantity: 2 },
+    ]);
+  });
+});
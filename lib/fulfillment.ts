@@ -0,0 +1,66 @@
+// Which fulfillment order lines to move or fulfill for a new order. Lines are
+// matched by their order line item, not their variant: the same variant may be
+// on one line taken away at the stand and another shipped.
+
+export interface FulfillmentOrderLine {
+  id: string;
+  remainingQuantity: number;
+  lineItem: { id: string };
+}
+
+export interface FulfillmentOrderWithLines {
+  id: string;
+  status: string;
+  lineItems: { nodes: FulfillmentOrderLine[] };
+}
+
+// Order line item ids of the lines flagged, for an order created from `lines`
+// in the same order
+export function pickLineItemIds<T>(
+  createdLineItems: Array<{ id: string }>,
+  lines: T[],
+  flagged: (line: T) => boolean
+): Set<string> {
+  return new Set(
+    createdLineItems
+      .filter((_, index) => index < lines.length && flagged(lines[index]))
+      .map((lineItem) => lineItem.id)
+  );
+}
+
+// Lines of a fulfillment order at the wrong location: warehouse lines at the
+// pop-up, or pop-up lines elsewhere
+export function getMisplacedLines(
+  lines: FulfillmentOrderLine[],
+  atPopUp: boolean,
+  warehouseLineItemIds: Set<string>
+): Array<{ id: string; quantity: number }> {
+  return lines
+    .filter((line) => line.remainingQuantity > 0)
+    .filter((line) => warehouseLineItemIds.has(line.lineItem.id) === atPopUp)
+    .map((line) => ({ id: line.id, quantity: line.remainingQuantity }));
+}
+
+// What is left to fulfill of the lines handed over, grouped by fulfillment
+// order as fulfillmentCreate takes it
+export function getHandedOverLines(
+  fulfillmentOrders: FulfillmentOrderWithLines[],
+  handedOverLineItemIds: Set<string>
+): Array<{
+  fulfillmentOrderId: string;
+  fulfillmentOrderLineItems: Array<{ id: string; quantity: number }>;
+}> {
+  return fulfillmentOrders
+    .filter((fulfillmentOrder) => fulfillmentOrder.status === "OPEN")
+    .map((fulfillmentOrder) => ({
+      fulfillmentOrderId: fulfillmentOrder.id,
+      fulfillmentOrderLineItems: fulfillmentOrder.lineItems.nodes
+        .filter(
+          (line) =>
+            line.remainingQuantity > 0 &&
+            handedOverLineItemIds.has(line.lineItem.id)
+        )
+        .map((line) => ({ id: line.id, quantity: line.remainingQuantity })),
+    }))
+    .filter((group) => group.fulfillmentOrderLineItems.length > 0);
+}
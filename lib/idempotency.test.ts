@@ -0,0 +1,160 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  IdempotencyRecord,
+  IdempotencyStore,
+  createIdempotentRunner,
+} from "./idempotency";
+
+function memoryStore(initial: Record<string, IdempotencyRecord<string>> = {}) {
+  const records = new Map(Object.entries(initial));
+  const store: IdempotencyStore<string> = {
+    find: async (key) => records.get(key),
+    save: async (key, record) => {
+      records.set(key, record);
+    },
+  };
+  return { records, store };
+}
+
+describe("createIdempotentRunner", () => {
+  it("creates the order and records the result", async () => {
+    const { records, store } = memoryStore();
+    const runOnce = createIdempotentRunner<string, string>(store);
+    const create = vi.fn(async () => ({ created: "order-1" }));
+
+    const outcome = await runOnce("k1", {
+      findExisting: async () => null,
+      create,
+    });
+
+    expect(outcome).toEqual({ created: "order-1", duplicate: false });
+    expect(create).toHaveBeenCalledOnce();
+    expect(records.get("k1")).toMatchObject({
+      status: "done",
+      result: "order-1",
+    });
+  });
+
+  it("lets a retry create the order after a failed attempt", async () => {
+    const { store } = memoryStore();
+    const runOnce = createIdempotentRunner<string, string>(store);
+    const findExisting = async () => null;
+
+    const failed = await runOnce("k1", {
+      findExisting,
+      create: async () => ({ failed: "Out of stock" }),
+    });
+    const retried = await runOnce("k1", {
+      findExisting,
+      create: async () => ({ created: "order-1" }),
+    });
+
+    expect(failed).toEqual({ failed: "Out of stock" });
+    expect(retried).toEqual({ created: "order-1", duplicate: false });
+  });
+
+  it("returns the recorded order for a duplicate request", async () => {
+    const { store } = memoryStore();
+    const runOnce = createIdempotentRunner<string, string>(store);
+    const create = vi.fn(async () => ({ created: "order-1" }));
+    const steps = { findExisting: async () => null, create };
+
+    await runOnce("k1", steps);
+    const duplicate = await runOnce("k1", steps);
+
+    expect(duplicate).toEqual({ created: "order-1", duplicate: true });
+    expect(create).toHaveBeenCalledOnce();
+  });
+
+  it("makes a concurrent duplicate wait for the first attempt", async () => {
+    const { store } = memoryStore();
+    const runOnce = createIdempotentRunner<string, string>(store);
+    const create = vi.fn(async () => ({ created: "order-1" }));
+    const steps = { findExisting: async () => null, create };
+
+    const [first, second] = await Promise.all([
+      runOnce("k1", steps),
+      runOnce("k1", steps),
+    ]);
+
+    expect(first).toEqual({ created: "order-1", duplicate: false });
+    expect(second).toEqual({ created: "order-1", duplicate: true });
+    expect(create).toHaveBeenCalledOnce();
+  });
+
+  it("finds an order created before a crash instead of creating it again", async () => {
+    const { records, store } = memoryStore({
+      k1: { status: "pending", recordedAt: Date.now() },
+    });
+    const runOnce = createIdempotentRunner<string, string>(store);
+    const create = vi.fn(async () => ({ created: "order-2" }));
+
+    const outcome = await runOnce("k1", {
+      findExisting: async () => "order-1",
+      create,
+    });
+
+    expect(outcome).toEqual({ created: "order-1", duplicate: true });
+    expect(create).not.toHaveBeenCalled();
+    expect(records.get("k1")).toMatchObject({
+      status: "done",
+      result: "order-1",
+    });
+  });
+
+  it("creates the order when a pending attempt never reached Shopify", async () => {
+    const { store } = memoryStore({
+      k1: { status: "pending", recordedAt: Date.now() },
+    });
+    const runOnce = createIdempotentRunner<string, string>(store);
+
+    const outcome = await runOnce("k1", {
+      findExisting: async () => null,
+      create: async () => ({ created: "order-1" }),
+    });
+
+    expect(outcome).toEqual({ created: "order-1", duplicate: false });
+  });
+
+  it("looks the order up on retry when the result could not be recorded", async () => {
+    const { records, store } = memoryStore();
+    const save = store.save;
+    store.save = async (key, record) => {
+      if (record.status === "done") throw new Error("Disk full");
+      await save(key, record);
+    };
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const runOnce = createIdempotentRunner<string, string>(store);
+    const create = vi.fn(async () => ({ created: "order-1" }));
+
+    const first = await runOnce("k1", {
+      findExisting: async () => null,
+      create,
+    });
+    const retried = await runOnce("k1", {
+      findExisting: async () => "order-1",
+      create,
+    });
+
+    expect(first).toEqual({ created: "order-1", duplicate: false });
+    expect(retried).toEqual({ created: "order-1", duplicate: true });
+    expect(create).toHaveBeenCalledOnce();
+    expect(records.get("k1")).toMatchObject({ status: "pending" });
+  });
+
+  it("does not create the order when the pending record cannot be saved", async () => {
+    const store: IdempotencyStore<string> = {
+      find: async () => undefined,
+      save: async () => {
+        throw new Error("Disk full");
+      },
+    };
+    const runOnce = createIdempotentRunner<string, string>(store);
+    const create = vi.fn(async () => ({ created: "order-1" }));
+
+    await expect(
+      runOnce("k1", { findExisting: async () => null, create })
+    ).rejects.toThrow("Disk full");
+    expect(create).not.toHaveBeenCalled();
+  });
+});
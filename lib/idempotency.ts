@@ -0,0 +1,89 @@
+// Creates each order at most once per idempotency key. A pending record is
+// saved before Shopify is called, so when an attempt dies after the order was
+// created (a crash, a lost response, a failed write of the final record) the
+// next attempt looks the order up in Shopify by its key tag instead of
+// creating it again.
+
+export type IdempotencyRecord<T> =
+  | { status: "pending"; recordedAt: number }
+  // Response returned for the original request
+  | { status: "done"; recordedAt: number; result: T };
+
+export interface IdempotencyStore<T> {
+  find(key: string): Promise<IdempotencyRecord<T> | undefined>;
+  save(key: string, record: IdempotencyRecord<T>): Promise<void>;
+}
+
+export type IdempotentOutcome<T, F> =
+  | { created: T; duplicate: boolean }
+  | { failed: F };
+
+export interface IdempotentSteps<T, F> {
+  // Order created with the key by an earlier attempt, if any
+  findExisting: () => Promise<T | null>;
+  create: () => Promise<{ created: T } | { failed: F }>;
+}
+
+// Shopify tags are at most 40 characters: "key:" and a 36-character UUID
+export function idempotencyTag(key: string) {
+  return `key:${key}`;
+}
+
+export function createIdempotentRunner<T, F>(store: IdempotencyStore<T>) {
+  // Attempts running right now, so a double submit waits for the first. An
+  // entry stays until the attempt's final record is saved.
+  const inFlight = new Map<string, Promise<IdempotentOutcome<T, F>>>();
+
+  async function saveResult(key: string, result: T) {
+    try {
+      await store.save(key, { status: "done", recordedAt: Date.now(), result });
+    } catch (error) {
+      // The pending record makes the next attempt look the order up instead
+      console.error("Error recording idempotency key:", error);
+    }
+  }
+
+  async function attempt(
+    key: string,
+    steps: IdempotentSteps<T, F>
+  ): Promise<IdempotentOutcome<T, F>> {
+    const record = await store.find(key);
+    if (record?.status === "done") {
+      return { created: record.result, duplicate: true };
+    }
+    if (record?.status === "pending") {
+      const existing = await steps.findExisting();
+      if (existing) {
+        await saveResult(key, existing);
+        return { created: existing, duplicate: true };
+      }
+    }
+
+    // Nothing may reach Shopify unless this is saved
+    await store.save(key, { status: "pending", recordedAt: Date.now() });
+    const outcome = await steps.create();
+    if ("failed" in outcome) return outcome;
+
+    await saveResult(key, outcome.created);
+    return { created: outcome.created, duplicate: false };
+  }
+
+  return async function runOnce(
+    key: string,
+    steps: IdempotentSteps<T, F>
+  ): Promise<IdempotentOutcome<T, F>> {
+    const running = inFlight.get(key);
+    if (running) {
+      const outcome = await running;
+      return "created" in outcome ? { ...outcome, duplicate: true } : outcome;
+    }
+
+    const promise = attempt(key, steps);
+    inFlight.set(key, promise);
+    try {
+      return await promise;
+    } finally {
+      inFlight.delete(key);
+    }
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { formatCents, parseAmountCents, toCents } from "./money";
+
+describe("toCents", () => {
+  it("rounds Shopify decimal strings to whole cents", () => {
+    expect(toCents("29.90")).toBe(2990);
+    expect(toCents("0.1")).toBe(10);
+    expect(toCents("19.99")).toBe(1999);
+    expect(toCents(4.95)).toBe(495);
+  });
+});
+
+describe("formatCents", () => {
+  it("always shows two decimals", () => {
+    expect(formatCents(2990)).toBe("29.90");
+    expect(formatCents(5)).toBe("0.05");
+    expect(formatCents(0)).toBe("0.00");
+  });
+});
+
+describe("parseAmountCents", () => {
+  it("reads a decimal point or a decimal comma", () => {
+    expect(parseAmountCents("12.50")).toBe(1250);
+    expect(parseAmountCents("12,50")).toBe(1250);
+    expect(parseAmountCents("12,5")).toBe(1250);
+    expect(parseAmountCents(" 12 ")).toBe(1200);
+  });
+
+  it("drops thousands separators when both separators appear", () => {
+    expect(parseAmountCents("1.234,50")).toBe(123450);
+    expect(parseAmountCents("1,234.50")).toBe(123450);
+  });
+
+  it("rejects text that is not an amount", () => {
+    expect(parseAmountCents("")).toBeNull();
+    expect(parseAmountCents("abc")).toBeNull();
+    expect(parseAmountCents("12,505")).toBeNull();
+    expect(parseAmountCents("-5")).toBeNull();
+    expect(parseAmountCents("12,")).toBeNull();
+  });
+});
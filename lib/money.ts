@@ -0,0 +1,29 @@
+export const CURRENCY_CODE = "EUR";
+
+// Shopify returns money as decimal strings; all arithmetic is done in cents
+export function toCents(amount: string | number): number {
+  return Math.round(Number(amount) * 100);
+}
+
+export function formatCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+// Amount typed by staff, in cents. Accepts a decimal comma ("12,50") as well as
+// a point, and thousands separators when both appear ("1.234,50"). Returns
+// null when the text is not an amount with at most two decimals.
+export function parseAmountCents(text: string): number | null {
+  const compact = text.trim().replace(/\s/g, "");
+  const decimalSeparator = Math.max(
+    compact.lastIndexOf(","),
+    compact.lastIndexOf(".")
+  );
+  const normalized =
+    decimalSeparator === -1
+      ? compact
+      : `${compact
+          .slice(0, decimalSeparator)
+          .replace(/[.,]/g, "")}.${compact.slice(decimalSeparator + 1)}`;
+  if (!/^\d+(\.\d{1,2})?$/.test(normalized)) return null;
+  return toCents(normalized);
+}
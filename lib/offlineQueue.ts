@@ -0,0 +1,97 @@
+import type { OrderInput } from "./orderSchema";
+
+// Orders rung up while the stand has no connection, kept in IndexedDB so they
+// survive reloads until they reach Shopify. Browser only.
+
+const DB_NAME = "popup-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "orders";
+
+// Dispatched on window whenever the queue changes
+export const QUEUE_CHANGE_EVENT = "offline-queue-change";
+
+export type QueuedOrderStatus = "pending" | "syncing" | "synced" | "failed";
+
+export interface QueuedOrder {
+  // Also the idempotency key sent with every replay
+  id: string;
+  queuedAt: number;
+  customer: string;
+  totalCents: number;
+  itemCount: number;
+  // Dropped once synced, so customer details do not stay on the tablet.
+  // Manual discounts carry a signed approval, never the manager's PIN.
+  order: OrderInput | null;
+  status: QueuedOrderStatus;
+  orderName?: string;
+  error?: string;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = createRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+}
+
+function notifyChange() {
+  window.dispatchEvent(new Event(QUEUE_CHANGE_EVENT));
+}
+
+export async function listQueuedOrders(): Promise<QueuedOrder[]> {
+  const orders: QueuedOrder[] = await runRequest("readonly", (store) =>
+    store.getAll()
+  );
+  return orders.sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+export async function saveQueuedOrder(order: QueuedOrder) {
+  await runRequest("readwrite", (store) => store.put(order));
+  notifyChange();
+}
+
+export async function removeQueuedOrder(id: string) {
+  await runRequest("readwrite", (store) => store.delete(id));
+  notifyChange();
+}
+
+// Keeps the checkout's idempotency key, so an order that did reach Shopify
+// before the connection dropped is not created twice
+export async function enqueueOrder(order: OrderInput) {
+  const id = order.idempotencyKey ?? crypto.randomUUID();
+  await saveQueuedOrder({
+    id,
+    queuedAt: Date.now(),
+    customer: `${order.firstName} ${order.lastName}`.trim(),
+    totalCents: order.expectedTotalCents,
+    itemCount: order.lineItems.reduce(
+      (total, item) => total + item.quantity,
+      0
+    ),
+    order: { ...order, idempotencyKey: id },
+    status: "pending",
+  });
+}
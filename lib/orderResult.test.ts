@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { mapUserErrors } from "./orderResult";
+
+const lineItems = [
+  { variantId: "gid://shopify/ProductVariant/1" },
+  { variantId: "gid://shopify/ProductVariant/2" },
+];
+
+describe("mapUserErrors", () => {
+  it("puts address errors next to the form field", () => {
+    expect(
+      mapUserErrors(
+        [
+          { field: ["order", "shippingAddress", "zip"], message: "Bad zip" },
+          {
+            field: ["order", "shippingAddress", "provinceCode"],
+            message: "Bad province",
+          },
+        ],
+        lineItems
+      )
+    ).toEqual({
+      fieldErrors: { zip: "Bad zip", province: "Bad province" },
+      lineErrors: {},
+    });
+  });
+
+  it("matches the last known segment of the path", () => {
+    expect(
+      mapUserErrors(
+        [
+          {
+            field: ["order", "shippingLines", "0", "title"],
+            message: "No such rate",
+          },
+        ],
+        lineItems
+      ).fieldErrors
+    ).toEqual({ shippingRateId: "No such rate" });
+  });
+
+  it("puts line item errors on the cart line by index", () => {
+    expect(
+      mapUserErrors(
+        [
+          {
+            field: ["order", "lineItems", "1", "quantity"],
+            message: "Too many",
+          },
+          { field: ["order", "lineItems", "5"], message: "Unknown line" },
+        ],
+        lineItems
+      )
+    ).toEqual({
+      fieldErrors: {},
+      lineErrors: { "gid://shopify/ProductVariant/2": "Too many" },
+    });
+  });
+
+  it("keeps the first error for a field and skips errors without one", () => {
+    expect(
+      mapUserErrors(
+        [
+          { field: ["order", "shippingAddress", "address1"], message: "A" },
+          { field: ["order", "shippingAddress", "address2"], message: "B" },
+          { field: null, message: "Something went wrong" },
+          { field: ["order", "note"], message: "Too long" },
+        ],
+        lineItems
+      ).fieldErrors
+    ).toEqual({ address1: "A" });
+  });
+});
@@ -0,0 +1,171 @@
+import { PricedQuote } from "./pricing";
+import { StockError } from "./stock";
+
+export interface ShopifyMoneyBag {
+  shopMoney: { amount: string; currencyCode: string };
+}
+
+export interface CreatedOrderLineItem {
+  id: string;
+  title: string;
+  variantTitle: string | null;
+  sku: string | null;
+  quantity: number;
+  originalUnitPriceSet: ShopifyMoneyBag;
+  // Line total after line discounts
+  discountedTotalSet: ShopifyMoneyBag;
+}
+
+// Order as returned by orderCreate, with everything the receipt shows
+export interface CreatedOrder {
+  id: string;
+  name: string;
+  email: string | null;
+  createdAt: string;
+  // Public order status page, linked from the receipt QR code
+  statusPageUrl: string;
+  taxesIncluded: boolean;
+  currentSubtotalPriceSet: ShopifyMoneyBag;
+  currentTotalDiscountsSet: ShopifyMoneyBag;
+  totalShippingPriceSet: ShopifyMoneyBag;
+  currentTotalTaxSet: ShopifyMoneyBag;
+  currentTotalPriceSet: ShopifyMoneyBag;
+  taxLines: Array<{
+    title: string;
+    ratePercentage: number | null;
+    priceSet: ShopifyMoneyBag;
+  }>;
+  lineItems: { nodes: CreatedOrderLineItem[] };
+  shippingLine: { title: string } | null;
+  transactions: Array<{ gateway: string; amountSet: ShopifyMoneyBag }>;
+  // Staff, cash given and change, as set on the order
+  customAttributes: Array<{ key: string; value: string | null }>;
+  shippingAddress: {
+    address1: string | null;
+    address2: string | null;
+    city: string | null;
+    countryCode: string | null;
+    firstName: string | null;
+    lastName: string | null;
+    phone: string | null;
+    provinceCode: string | null;
+    zip: string | null;
+  } | null;
+}
+
+export interface ShopifyUserError {
+  field: string[] | null;
+  message: string;
+}
+
+// Order form fields an error can be shown next to
+export type OrderField =
+  | "firstName"
+  | "lastName"
+  | "email"
+  | "phone"
+  | "address1"
+  | "city"
+  | "province"
+  | "zip"
+  | "countryCode"
+  | "discountCode"
+  | "manualDiscounts"
+  | "shippingRateId"
+  | "payments";
+
+export type OrderFieldErrors = Partial<Record<OrderField, string>>;
+
+export type CreateOrderErrorCode =
+  // Rejected by our own checks before reaching Shopify
+  | "invalid_input"
+  | "invalid_address"
+  | "unknown_products"
+  | "insufficient_stock"
+  | "invalid_discount"
+  | "discount_not_approved"
+  | "shipping_unavailable"
+  | "price_changed"
+  | "invalid_payments"
+  | "no_active_event"
+  // Shopify refused the order (userErrors)
+  | "shopify_rejected"
+  // Shopify answered with something unexpected
+  | "shopify_error";
+
+export interface CreateOrderSuccess {
+  success: true;
+  data: CreatedOrder;
+  // Not known when a duplicate was found again in Shopify after a crash
+  quote?: PricedQuote;
+  // The idempotency key was already used: this is the order created then
+  duplicate?: boolean;
+}
+
+export interface CreateOrderFailure {
+  success: false;
+  code: CreateOrderErrorCode;
+  // Summary shown at the top of the form
+  error: string;
+  fieldErrors?: OrderFieldErrors;
+  // Errors for cart lines, keyed by variant id
+  lineErrors?: Record<string, string>;
+  stockErrors?: StockError[];
+  // Current server-side pricing, when it differs from what the form showed
+  quote?: PricedQuote;
+}
+
+export type CreateOrderResult = CreateOrderSuccess | CreateOrderFailure;
+
+// Last segment of a Shopify field path → form field
+const FIELDS_BY_PATH_SEGMENT: Record<string, OrderField> = {
+  firstName: "firstName",
+  lastName: "lastName",
+  email: "email",
+  phone: "phone",
+  address1: "address1",
+  address2: "address1",
+  city: "city",
+  province: "province",
+  provinceCode: "province",
+  zip: "zip",
+  country: "countryCode",
+  countryCode: "countryCode",
+  discountCode: "discountCode",
+  shippingLines: "shippingRateId",
+  transactions: "payments",
+};
+
+// Turns Shopify userErrors into errors next to the form fields and cart lines
+// they refer to. Paths look like ["order", "shippingAddress", "zip"] or
+// ["order", "lineItems", "0", "quantity"].
+export function mapUserErrors(
+  userErrors: ShopifyUserError[],
+  lineItems: Array<{ variantId: string }>
+): { fieldErrors: OrderFieldErrors; lineErrors: Record<string, string> } {
+  const fieldErrors: OrderFieldErrors = {};
+  const lineErrors: Record<string, string> = {};
+
+  for (const { field, message } of userErrors) {
+    if (!field) continue;
+
+    const lineItemsIndex = field.indexOf("lineItems");
+    if (lineItemsIndex !== -1) {
+      const line = lineItems[Number(field[lineItemsIndex + 1])];
+      if (line) {
+        lineErrors[line.variantId] = message;
+      }
+      continue;
+    }
+
+    const formField = [...field]
+      .reverse()
+      .map((segment) => FIELDS_BY_PATH_SEGMENT[segment])
+      .find(Boolean);
+    if (formField && !fieldErrors[formField]) {
+      fieldErrors[formField] = message;
+    }
+  }
+
+  return { fieldErrors, lineErrors };
+}
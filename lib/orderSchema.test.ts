@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { OrderInput, normalizePhone, orderInputSchema } from "./orderSchema";
+
+const order: OrderInput = {
+  firstName: "Ana",
+  lastName: "García",
+  email: "ana@example.com",
+  phone: "600 000 000",
+  address1: "",
+  city: "",
+  countryCode: "ES",
+  zip: "",
+  lineItems: [{ variantId: "gid://shopify/ProductVariant/1", quantity: 1 }],
+  expectedTotalCents: 2990,
+  shippingRateId: "pickup",
+  payments: [{ method: "card", amountCents: 2990 }],
+};
+
+describe("normalizePhone", () => {
+  it("adds the Spanish prefix to numbers typed without one", () => {
+    expect(normalizePhone("600 00 00 00")).toBe("+34600000000");
+    expect(normalizePhone("(91) 123-45-67")).toBe("+34911234567");
+  });
+
+  it("accepts international numbers with a + or 00 prefix", () => {
+    expect(normalizePhone("+34 600 000 000")).toBe("+34600000000");
+    expect(normalizePhone("00351 912 345 678")).toBe("+351912345678");
+  });
+
+  it("returns null for numbers that cannot be dialled", () => {
+    expect(normalizePhone("500 000 000")).toBeNull();
+    expect(normalizePhone("+34 600 000")).toBeNull();
+    expect(normalizePhone("call me")).toBeNull();
+  });
+});
+
+describe("orderInputSchema", () => {
+  it("normalises the phone to E.164", () => {
+    const parsed = orderInputSchema.parse(order);
+
+    expect(parsed.phone).toBe("+34600000000");
+  });
+
+  it("requires a phone that can be dialled", () => {
+    for (const phone of ["", "12345"]) {
+      const parsed = orderInputSchema.safeParse({ ...order, phone });
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.error?.issues.map((issue) => issue.path)).toEqual([
+        ["phone"],
+      ]);
+    }
+  });
+});
@@ -0,0 +1,302 @@
+import { z } from "zod";
+import {
+  COUNTRIES,
+  CountryCode,
+  DEFAULT_COUNTRY_CODE,
+  getAddressProblem,
+  isCountryCode,
+  normalizeZip,
+  resolveCountryProvinceCode,
+} from "./countries";
+import { validateDiscountValue } from "./discounts";
+import { OrderFieldErrors, OrderField } from "./orderResult";
+import { PAYMENT_METHODS, PaymentMethod } from "./payments";
+
+// One set of rules for the order, used by the form (react-hook-form) and
+// checked again in createOrder, which must not trust what the browser sends.
+
+const COUNTRY_CODES = Object.keys(COUNTRIES) as [CountryCode, ...CountryCode[]];
+const PAYMENT_METHOD_IDS = Object.keys(PAYMENT_METHODS) as [
+  PaymentMethod,
+  ...PaymentMethod[]
+];
+
+const variantIdSchema = z
+  .string()
+  .regex(/^gid:\/\/shopify\/ProductVariant\/\d+$/, "Not a Shopify variant id");
+
+// Spanish numbers may be typed without a prefix; anything else needs its
+// country code. Returns E.164 (+34600000000) or null when it is not a phone.
+export function normalizePhone(phone: string): string | null {
+  const compact = phone.replace(/[\s\-.()]/g, "").replace(/^00/, "+");
+  if (/^[6789]\d{8}$/.test(compact)) {
+    return `+34${compact}`;
+  }
+  if (/^\+34[6789]\d{8}$/.test(compact)) {
+    return compact;
+  }
+  // Any other country: its code and number, 8 to 14 digits in all
+  if (/^\+(?!34)[1-9]\d{7,13}$/.test(compact)) {
+    return compact;
+  }
+  return null;
+}
+
+const phoneSchema = z
+  .string()
+  .trim()
+  .min(1, "Enter a phone number")
+  .transform((phone, ctx) => {
+    const normalized = normalizePhone(phone);
+    if (!normalized) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message:
+          "Enter a Spanish number (e.g. 600 000 000) or include the country code (e.g. +351...)",
+      });
+      return z.NEVER;
+    }
+    return normalized;
+  });
+
+export const emailSchema = z
+  .string()
+  .trim()
+  .email("Enter a valid email address");
+
+const customerFields = {
+  firstName: z.string().trim().min(1, "Enter the first name"),
+  lastName: z.string().trim().min(1, "Enter the last name"),
+  email: emailSchema,
+  phone: phoneSchema,
+};
+
+const addressFields = {
+  address1: z.string().trim(),
+  city: z.string().trim(),
+  // Province name or code; resolved to the Shopify code when parsed
+  province: z.string().trim().optional(),
+  countryCode: z.enum(COUNTRY_CODES, {
+    errorMap: () => ({ message: "Select one of the listed countries" }),
+  }),
+  zip: z.string().transform(normalizeZip),
+};
+
+interface AddressValues {
+  address1: string;
+  city: string;
+  province?: string;
+  countryCode: CountryCode;
+  zip: string;
+}
+
+// Adds an issue at each address field that is missing or wrong
+function checkAddress(address: AddressValues, ctx: z.RefinementCtx) {
+  // Already reported by the countryCode field
+  if (!isCountryCode(address.countryCode)) return;
+
+  if (!address.address1) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Enter the delivery address",
+      path: ["address1"],
+    });
+  }
+  if (!address.city) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Enter the city",
+      path: ["city"],
+    });
+  }
+
+  const problem = getAddressProblem(address.countryCode, {
+    zip: address.zip,
+    provinceCode: resolveCountryProvinceCode(address.countryCode, address),
+  });
+  if (problem) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: problem.message,
+      path: [problem.field],
+    });
+  }
+}
+
+// Customer and address fields of the order form. `pickup` is true when the
+// selected shipping rate needs no address.
+export const orderFormSchema = z
+  .object({
+    ...customerFields,
+    ...addressFields,
+    pickup: z.boolean(),
+  })
+  .superRefine((values, ctx) => {
+    if (!values.pickup) {
+      checkAddress(values, ctx);
+    }
+  });
+
+export type OrderFormValues = z.input<typeof orderFormSchema>;
+
+export const DEFAULT_ORDER_FORM_VALUES: OrderFormValues = {
+  firstName: "",
+  lastName: "",
+  email: "",
+  phone: "",
+  address1: "",
+  city: "",
+  province: "",
+  countryCode: DEFAULT_COUNTRY_CODE,
+  zip: "",
+  pickup: false,
+};
+
+const discountValueSchema = z
+  .discriminatedUnion("type", [
+    z.object({ type: z.literal("percentage"), percentage: z.number() }),
+    z.object({ type: z.literal("fixed"), amountCents: z.number() }),
+  ])
+  .superRefine((value, ctx) => {
+    const problem = validateDiscountValue(value);
+    if (problem) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+    }
+  });
+
+// One entry per payment method used
+export const tendersSchema = z.array(
+  z.object({
+    method: z.enum(PAYMENT_METHOD_IDS),
+    amountCents: z.number().int().nonnegative(),
+    tenderedCents: z.number().int().nonnegative().optional(),
+  })
+);
+
+// Everything createOrder accepts. The address is only checked when one is
+// given; createOrder requires it for rates that ship.
+export const orderInputSchema = z
+  .object({
+    ...customerFields,
+    ...addressFields,
+    lineItems: z
+      .array(
+        z.object({
+          variantId: variantIdSchema,
+          quantity: z
+            .number()
+            .int("Quantities must be whole numbers")
+            .positive("Quantities must be at least 1"),
+          // Shipped from the warehouse because the pop-up has none left
+          fromWarehouse: z.boolean().optional(),
+          // Handed over at the stand even though the order ships; every
+          // line of an order with a pickup rate is
+          takenNow: z.boolean().optional(),
+        })
+      )
+      .min(1, "Add at least one product to the cart"),
+    // Total shown to the customer in the form, used to detect stale prices
+    expectedTotalCents: z.number().int().nonnegative(),
+    // Shopify discount code, re-validated against the store on submission
+    discountCode: z.string().trim().min(1).optional(),
+    manualDiscounts: z
+      .array(
+        z.object({
+          // Cart line the discount applies to; the whole order when missing
+          variantId: variantIdSchema.optional(),
+          value: discountValueSchema,
+          reason: z.string().trim().min(1, "Enter a reason for the discount"),
+          // Needed unless the signed-in staff is a manager
+          approval: z
+            .object({ managerId: z.string(), token: z.string() })
+            .optional(),
+        })
+      )
+      .optional(),
+    // Id of one of the configured shipping rates
+    shippingRateId: z.string().min(1, "Select a delivery option"),
+    // One entry per payment method used, summing to the order total
+    payments: tendersSchema,
+    // Shopify customer picked in the lookup; otherwise one is found or
+    // created from the email and phone
+    customerId: z
+      .string()
+      .regex(/^gid:\/\/shopify\/Customer\/\d+$/, "Not a Shopify customer id")
+      .optional(),
+    // Reservation taken by this checkout, excluded when re-checking stock
+    holdId: z.string().uuid().optional(),
+    // Generated once per checkout by the client; retries with the same key
+    // return the order already created instead of a duplicate
+    idempotencyKey: z.string().uuid().optional(),
+  })
+  .superRefine((order, ctx) => {
+    if (order.address1) {
+      checkAddress(order, ctx);
+    }
+    // Runs even when other fields failed, so the lines may not be valid
+    (Array.isArray(order.lineItems) ? order.lineItems : []).forEach(
+      (item, index) => {
+        if (item?.takenNow && item.fromWarehouse) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Items from the warehouse cannot be taken now",
+            path: ["lineItems", index, "takenNow"],
+          });
+        }
+      }
+    );
+  })
+  .transform((order) => ({
+    ...order,
+    province: order.address1
+      ? resolveCountryProvinceCode(order.countryCode, order) ?? undefined
+      : undefined,
+  }));
+
+// What the client sends
+export type OrderInput = z.input<typeof orderInputSchema>;
+// What createOrder works with: phone in E.164, zip normalised, province as a
+// Shopify code
+export type ValidOrder = z.output<typeof orderInputSchema>;
+
+const FORM_FIELDS: OrderField[] = [
+  "firstName",
+  "lastName",
+  "email",
+  "phone",
+  "address1",
+  "city",
+  "province",
+  "zip",
+  "countryCode",
+  "discountCode",
+  "manualDiscounts",
+  "shippingRateId",
+  "payments",
+];
+
+// Spreads schema issues over the form fields and cart lines they are about
+export function toOrderErrors(
+  error: z.ZodError,
+  lineItems: unknown
+): { fieldErrors: OrderFieldErrors; lineErrors: Record<string, string> } {
+  const fieldErrors: OrderFieldErrors = {};
+  const lineErrors: Record<string, string> = {};
+
+  for (const issue of error.issues) {
+    const [field, index] = issue.path;
+    if (field === "lineItems" && typeof index === "number") {
+      const line = Array.isArray(lineItems) ? lineItems[index] : undefined;
+      if (typeof line?.variantId === "string" && !lineErrors[line.variantId]) {
+        lineErrors[line.variantId] = issue.message;
+      }
+      continue;
+    }
+    const formField = FORM_FIELDS.find((name) => name === field);
+    if (formField && !fieldErrors[formField]) {
+      fieldErrors[formField] = issue.message;
+    }
+  }
+
+  return { fieldErrors, lineErrors };
+}
@@ -0,0 +1,63 @@
+import { CreatedOrder, ShopifyMoneyBag } from "./orderResult";
+
+export interface OrderSearch {
+  // Only orders placed during this event
+  eventId: string;
+  // Inclusive dates, YYYY-MM-DD
+  from?: string;
+  to?: string;
+  // Order name, customer email or phone
+  text?: string;
+  staffId?: string;
+  // Cursor of the page to load
+  after?: string;
+}
+
+export interface OrderSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  email: string | null;
+  phone: string | null;
+  cancelledAt: string | null;
+  displayFinancialStatus: string | null;
+  tags: string[];
+  customer: { displayName: string } | null;
+  currentTotalPriceSet: ShopifyMoneyBag;
+  currentSubtotalLineItemsQuantity: number;
+}
+
+export interface OrderDetail extends CreatedOrder {
+  phone: string | null;
+  tags: string[];
+  note: string | null;
+  cancelledAt: string | null;
+  displayFinancialStatus: string | null;
+  displayFulfillmentStatus: string;
+  customer: { displayName: string } | null;
+}
+
+// Reasons staff can give when voiding an order, as Shopify's
+// OrderCancelReason values
+export const VOID_REASONS = {
+  CUSTOMER: "Customer changed their mind",
+  STAFF: "Entered by mistake",
+  INVENTORY: "Items not available",
+  OTHER: "Other",
+} as const;
+
+export type VoidReason = keyof typeof VOID_REASONS;
+
+// Orders are linked by the numeric part of their Shopify id
+export function getOrderPath(orderId: string) {
+  return `/orders/${orderId.split("/").pop()}`;
+}
+
+export function toOrderId(numericId: string) {
+  return `gid://shopify/Order/${numericId}`;
+}
+
+// PARTIALLY_REFUNDED → partially refunded
+export function formatOrderStatus(status: string) {
+  return status.toLowerCase().replace(/_/g, " ");
+}
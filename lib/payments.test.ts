@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { tendersSchema } from "./orderSchema";
+import { getChangeCents, validateTenders } from "./payments";
+
+describe("validateTenders", () => {
+  it("accepts tenders that add up to the total", () => {
+    expect(
+      validateTenders(
+        [
+          { method: "card", amountCents: 2000 },
+          { method: "cash", amountCents: 990, tenderedCents: 1000 },
+        ],
+        2990
+      )
+    ).toBeNull();
+  });
+
+  it("reports what is still to be paid or paid on top", () => {
+    expect(validateTenders([{ method: "card", amountCents: 2000 }], 2990)).toBe(
+      "€9.90 still to be paid"
+    );
+    expect(validateTenders([{ method: "card", amountCents: 3000 }], 2990)).toBe(
+      "Payments exceed the total by €0.10"
+    );
+  });
+
+  it("needs an amount on every tender", () => {
+    expect(
+      validateTenders(
+        [
+          { method: "card", amountCents: 2990 },
+          { method: "bizum", amountCents: 0 },
+        ],
+        2990
+      )
+    ).toBe("Enter an amount for Bizum");
+  });
+
+  it("only lets cash take more than the amount applied", () => {
+    expect(
+      validateTenders(
+        [{ method: "card", amountCents: 2990, tenderedCents: 3000 }],
+        2990
+      )
+    ).toBe("Only cash payments can take an amount tendered");
+    expect(
+      validateTenders(
+        [{ method: "cash", amountCents: 2990, tenderedCents: 2000 }],
+        2990
+      )
+    ).toBe("Cash given is less than the cash amount");
+  });
+
+  it("rejects unknown methods", () => {
+    const received: unknown = [{ method: "cheque", amountCents: 2990 }];
+    const parsed = tendersSchema.safeParse(received);
+
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].path).toEqual([0, "method"]);
+  });
+
+  it("needs no payment for fully discounted orders", () => {
+    expect(validateTenders([{ method: "card", amountCents: 0 }], 0)).toBeNull();
+    expect(validateTenders([], 0)).toBeNull();
+    expect(validateTenders([], 100)).toBe("Add at least one payment method");
+  });
+});
+
+describe("getChangeCents", () => {
+  it("adds up the change on cash tenders only", () => {
+    expect(
+      getChangeCents([
+        { method: "cash", amountCents: 990, tenderedCents: 2000 },
+        { method: "card", amountCents: 2000 },
+        { method: "cash", amountCents: 500 },
+      ])
+    ).toBe(1010);
+  });
+});
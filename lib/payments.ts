@@ -0,0 +1,77 @@
+import { formatCents } from "./money";
+
+export type PaymentMethod = "card" | "cash" | "bizum" | "gift_card";
+
+// `gateway` is the name written on the Shopify transaction, which finance
+// uses to reconcile each method against the terminal, the till and Bizum
+export const PAYMENT_METHODS: Record<
+  PaymentMethod,
+  { label: string; gateway: string }
+> = {
+  card: { label: "Card (terminal)", gateway: "Tarjeta TPV" },
+  cash: { label: "Cash", gateway: "Efectivo" },
+  bizum: { label: "Bizum", gateway: "Bizum" },
+  gift_card: { label: "Gift card", gateway: "Tarjeta regalo" },
+};
+
+export interface Tender {
+  method: PaymentMethod;
+  // Amount applied to the order
+  amountCents: number;
+  // Cash handed over by the customer, when more than the amount applied
+  tenderedCents?: number;
+}
+
+export function getChangeCents(tenders: Tender[]) {
+  return tenders.reduce(
+    (change, tender) =>
+      tender.method === "cash" && tender.tenderedCents
+        ? change + Math.max(0, tender.tenderedCents - tender.amountCents)
+        : change,
+    0
+  );
+}
+
+// Returns a message describing why the tenders cannot pay the order, or null
+export function validateTenders(
+  tenders: Tender[],
+  totalCents: number
+): string | null {
+  // Fully discounted orders have nothing to pay
+  if (totalCents === 0 && tenders.every((tender) => tender.amountCents === 0)) {
+    return null;
+  }
+
+  if (tenders.length === 0) {
+    return "Add at least one payment method";
+  }
+
+  for (const tender of tenders) {
+    if (!Object.keys(PAYMENT_METHODS).includes(tender.method)) {
+      return `Unknown payment method: ${tender.method}`;
+    }
+    if (!Number.isInteger(tender.amountCents) || tender.amountCents <= 0) {
+      return `Enter an amount for ${PAYMENT_METHODS[tender.method].label}`;
+    }
+    if (tender.tenderedCents !== undefined) {
+      if (tender.method !== "cash") {
+        return "Only cash payments can take an amount tendered";
+      }
+      if (tender.tenderedCents < tender.amountCents) {
+        return "Cash given is less than the cash amount";
+      }
+    }
+  }
+
+  const paidCents = tenders.reduce(
+    (total, tender) => total + tender.amountCents,
+    0
+  );
+  if (paidCents !== totalCents) {
+    return paidCents < totalCents
+      ? `€${formatCents(totalCents - paidCents)} still to be paid`
+      : `Payments exceed the total by €${formatCents(paidCents - totalCents)}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { VariantPrice, buildQuote, withShipping } from "./pricing";
+
+const prices = new Map<string, VariantPrice>([
+  ["shirt", { id: "shirt", price: "29.90", compareAtPrice: "39.90" }],
+  ["tote", { id: "tote", price: "12.50", compareAtPrice: null }],
+]);
+
+describe("buildQuote", () => {
+  it("prices lines from the variant prices in cents", () => {
+    const quote = buildQuote(
+      [
+        { variantId: "shirt", quantity: 2 },
+        { variantId: "tote", quantity: 1 },
+      ],
+      prices
+    );
+
+    expect(quote.lines).toEqual([
+      {
+        variantId: "shirt",
+        quantity: 2,
+        unitPriceCents: 2990,
+        compareAtPriceCents: 3990,
+        lineTotalCents: 5980,
+      },
+      {
+        variantId: "tote",
+        quantity: 1,
+        unitPriceCents: 1250,
+        compareAtPriceCents: null,
+        lineTotalCents: 1250,
+      },
+    ]);
+    expect(quote.subtotalCents).toBe(7230);
+    expect(quote.discountCents).toBe(0);
+    expect(quote.totalCents).toBe(7230);
+  });
+
+  it("throws for a variant without a price", () => {
+    expect(() =>
+      buildQuote([{ variantId: "unknown", quantity: 1 }], prices)
+    ).toThrow("No price found for variant unknown");
+  });
+
+  it("takes line discounts before order discounts and the code last", () => {
+    const quote = buildQuote(
+      [
+        { variantId: "shirt", quantity: 1 },
+        { variantId: "tote", quantity: 2 },
+      ],
+      prices,
+      {
+        discountCode: {
+          code: "POPUP10",
+          title: "10% off",
+          value: { type: "percentage", percentage: 10 },
+        },
+        manualDiscounts: [
+          {
+            reason: "Whole order",
+            value: { type: "fixed", amountCents: 1000 },
+          },
+          {
+            variantId: "shirt",
+            reason: "Stained",
+            value: { type: "percentage", percentage: 50 },
+          },
+        ],
+      }
+    );
+
+    // Shirt 2990 - 1495 = 1495, plus totes 2500 = 3995; -1000 = 2995;
+    // 10% of 2995 rounds to 300
+    expect(quote.discounts.map((discount) => discount.amountCents)).toEqual([
+      1000, 1495, 300,
+    ]);
+    expect(quote.discountCents).toBe(2795);
+    expect(quote.totalCents).toBe(5490 - 2795);
+  });
+
+  it("never discounts more than the price", () => {
+    const quote = buildQuote([{ variantId: "tote", quantity: 1 }], prices, {
+      discountCode: {
+        code: "FREE",
+        title: "€20 off",
+        value: { type: "fixed", amountCents: 2000 },
+      },
+      manualDiscounts: [],
+    });
+
+    expect(quote.discountCents).toBe(1250);
+    expect(quote.totalCents).toBe(0);
+  });
+});
+
+describe("withShipping", () => {
+  it("adds shipping to the discounted total", () => {
+    const quote = buildQuote([{ variantId: "tote", quantity: 2 }], prices, {
+      discountCode: null,
+      manualDiscounts: [
+        { reason: "Friend", value: { type: "fixed", amountCents: 500 } },
+      ],
+    });
+
+    const shipped = withShipping(quote, 495);
+    expect(shipped.shippingCents).toBe(495);
+    expect(shipped.totalCents).toBe(2500 - 500 + 495);
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  AppliedDiscount,
+  CodeDiscount,
+  ManualDiscount,
+  applyDiscounts,
+} from "./discounts";
+import { toCents } from "./money";
+
+export interface VariantPrice {
+  id: string;
+  price: string;
+  compareAtPrice: string | null;
+}
+
+export interface QuoteLine {
+  variantId: string;
+  quantity: number;
+  unitPriceCents: number;
+  compareAtPriceCents: number | null;
+  lineTotalCents: number;
+}
+
+export interface QuoteDiscounts {
+  discountCode: CodeDiscount | null;
+  manualDiscounts: ManualDiscount[];
+}
+
+export interface PricedQuote {
+  lines: QuoteLine[];
+  subtotalCents: number;
+  discounts: AppliedDiscount[];
+  discountCents: number;
+  shippingCents: number;
+  totalCents: number;
+}
+
+export const NO_DISCOUNTS: QuoteDiscounts = {
+  discountCode: null,
+  manualDiscounts: [],
+};
+
+// Prices the merchandise only; add shipping with withShipping once the
+// discounted subtotal is known, since free-shipping thresholds depend on it
+export function buildQuote(
+  lineItems: Array<{ variantId: string; quantity: number }>,
+  prices: Map<string, VariantPrice>,
+  { discountCode, manualDiscounts }: QuoteDiscounts = NO_DISCOUNTS
+): PricedQuote {
+  const lines = lineItems.map((item) => {
+    const variant = prices.get(item.variantId);
+    if (!variant) {
+      throw new Error(`No price found for variant ${item.variantId}`);
+    }
+
+    const unitPriceCents = toCents(variant.price);
+    return {
+      variantId: item.variantId,
+      quantity: item.quantity,
+      unitPriceCents,
+      compareAtPriceCents: variant.compareAtPrice
+        ? toCents(variant.compareAtPrice)
+        : null,
+      lineTotalCents: unitPriceCents * item.quantity,
+    };
+  });
+
+  const subtotalCents = lines.reduce(
+    (total, line) => total + line.lineTotalCents,
+    0
+  );
+  const discounts = applyDiscounts(lines, discountCode, manualDiscounts);
+  const discountCents = discounts.reduce(
+    (total, discount) => total + discount.amountCents,
+    0
+  );
+
+  return {
+    lines,
+    subtotalCents,
+    discounts,
+    discountCents,
+    shippingCents: 0,
+    totalCents: subtotalCents - discountCents,
+  };
+}
+
+export function withShipping(
+  quote: PricedQuote,
+  shippingCents: number
+): PricedQuote {
+  return {
+    ...quote,
+    shippingCents,
+    totalCents: quote.subtotalCents - quote.discountCents + shippingCents,
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  ITALIAN_PROVINCES,
+  PORTUGUESE_PROVINCES,
+  findProvinceCode,
+  getProvinceCode,
+  getProvinceCodeFromZip,
+  resolveProvinceCode,
+} from "./provinces";
+
+describe("getProvinceCode", () => {
+  it("accepts co-official and historical spellings", () => {
+    expect(getProvinceCode("Gerona")).toBe("GI");
+    expect(getProvinceCode("La Coruña")).toBe("C");
+    expect(getProvinceCode("Araba/Álava")).toBe("VI");
+  });
+
+  it("ignores accents, case and surrounding spaces", () => {
+    expect(getProvinceCode("  valència ")).toBe("V");
+    expect(getProvinceCode("ALMERIA")).toBe("AL");
+  });
+
+  it("accepts a province code", () => {
+    expect(getProvinceCode("m")).toBe("M");
+  });
+
+  it("returns null for unknown or empty names", () => {
+    expect(getProvinceCode("Atlantis")).toBeNull();
+    expect(getProvinceCode(" ")).toBeNull();
+  });
+});
+
+describe("getProvinceCodeFromZip", () => {
+  it("reads the province from the first two digits", () => {
+    expect(getProvinceCodeFromZip("28001")).toBe("M");
+    expect(getProvinceCodeFromZip("08001")).toBe("B");
+  });
+
+  it("returns null for postal codes that are not Spanish", () => {
+    expect(getProvinceCodeFromZip("2800")).toBeNull();
+    expect(getProvinceCodeFromZip("99001")).toBeNull();
+  });
+});
+
+describe("resolveProvinceCode", () => {
+  it("prefers the province given over the postal code", () => {
+    expect(
+      resolveProvinceCode({ province: "Girona", zip: "28001", city: "" })
+    ).toBe("GI");
+  });
+
+  it("falls back to the postal code, then the city", () => {
+    expect(resolveProvinceCode({ zip: "46001", city: "" })).toBe("V");
+    expect(resolveProvinceCode({ zip: "", city: "Sevilla" })).toBe("SE");
+    expect(resolveProvinceCode({ zip: "", city: "Benidorm" })).toBeNull();
+  });
+});
+
+describe("findProvinceCode", () => {
+  it("matches a name or a code", () => {
+    expect(findProvinceCode(PORTUGUESE_PROVINCES, "Lisboa")).toBe("PT-11");
+    expect(findProvinceCode(ITALIAN_PROVINCES, "mi")).toBe("MI");
+  });
+
+  it("matches the prefixed names Google gives Italian provinces", () => {
+    expect(
+      findProvinceCode(ITALIAN_PROVINCES, "Città Metropolitana di Milano")
+    ).toBe("MI");
+  });
+
+  it("returns null when nothing matches", () => {
+    expect(findProvinceCode(PORTUGUESE_PROVINCES, "Madrid")).toBeNull();
+  });
+});
@@ -0,0 +1,394 @@
+// Shopify province codes for Spain, keyed by every name a customer or Google
+// Places may use: Castilian, co-official and historical spellings
+export const SPANISH_PROVINCE_CODES: { [key: string]: string } = {
+  Álava: "VI",
+  Araba: "VI",
+  "Araba/Álava": "VI",
+  Albacete: "AB",
+  Alicante: "A",
+  Alacant: "A",
+  "Alicante/Alacant": "A",
+  Almería: "AL",
+  Asturias: "O",
+  "Principado de Asturias": "O",
+  Ávila: "AV",
+  Badajoz: "BA",
+  Barcelona: "B",
+  Burgos: "BU",
+  Cáceres: "CC",
+  Cádiz: "CA",
+  Cantabria: "S",
+  Castellón: "CS",
+  Castelló: "CS",
+  "Castellón/Castelló": "CS",
+  Ceuta: "CE",
+  "Ciudad Real": "CR",
+  Córdoba: "CO",
+  "A Coruña": "C",
+  "La Coruña": "C",
+  Cuenca: "CU",
+  Girona: "GI",
+  Gerona: "GI",
+  Granada: "GR",
+  Guadalajara: "GU",
+  Gipuzkoa: "SS",
+  Guipúzcoa: "SS",
+  Huelva: "H",
+  Huesca: "HU",
+  "Illes Balears": "PM",
+  "Islas Baleares": "PM",
+  Baleares: "PM",
+  Jaén: "J",
+  León: "LE",
+  Lleida: "L",
+  Lérida: "L",
+  Lugo: "LU",
+  Madrid: "M",
+  "Comunidad de Madrid": "M",
+  Málaga: "MA",
+  Melilla: "ML",
+  Murcia: "MU",
+  "Región de Murcia": "MU",
+  Navarra: "NA",
+  Nafarroa: "NA",
+  Ourense: "OR",
+  Orense: "OR",
+  Palencia: "P",
+  "Las Palmas": "GC",
+  Pontevedra: "PO",
+  "La Rioja": "LO",
+  Salamanca: "SA",
+  "Santa Cruz de Tenerife": "TF",
+  Segovia: "SG",
+  Sevilla: "SE",
+  Soria: "SO",
+  Tarragona: "T",
+  Teruel: "TE",
+  Toledo: "TO",
+  Valencia: "V",
+  València: "V",
+  "Valencia/València": "V",
+  Valladolid: "VA",
+  Bizkaia: "BI",
+  Vizcaya: "BI",
+  Zamora: "ZA",
+  Zaragoza: "Z",
+};
+
+// The first two digits of a Spanish postal code identify the province
+const PROVINCE_CODES_BY_ZIP_PREFIX: { [prefix: string]: string } = {
+  "01": "VI",
+  "02": "AB",
+  "03": "A",
+  "04": "AL",
+  "05": "AV",
+  "06": "BA",
+  "07": "PM",
+  "08": "B",
+  "09": "BU",
+  "10": "CC",
+  "11": "CA",
+  "12": "CS",
+  "13": "CR",
+  "14": "CO",
+  "15": "C",
+  "16": "CU",
+  "17": "GI",
+  "18": "GR",
+  "19": "GU",
+  "20": "SS",
+  "21": "H",
+  "22": "HU",
+  "23": "J",
+  "24": "LE",
+  "25": "L",
+  "26": "LO",
+  "27": "LU",
+  "28": "M",
+  "29": "MA",
+  "30": "MU",
+  "31": "NA",
+  "32": "OR",
+  "33": "O",
+  "34": "P",
+  "35": "GC",
+  "36": "PO",
+  "37": "SA",
+  "38": "TF",
+  "39": "S",
+  "40": "SG",
+  "41": "SE",
+  "42": "SO",
+  "43": "T",
+  "44": "TE",
+  "45": "TO",
+  "46": "V",
+  "47": "VA",
+  "48": "BI",
+  "49": "ZA",
+  "50": "Z",
+  "51": "CE",
+  "52": "ML",
+};
+
+// Names shown in the province picker, one per code
+export const SPANISH_PROVINCES: Array<{ code: string; name: string }> = [
+  { code: "C", name: "A Coruña" },
+  { code: "VI", name: "Araba/Álava" },
+  { code: "AB", name: "Albacete" },
+  { code: "A", name: "Alicante/Alacant" },
+  { code: "AL", name: "Almería" },
+  { code: "O", name: "Asturias" },
+  { code: "AV", name: "Ávila" },
+  { code: "BA", name: "Badajoz" },
+  { code: "B", name: "Barcelona" },
+  { code: "BI", name: "Bizkaia" },
+  { code: "BU", name: "Burgos" },
+  { code: "CC", name: "Cáceres" },
+  { code: "CA", name: "Cádiz" },
+  { code: "S", name: "Cantabria" },
+  { code: "CS", name: "Castellón/Castelló" },
+  { code: "CE", name: "Ceuta" },
+  { code: "CR", name: "Ciudad Real" },
+  { code: "CO", name: "Córdoba" },
+  { code: "CU", name: "Cuenca" },
+  { code: "SS", name: "Gipuzkoa" },
+  { code: "GI", name: "Girona" },
+  { code: "GR", name: "Granada" },
+  { code: "GU", name: "Guadalajara" },
+  { code: "H", name: "Huelva" },
+  { code: "HU", name: "Huesca" },
+  { code: "PM", name: "Illes Balears" },
+  { code: "J", name: "Jaén" },
+  { code: "LO", name: "La Rioja" },
+  { code: "GC", name: "Las Palmas" },
+  { code: "LE", name: "León" },
+  { code: "L", name: "Lleida" },
+  { code: "LU", name: "Lugo" },
+  { code: "M", name: "Madrid" },
+  { code: "MA", name: "Málaga" },
+  { code: "ML", name: "Melilla" },
+  { code: "MU", name: "Murcia" },
+  { code: "NA", name: "Navarra" },
+  { code: "OR", name: "Ourense" },
+  { code: "P", name: "Palencia" },
+  { code: "PO", name: "Pontevedra" },
+  { code: "SA", name: "Salamanca" },
+  { code: "TF", name: "Santa Cruz de Tenerife" },
+  { code: "SG", name: "Segovia" },
+  { code: "SE", name: "Sevilla" },
+  { code: "SO", name: "Soria" },
+  { code: "T", name: "Tarragona" },
+  { code: "TE", name: "Teruel" },
+  { code: "TO", name: "Toledo" },
+  { code: "V", name: "Valencia/València" },
+  { code: "VA", name: "Valladolid" },
+  { code: "ZA", name: "Zamora" },
+  { code: "Z", name: "Zaragoza" },
+];
+
+function normalizeName(name: string) {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim()
+    .toUpperCase();
+}
+
+// Accepts a province name in any recognised spelling, or a code
+export function getProvinceCode(provinceName: string): string | null {
+  const normalizedName = normalizeName(provinceName);
+  if (!normalizedName) return null;
+
+  for (const [name, code] of Object.entries(SPANISH_PROVINCE_CODES)) {
+    if (normalizeName(name) === normalizedName) {
+      return code;
+    }
+  }
+
+  const byCode = SPANISH_PROVINCES.find(
+    (province) => province.code === normalizedName
+  );
+  return byCode ? byCode.code : null;
+}
+
+export function getProvinceCodeFromZip(zip: string): string | null {
+  if (!/^\d{5}$/.test(zip.trim())) return null;
+  return PROVINCE_CODES_BY_ZIP_PREFIX[zip.trim().slice(0, 2)] ?? null;
+}
+
+// Explicit province first, then the postal code, then the city as a last
+// resort for cities named like their province (Madrid, Sevilla)
+export function resolveProvinceCode({
+  province,
+  zip,
+  city,
+}: {
+  province?: string;
+  zip: string;
+  city: string;
+}): string | null {
+  return (
+    (province ? getProvinceCode(province) : null) ??
+    getProvinceCodeFromZip(zip) ??
+    getProvinceCode(city)
+  );
+}
+
+// Shopify province codes for Italy are the two-letter vehicle plate codes
+// (sigle), which Google Places also returns as the short name
+export const ITALIAN_PROVINCES: Array<{ code: string; name: string }> = [
+  { code: "AG", name: "Agrigento" },
+  { code: "AL", name: "Alessandria" },
+  { code: "AN", name: "Ancona" },
+  { code: "AO", name: "Aosta" },
+  { code: "AR", name: "Arezzo" },
+  { code: "AP", name: "Ascoli Piceno" },
+  { code: "AT", name: "Asti" },
+  { code: "AV", name: "Avellino" },
+  { code: "BA", name: "Bari" },
+  { code: "BT", name: "Barletta-Andria-Trani" },
+  { code: "BL", name: "Belluno" },
+  { code: "BN", name: "Benevento" },
+  { code: "BG", name: "Bergamo" },
+  { code: "BI", name: "Biella" },
+  { code: "BO", name: "Bologna" },
+  { code: "BZ", name: "Bolzano" },
+  { code: "BS", name: "Brescia" },
+  { code: "BR", name: "Brindisi" },
+  { code: "CA", name: "Cagliari" },
+  { code: "CL", name: "Caltanissetta" },
+  { code: "CB", name: "Campobasso" },
+  { code: "CE", name: "Caserta" },
+  { code: "CT", name: "Catania" },
+  { code: "CZ", name: "Catanzaro" },
+  { code: "CH", name: "Chieti" },
+  { code: "CO", name: "Como" },
+  { code: "CS", name: "Cosenza" },
+  { code: "CR", name: "Cremona" },
+  { code: "KR", name: "Crotone" },
+  { code: "CN", name: "Cuneo" },
+  { code: "EN", name: "Enna" },
+  { code: "FM", name: "Fermo" },
+  { code: "FE", name: "Ferrara" },
+  { code: "FI", name: "Firenze" },
+  { code: "FG", name: "Foggia" },
+  { code: "FC", name: "Forlì-Cesena" },
+  { code: "FR", name: "Frosinone" },
+  { code: "GE", name: "Genova" },
+  { code: "GO", name: "Gorizia" },
+  { code: "GR", name: "Grosseto" },
+  { code: "IM", name: "Imperia" },
+  { code: "IS", name: "Isernia" },
+  { code: "AQ", name: "L'Aquila" },
+  { code: "SP", name: "La Spezia" },
+  { code: "LT", name: "Latina" },
+  { code: "LE", name: "Lecce" },
+  { code: "LC", name: "Lecco" },
+  { code: "LI", name: "Livorno" },
+  { code: "LO", name: "Lodi" },
+  { code: "LU", name: "Lucca" },
+  { code: "MC", name: "Macerata" },
+  { code: "MN", name: "Mantova" },
+  { code: "MS", name: "Massa-Carrara" },
+  { code: "MT", name: "Matera" },
+  { code: "ME", name: "Messina" },
+  { code: "MI", name: "Milano" },
+  { code: "MO", name: "Modena" },
+  { code: "MB", name: "Monza e Brianza" },
+  { code: "NA", name: "Napoli" },
+  { code: "NO", name: "Novara" },
+  { code: "NU", name: "Nuoro" },
+  { code: "OR", name: "Oristano" },
+  { code: "PD", name: "Padova" },
+  { code: "PA", name: "Palermo" },
+  { code: "PR", name: "Parma" },
+  { code: "PV", name: "Pavia" },
+  { code: "PG", name: "Perugia" },
+  { code: "PU", name: "Pesaro e Urbino" },
+  { code: "PE", name: "Pescara" },
+  { code: "PC", name: "Piacenza" },
+  { code: "PI", name: "Pisa" },
+  { code: "PT", name: "Pistoia" },
+  { code: "PN", name: "Pordenone" },
+  { code: "PZ", name: "Potenza" },
+  { code: "PO", name: "Prato" },
+  { code: "RG", name: "Ragusa" },
+  { code: "RA", name: "Ravenna" },
+  { code: "RC", name: "Reggio Calabria" },
+  { code: "RE", name: "Reggio Emilia" },
+  { code: "RI", name: "Rieti" },
+  { code: "RN", name: "Rimini" },
+  { code: "RM", name: "Roma" },
+  { code: "RO", name: "Rovigo" },
+  { code: "SA", name: "Salerno" },
+  { code: "SS", name: "Sassari" },
+  { code: "SV", name: "Savona" },
+  { code: "SI", name: "Siena" },
+  { code: "SR", name: "Siracusa" },
+  { code: "SO", name: "Sondrio" },
+  { code: "SU", name: "Sud Sardegna" },
+  { code: "TA", name: "Taranto" },
+  { code: "TE", name: "Teramo" },
+  { code: "TR", name: "Terni" },
+  { code: "TO", name: "Torino" },
+  { code: "TP", name: "Trapani" },
+  { code: "TN", name: "Trento" },
+  { code: "TV", name: "Treviso" },
+  { code: "TS", name: "Trieste" },
+  { code: "UD", name: "Udine" },
+  { code: "VA", name: "Varese" },
+  { code: "VE", name: "Venezia" },
+  { code: "VB", name: "Verbano-Cusio-Ossola" },
+  { code: "VC", name: "Vercelli" },
+  { code: "VR", name: "Verona" },
+  { code: "VV", name: "Vibo Valentia" },
+  { code: "VI", name: "Vicenza" },
+  { code: "VT", name: "Viterbo" },
+];
+
+// Portugal is split into districts plus the two autonomous regions
+export const PORTUGUESE_PROVINCES: Array<{ code: string; name: string }> = [
+  { code: "PT-20", name: "Açores" },
+  { code: "PT-01", name: "Aveiro" },
+  { code: "PT-02", name: "Beja" },
+  { code: "PT-03", name: "Braga" },
+  { code: "PT-04", name: "Bragança" },
+  { code: "PT-05", name: "Castelo Branco" },
+  { code: "PT-06", name: "Coimbra" },
+  { code: "PT-07", name: "Évora" },
+  { code: "PT-08", name: "Faro" },
+  { code: "PT-09", name: "Guarda" },
+  { code: "PT-10", name: "Leiria" },
+  { code: "PT-11", name: "Lisboa" },
+  { code: "PT-30", name: "Madeira" },
+  { code: "PT-12", name: "Portalegre" },
+  { code: "PT-13", name: "Porto" },
+  { code: "PT-14", name: "Santarém" },
+  { code: "PT-15", name: "Setúbal" },
+  { code: "PT-16", name: "Viana do Castelo" },
+  { code: "PT-17", name: "Vila Real" },
+  { code: "PT-18", name: "Viseu" },
+];
+
+// Matches a name or code against a province table. Google prefixes Italian
+// provinces ("Città Metropolitana di Milano"), so names are also matched as a
+// suffix.
+export function findProvinceCode(
+  provinces: Array<{ code: string; name: string }>,
+  provinceName: string
+): string | null {
+  const normalizedName = normalizeName(provinceName);
+  if (!normalizedName) return null;
+
+  const match =
+    provinces.find(
+      (province) =>
+        province.code === normalizedName ||
+        normalizeName(province.name) === normalizedName
+    ) ??
+    provinces.find((province) =>
+      normalizedName.endsWith(` ${normalizeName(province.name)}`)
+    );
+  return match ? match.code : null;
+}
@@ -0,0 +1,85 @@
+import { PDFDocument, PDFFont, StandardFonts, rgb } from "pdf-lib";
+import { CashCount, SalesReport, getReportSections } from "./reports";
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const FONT_SIZE = 9;
+const LINE_HEIGHT = 13;
+
+// The standard PDF fonts only cover WinAnsi; anything else (emoji, other
+// scripts) would make pdf-lib throw
+function toWinAnsi(text: string) {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ]/g, "?");
+}
+
+// Shortens text with an ellipsis so it fits in the column
+function fitText(text: string, font: PDFFont, maxWidth: number) {
+  let fitted = toWinAnsi(text);
+  if (font.widthOfTextAtSize(fitted, FONT_SIZE) <= maxWidth) return fitted;
+
+  while (
+    fitted.length > 0 &&
+    font.widthOfTextAtSize(`${fitted}…`, FONT_SIZE) > maxWidth
+  ) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}…`;
+}
+
+export async function renderSalesReportPdf(
+  report: SalesReport,
+  cashCount: CashCount | null
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Pop Up sales report ${report.date}`);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const nextLine = (height = LINE_HEIGHT) => {
+    y -= height;
+    if (y < MARGIN) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  page.drawText(`Pop Up sales report - ${report.date}`, {
+    x: MARGIN,
+    y,
+    size: 16,
+    font: boldFont,
+  });
+  nextLine(28);
+
+  for (const section of getReportSections(report, cashCount)) {
+    page.drawText(section.title, { x: MARGIN, y, size: 12, font: boldFont });
+    nextLine(18);
+
+    const rows = section.header
+      ? [section.header, ...section.rows]
+      : section.rows;
+    const columnCount = Math.max(2, ...rows.map((row) => row.length));
+    const columnWidth = (PAGE_WIDTH - 2 * MARGIN) / columnCount;
+
+    rows.forEach((row, rowIndex) => {
+      const rowFont = section.header && rowIndex === 0 ? boldFont : font;
+      row.forEach((cell, columnIndex) => {
+        page.drawText(fitText(cell, rowFont, columnWidth - 6), {
+          x: MARGIN + columnIndex * columnWidth,
+          y,
+          size: FONT_SIZE,
+          font: rowFont,
+          color: rgb(0, 0, 0),
+        });
+      });
+      nextLine();
+    });
+    nextLine(10);
+  }
+
+  return pdf.save();
+}
@@ -0,0 +1,224 @@
+import { describe, expect, it } from "vitest";
+import {
+  ReportOrder,
+  ReportRefund,
+  ReportTransaction,
+  buildSalesReport,
+  getExpectedCashCents,
+  toSalesReportCsv,
+} from "./reports";
+
+function money(amount: string) {
+  return { shopMoney: { amount, currencyCode: "EUR" } };
+}
+
+function transaction(
+  gateway: string,
+  kind: string,
+  amount: string
+): ReportTransaction {
+  return { gateway, kind, status: "SUCCESS", amountSet: money(amount) };
+}
+
+function order(
+  name: string,
+  total: string,
+  transactions: ReportTransaction[],
+  quantity = 1
+): ReportOrder {
+  return {
+    id: `gid://shopify/Order/${name}`,
+    name,
+    totalPriceSet: money(total),
+    totalDiscountsSet: money("0.00"),
+    totalShippingPriceSet: money("0.00"),
+    transactions,
+    lineItems: {
+      nodes: [
+        {
+          title: "T-shirt",
+          variantTitle: "M",
+          sku: "TS-M",
+          quantity,
+          discountedUnitPriceAfterAllDiscountsSet: money(
+            (Number(total) / quantity).toFixed(2)
+          ),
+          variant: { id: "gid://shopify/ProductVariant/1" },
+        },
+      ],
+    },
+  };
+}
+
+function refund(amount: string, gateway: string): ReportRefund {
+  return {
+    createdAt: "2025-06-11T12:00:00Z",
+    totalRefundedSet: money(amount),
+    transactions: { nodes: [transaction(gateway, "REFUND", amount)] },
+  };
+}
+
+describe("buildSalesReport", () => {
+  it("adds up the day's orders by payment method and product", () => {
+    const report = buildSalesReport(
+      "2025-06-11",
+      [
+        order("#1001", "30.00", [transaction("Efectivo", "SALE", "30.00")]),
+        order(
+          "#1002",
+          "50.00",
+          [transaction("Tarjeta TPV", "SALE", "50.00")],
+          2
+        ),
+      ],
+      []
+    );
+
+    expect(report).toMatchObject({
+      orderCount: 2,
+      unitCount: 3,
+      totalCents: 8000,
+      averageTicketCents: 4000,
+      refundCount: 0,
+      cashSalesCents: 3000,
+      cashRefundsCents: 0,
+    });
+    expect(report.payments).toEqual([
+      { gateway: "Tarjeta TPV", label: "Card (terminal)", amountCents: 5000 },
+      { gateway: "Efectivo", label: "Cash", amountCents: 3000 },
+    ]);
+    expect(report.products).toEqual([
+      {
+        title: "T-shirt",
+        variantTitle: "M",
+        sku: "TS-M",
+        units: 3,
+        revenueCents: 8000,
+      },
+    ]);
+  });
+
+  it("keeps an order's checkout totals when it was refunded later", () => {
+    const refunded = order("#1001", "30.00", [
+      transaction("Efectivo", "SALE", "30.00"),
+      transaction("Efectivo", "REFUND", "30.00"),
+    ]);
+
+    const report = buildSalesReport("2025-06-11", [refunded], []);
+
+    expect(report.totalCents).toBe(3000);
+    expect(report.unitCount).toBe(1);
+    expect(report.cashSalesCents).toBe(3000);
+    expect(report.payments).toEqual([
+      { gateway: "Efectivo", label: "Cash", amountCents: 3000 },
+    ]);
+  });
+
+  it("takes the day's refunds off payments and the cash-up", () => {
+    const report = buildSalesReport(
+      "2025-06-11",
+      [order("#1003", "40.00", [transaction("Efectivo", "SALE", "40.00")])],
+      [refund("15.00", "Efectivo"), refund("20.00", "Tarjeta TPV")]
+    );
+
+    expect(report).toMatchObject({
+      totalCents: 4000,
+      refundCount: 2,
+      refundedCents: 3500,
+      cashSalesCents: 4000,
+      cashRefundsCents: 1500,
+    });
+    expect(report.payments).toEqual([
+      { gateway: "Efectivo", label: "Cash", amountCents: 2500 },
+      { gateway: "Tarjeta TPV", label: "Card (terminal)", amountCents: -2000 },
+    ]);
+    expect(getExpectedCashCents(report, { openingFloatCents: 10000 })).toBe(
+      12500
+    );
+  });
+
+  it("leaves out the exchange credit already sold with the original order", () => {
+    const report = buildSalesReport(
+      "2025-06-11",
+      [
+        order("#1001", "30.00", [transaction("Efectivo", "SALE", "30.00")]),
+        order("#1002", "35.00", [
+          transaction("Cambio", "SALE", "30.00"),
+          transaction("Efectivo", "SALE", "5.00"),
+        ]),
+      ],
+      []
+    );
+
+    expect(report.totalCents).toBe(3500);
+    expect(report.cashSalesCents).toBe(3500);
+    expect(report.payments).toEqual([
+      { gateway: "Efectivo", label: "Cash", amountCents: 3500 },
+    ]);
+  });
+
+  it("does not count a voided exchange's credit as refunded", () => {
+    const report = buildSalesReport(
+      "2025-06-11",
+      [],
+      [
+        {
+          ...refund("35.00", "Efectivo"),
+          transactions: {
+            nodes: [
+              transaction("Cambio", "REFUND", "30.00"),
+              transaction("Efectivo", "REFUND", "5.00"),
+            ],
+          },
+        },
+      ]
+    );
+
+    expect(report.refundedCents).toBe(500);
+    expect(report.cashRefundsCents).toBe(500);
+    expect(report.payments).toEqual([
+      { gateway: "Efectivo", label: "Cash", amountCents: -500 },
+    ]);
+  });
+
+  it("ignores transactions that did not go through", () => {
+    const report = buildSalesReport(
+      "2025-06-11",
+      [
+        order("#1004", "30.00", [
+          { ...transaction("Tarjeta TPV", "SALE", "30.00"), status: "FAILURE" },
+          transaction("Efectivo", "SALE", "30.00"),
+        ]),
+      ],
+      []
+    );
+
+    expect(report.payments).toEqual([
+      { gateway: "Efectivo", label: "Cash", amountCents: 3000 },
+    ]);
+  });
+});
+
+describe("toSalesReportCsv", () => {
+  it("quotes cells with commas and includes the cash count", () => {
+    const report = buildSalesReport(
+      "2025-06-11",
+      [order("#1001", "30.00", [transaction("Efectivo", "SALE", "30.00")])],
+      [refund("10.00", "Efectivo")]
+    );
+    const csv = toSalesReportCsv(report, {
+      eventId: "feria-2025",
+      date: "2025-06-11",
+      openingFloatCents: 5000,
+      countedCents: 7000,
+      note: "Till 1, checked twice",
+      countedBy: "Ana",
+      countedAt: 0,
+    });
+
+    expect(csv).toContain("Cash refunds,10.00");
+    expect(csv).toContain("Expected,70.00");
+    expect(csv).toContain("Difference,0.00");
+    expect(csv).toContain('Note,"Till 1, checked twice"');
+  });
+});
@@ -0,0 +1,330 @@
+import { z } from "zod";
+import { formatCents, toCents } from "./money";
+import { ShopifyMoneyBag } from "./orderResult";
+import { PAYMENT_METHODS } from "./payments";
+import { EXCHANGE_CREDIT_GATEWAY } from "./returns";
+
+export interface ReportTransaction {
+  gateway: string;
+  kind: string;
+  status: string;
+  amountSet: ShopifyMoneyBag;
+}
+
+// Pop-up order with the fields the end-of-day report adds up. Totals and
+// quantities are the ones at checkout, so a later refund doesn't change the
+// day the order was placed.
+export interface ReportOrder {
+  id: string;
+  name: string;
+  totalPriceSet: ShopifyMoneyBag;
+  totalDiscountsSet: ShopifyMoneyBag;
+  totalShippingPriceSet: ShopifyMoneyBag;
+  transactions: ReportTransaction[];
+  lineItems: {
+    nodes: Array<{
+      title: string;
+      variantTitle: string | null;
+      sku: string | null;
+      quantity: number;
+      discountedUnitPriceAfterAllDiscountsSet: ShopifyMoneyBag;
+      variant: { id: string } | null;
+    }>;
+  };
+}
+
+// Refund of a pop-up order, counted on the day it was made
+export interface ReportRefund {
+  createdAt: string;
+  totalRefundedSet: ShopifyMoneyBag;
+  transactions: { nodes: ReportTransaction[] };
+}
+
+export interface SalesReport {
+  // YYYY-MM-DD
+  date: string;
+  orderCount: number;
+  unitCount: number;
+  totalCents: number;
+  discountCents: number;
+  shippingCents: number;
+  averageTicketCents: number;
+  refundCount: number;
+  refundedCents: number;
+  // Taken minus refunded on the day, per Shopify payment gateway
+  payments: Array<{ gateway: string; label: string; amountCents: number }>;
+  products: Array<{
+    title: string;
+    variantTitle: string | null;
+    sku: string | null;
+    units: number;
+    revenueCents: number;
+  }>;
+  cashSalesCents: number;
+  cashRefundsCents: number;
+}
+
+// Cash counted in the till by a manager when closing the day
+export interface CashCount {
+  // Event whose till was counted
+  eventId: string;
+  date: string;
+  openingFloatCents: number;
+  countedCents: number;
+  note?: string;
+  countedBy: string;
+  countedAt: number;
+}
+
+export function isReportDate(value: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+// What the cash-up form sends; the rest of CashCount is filled in on the
+// server
+export const cashCountInputSchema = z.object({
+  date: z.string().refine(isReportDate, "Not a valid date"),
+  openingFloatCents: z
+    .number()
+    .int()
+    .nonnegative("The opening float cannot be negative"),
+  countedCents: z
+    .number()
+    .int()
+    .nonnegative("The counted cash cannot be negative"),
+  note: z.string().trim().max(500).optional(),
+});
+
+export type CashCountInput = z.input<typeof cashCountInputSchema>;
+
+function getPaymentLabel(gateway: string) {
+  const method = Object.values(PAYMENT_METHODS).find(
+    (method) => method.gateway === gateway
+  );
+  return method?.label ?? gateway;
+}
+
+function getTransactionCents(transaction: ReportTransaction) {
+  if (transaction.status !== "SUCCESS") return 0;
+
+  const cents = toCents(transaction.amountSet.shopMoney.amount);
+  if (transaction.kind === "SALE" || transaction.kind === "CAPTURE") {
+    return cents;
+  }
+  if (transaction.kind === "REFUND") {
+    return -cents;
+  }
+  return 0;
+}
+
+// Every order placed on the day counts at its checkout totals, even if it was
+// refunded or voided since; `refunds` are the ones made on the day, whichever
+// day their order was placed. The part of an exchange order paid with the
+// returned items was sold with the original order, so it is left out.
+export function buildSalesReport(
+  date: string,
+  orders: ReportOrder[],
+  refunds: ReportRefund[]
+): SalesReport {
+  const payments = new Map<string, number>();
+  const products = new Map<string, SalesReport["products"][number]>();
+  let totalCents = 0;
+  let discountCents = 0;
+  let shippingCents = 0;
+  let unitCount = 0;
+  let refundedCents = 0;
+  let cashSalesCents = 0;
+  let cashRefundsCents = 0;
+
+  const addPayment = (transaction: ReportTransaction) => {
+    const cents = getTransactionCents(transaction);
+    if (cents !== 0) {
+      payments.set(
+        transaction.gateway,
+        (payments.get(transaction.gateway) ?? 0) + cents
+      );
+    }
+  };
+
+  for (const order of orders) {
+    discountCents += toCents(order.totalDiscountsSet.shopMoney.amount);
+    shippingCents += toCents(order.totalShippingPriceSet.shopMoney.amount);
+
+    let creditCents = 0;
+    // Refunds are counted on the day they were made, below
+    for (const transaction of order.transactions) {
+      if (transaction.kind === "REFUND") continue;
+      if (transaction.gateway === EXCHANGE_CREDIT_GATEWAY) {
+        creditCents += getTransactionCents(transaction);
+        continue;
+      }
+      addPayment(transaction);
+      if (transaction.gateway === PAYMENT_METHODS.cash.gateway) {
+        cashSalesCents += getTransactionCents(transaction);
+      }
+    }
+    totalCents += toCents(order.totalPriceSet.shopMoney.amount) - creditCents;
+
+    for (const line of order.lineItems.nodes) {
+      if (line.quantity === 0) continue;
+
+      const key = line.variant?.id ?? `${line.title}/${line.variantTitle}`;
+      const product = products.get(key) ?? {
+        title: line.title,
+        variantTitle: line.variantTitle,
+        sku: line.sku,
+        units: 0,
+        revenueCents: 0,
+      };
+      product.units += line.quantity;
+      product.revenueCents +=
+        line.quantity *
+        toCents(line.discountedUnitPriceAfterAllDiscountsSet.shopMoney.amount);
+      products.set(key, product);
+      unitCount += line.quantity;
+    }
+  }
+
+  for (const refund of refunds) {
+    refundedCents += toCents(refund.totalRefundedSet.shopMoney.amount);
+    for (const transaction of refund.transactions.nodes) {
+      if (transaction.kind !== "REFUND") continue;
+      // Voiding an exchange hands the credit back to the returned items,
+      // not to the customer
+      if (transaction.gateway === EXCHANGE_CREDIT_GATEWAY) {
+        refundedCents += getTransactionCents(transaction);
+        continue;
+      }
+      addPayment(transaction);
+      if (transaction.gateway === PAYMENT_METHODS.cash.gateway) {
+        cashRefundsCents -= getTransactionCents(transaction);
+      }
+    }
+  }
+
+  return {
+    date,
+    orderCount: orders.length,
+    unitCount,
+    totalCents,
+    discountCents,
+    shippingCents,
+    averageTicketCents:
+      orders.length > 0 ? Math.round(totalCents / orders.length) : 0,
+    refundCount: refunds.length,
+    refundedCents,
+    payments: [...payments]
+      .map(([gateway, amountCents]) => ({
+        gateway,
+        label: getPaymentLabel(gateway),
+        amountCents,
+      }))
+      .sort((a, b) => b.amountCents - a.amountCents),
+    products: [...products.values()].sort(
+      (a, b) => b.revenueCents - a.revenueCents
+    ),
+    cashSalesCents,
+    cashRefundsCents,
+  };
+}
+
+// Cash that should be in the till: the opening float plus cash taken, less
+// cash handed back
+export function getExpectedCashCents(
+  report: Pick<SalesReport, "cashSalesCents" | "cashRefundsCents">,
+  cashCount: Pick<CashCount, "openingFloatCents">
+) {
+  return (
+    cashCount.openingFloatCents +
+    report.cashSalesCents -
+    report.cashRefundsCents
+  );
+}
+
+export interface ReportSection {
+  title: string;
+  // Column titles, for sections that are tables rather than label/value
+  header?: string[];
+  rows: string[][];
+}
+
+// The report as titled tables, rendered both to CSV and to PDF
+export function getReportSections(
+  report: SalesReport,
+  cashCount: CashCount | null
+): ReportSection[] {
+  const sections: ReportSection[] = [
+    {
+      title: "Summary",
+      rows: [
+        ["Orders", String(report.orderCount)],
+        ["Units", String(report.unitCount)],
+        ["Total", formatCents(report.totalCents)],
+        ["Discounts", formatCents(report.discountCents)],
+        ["Shipping", formatCents(report.shippingCents)],
+        ["Average ticket", formatCents(report.averageTicketCents)],
+        ["Refunds", String(report.refundCount)],
+        ["Refunded", formatCents(report.refundedCents)],
+      ],
+    },
+    {
+      title: "Payments",
+      header: ["Method", "Amount"],
+      rows: report.payments.map((payment) => [
+        payment.label,
+        formatCents(payment.amountCents),
+      ]),
+    },
+    {
+      title: "Products",
+      header: ["Product", "Variant", "SKU", "Units", "Revenue"],
+      rows: report.products.map((product) => [
+        product.title,
+        product.variantTitle ?? "",
+        product.sku ?? "",
+        String(product.units),
+        formatCents(product.revenueCents),
+      ]),
+    },
+  ];
+
+  if (cashCount) {
+    const expectedCents = getExpectedCashCents(report, cashCount);
+    sections.push({
+      title: "Cash",
+      rows: [
+        ["Opening float", formatCents(cashCount.openingFloatCents)],
+        ["Cash sales", formatCents(report.cashSalesCents)],
+        ["Cash refunds", formatCents(report.cashRefundsCents)],
+        ["Expected", formatCents(expectedCents)],
+        ["Counted", formatCents(cashCount.countedCents)],
+        ["Difference", formatCents(cashCount.countedCents - expectedCents)],
+        ["Counted by", cashCount.countedBy],
+        ...(cashCount.note ? [["Note", cashCount.note]] : []),
+      ],
+    });
+  }
+
+  return sections;
+}
+
+function toCsvCell(value: string) {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toSalesReportCsv(
+  report: SalesReport,
+  cashCount: CashCount | null
+) {
+  const lines = [`Pop Up sales report,${report.date}`];
+  for (const section of getReportSections(report, cashCount)) {
+    lines.push("", section.title);
+    if (section.header) {
+      lines.push(section.header.map(toCsvCell).join(","));
+    }
+    for (const row of section.rows) {
+      lines.push(row.map(toCsvCell).join(","));
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  getExchangeProblem,
+  limitRefundTransactions,
+  returnInputSchema,
+} from "./returns";
+
+describe("limitRefundTransactions", () => {
+  const transactions = [
+    { gateway: "Tarjeta TPV", amountCents: 3000, parentId: "t1" },
+    { gateway: "Efectivo", amountCents: 2000, parentId: "t2" },
+  ];
+
+  it("pays back the payments in order up to the limit", () => {
+    expect(limitRefundTransactions(transactions, 4000)).toEqual([
+      { gateway: "Tarjeta TPV", amountCents: 3000, parentId: "t1" },
+      { gateway: "Efectivo", amountCents: 1000, parentId: "t2" },
+    ]);
+  });
+
+  it("refunds nothing when the exchange takes the whole value", () => {
+    expect(limitRefundTransactions(transactions, 0)).toEqual([]);
+  });
+});
+
+describe("getExchangeProblem", () => {
+  const lines = [
+    {
+      id: "gid://shopify/LineItem/1",
+      title: "T-shirt",
+      productId: "gid://shopify/Product/10",
+    },
+  ];
+
+  it("accepts another variant of the same product", () => {
+    expect(
+      getExchangeProblem(
+        [
+          {
+            lineItemId: "gid://shopify/LineItem/1",
+            exchangeVariantId: "gid://shopify/ProductVariant/2",
+          },
+        ],
+        lines,
+        new Map([
+          ["gid://shopify/ProductVariant/2", "gid://shopify/Product/10"],
+        ])
+      )
+    ).toBeNull();
+  });
+
+  it("rejects a variant of another product", () => {
+    expect(
+      getExchangeProblem(
+        [
+          {
+            lineItemId: "gid://shopify/LineItem/1",
+            exchangeVariantId: "gid://shopify/ProductVariant/3",
+          },
+        ],
+        lines,
+        new Map([
+          ["gid://shopify/ProductVariant/3", "gid://shopify/Product/20"],
+        ])
+      )
+    ).toBe("T-shirt can only be exchanged for a variant of the same product");
+  });
+
+  it("ignores items that are refunded", () => {
+    expect(
+      getExchangeProblem(
+        [{ lineItemId: "gid://shopify/LineItem/1" }],
+        lines,
+        new Map()
+      )
+    ).toBeNull();
+  });
+});
+
+describe("returnInputSchema", () => {
+  it("needs at least one item and a reason", () => {
+    const result = returnInputSchema.safeParse({
+      orderId: "gid://shopify/Order/1",
+      reason: "",
+      lines: [],
+      idempotencyKey: "5f0c6a52-7b7e-4f7a-9d8e-2f4b1c3a6e90",
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+      "Select a reason",
+      "Select at least one item to return",
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+import { z } from "zod";
+import { PAYMENT_METHODS, PaymentMethod } from "./payments";
+
+// Why items came back, recorded on the refund
+export const RETURN_REASONS = {
+  wrong_size: "Wrong size",
+  defective: "Defective",
+  not_as_described: "Not as described",
+  changed_mind: "Changed their mind",
+  other: "Other",
+} as const;
+
+export type ReturnReason = keyof typeof RETURN_REASONS;
+
+// Gateway of the exchange order's payment covered by the returned items
+export const EXCHANGE_CREDIT_GATEWAY = "Cambio";
+
+// Part of a refund paid back through one of the order's payments
+export interface SuggestedTransaction {
+  gateway: string;
+  amountCents: number;
+  // Payment being refunded
+  parentId: string;
+}
+
+// Takes the suggested refund transactions in order until `limitCents` is
+// paid back, for refunds where part of the value went to an exchange
+export function limitRefundTransactions(
+  transactions: SuggestedTransaction[],
+  limitCents: number
+): SuggestedTransaction[] {
+  let remainingCents = limitCents;
+  const limited: SuggestedTransaction[] = [];
+  for (const transaction of transactions) {
+    if (remainingCents <= 0) break;
+    const amountCents = Math.min(transaction.amountCents, remainingCents);
+    limited.push({ ...transaction, amountCents });
+    remainingCents -= amountCents;
+  }
+  return limited;
+}
+
+// An item can only be exchanged for another variant of the same product;
+// `productIds` maps each exchange variant to its product
+export function getExchangeProblem(
+  returned: Array<{ lineItemId: string; exchangeVariantId?: string }>,
+  lines: Array<Pick<ReturnableLine, "id" | "title" | "productId">>,
+  productIds: Map<string, string>
+): string | null {
+  for (const { lineItemId, exchangeVariantId } of returned) {
+    if (!exchangeVariantId) continue;
+    const line = lines.find((line) => line.id === lineItemId);
+    if (
+      !line?.productId ||
+      productIds.get(exchangeVariantId) !== line.productId
+    ) {
+      return `${
+        line?.title ?? "An item"
+      } can only be exchanged for a variant of the same product`;
+    }
+  }
+  return null;
+}
+
+export interface ExchangeOption {
+  variantId: string;
+  title: string;
+  price: string;
+  inventoryQuantity: number;
+}
+
+export interface ReturnableLine {
+  // Shopify line item id
+  id: string;
+  title: string;
+  variantTitle: string | null;
+  variantId: string | null;
+  productId: string | null;
+  // Units not refunded yet
+  refundableQuantity: number;
+  // Units that have not left through a fulfillment
+  unfulfilledQuantity: number;
+  // What the customer paid per unit, after discounts
+  unitPriceCents: number;
+  // Other variants of the same product in stock at the pop-up
+  exchangeOptions: ExchangeOption[];
+}
+
+export interface ReturnableOrder {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  customerName: string | null;
+  lines: ReturnableLine[];
+}
+
+const REASON_IDS = Object.keys(RETURN_REASONS) as [
+  ReturnReason,
+  ...ReturnReason[]
+];
+const PAYMENT_METHOD_IDS = Object.keys(PAYMENT_METHODS) as [
+  PaymentMethod,
+  ...PaymentMethod[]
+];
+
+export const returnInputSchema = z.object({
+  orderId: z.string().regex(/^gid:\/\/shopify\/Order\/\d+$/),
+  reason: z.enum(REASON_IDS, {
+    errorMap: () => ({ message: "Select a reason" }),
+  }),
+  note: z.string().trim().max(500).optional(),
+  lines: z
+    .array(
+      z.object({
+        lineItemId: z.string().min(1),
+        quantity: z.number().int().positive(),
+        // Variant given in exchange; refunded when missing
+        exchangeVariantId: z
+          .string()
+          .regex(/^gid:\/\/shopify\/ProductVariant\/\d+$/)
+          .optional(),
+      })
+    )
+    .min(1, "Select at least one item to return"),
+  // How the customer pays when the exchange costs more than the return
+  paymentMethod: z.enum(PAYMENT_METHOD_IDS).optional(),
+  // Generated once per return by the client; retries with the same key
+  // return the return already processed instead of refunding twice
+  idempotencyKey: z.string().uuid(),
+});
+
+export type ReturnInput = z.input<typeof returnInputSchema>;
+export type ValidReturn = z.output<typeof returnInputSchema>;
+
+export interface ReturnSuccess {
+  success: true;
+  // Paid back to the customer
+  refundedCents: number;
+  // Charged on the exchange order on top of the returned items. Not known
+  // when the return was found again in Shopify after a crash.
+  amountDueCents?: number;
+  exchangeOrderName?: string;
+}
+
+export interface ReturnFailure {
+  success: false;
+  error: string;
+}
+
+export type ReturnResult = ReturnSuccess | ReturnFailure;
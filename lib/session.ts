@@ -0,0 +1,94 @@
+import { StaffMember } from "./staff";
+
+// Session tokens are signed with Web Crypto so they can be verified both in
+// middleware (edge runtime) and in server actions (Node.js runtime).
+export const SESSION_COOKIE = "popup_session";
+export const SESSION_MAX_AGE_SECONDS = 12 * 60 * 60;
+
+interface SessionPayload {
+  sub: string;
+  name: string;
+  role: StaffMember["role"];
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+// Read from the environment directly because middleware cannot load the
+// server config; lib/config.ts still validates it at boot
+async function getSigningKey() {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("Missing SESSION_SECRET");
+  }
+
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+export async function createSessionToken(staff: StaffMember) {
+  const payload: SessionPayload = {
+    sub: staff.id,
+    name: staff.name,
+    role: staff.role,
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS,
+  };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await getSigningKey(),
+    encoder.encode(body)
+  );
+
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+export async function verifySessionToken(
+  token: string | undefined
+): Promise<StaffMember | null> {
+  if (!token) return null;
+
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  try {
+    const isValid = await crypto.subtle.verify(
+      "HMAC",
+      await getSigningKey(),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!isValid) return null;
+
+    const payload: SessionPayload = JSON.parse(
+      new TextDecoder().decode(fromBase64Url(body))
+    );
+    if (payload.exp < Date.now() / 1000) return null;
+
+    return { id: payload.sub, name: payload.name, role: payload.role };
+  } catch (error) {
+    console.error("Invalid session token:", error);
+    return null;
+  }
+}
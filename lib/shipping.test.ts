@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_SHIPPING_RATES,
+  getShippingPriceCents,
+  getShippingZone,
+} from "./shipping";
+
+const [pickup, standard, express] = DEFAULT_SHIPPING_RATES;
+
+describe("getShippingZone", () => {
+  it("tells the Spanish islands and cities apart by postal code", () => {
+    expect(getShippingZone("ES", "28001")).toBe("peninsula");
+    expect(getShippingZone("ES", "07001")).toBe("baleares");
+    expect(getShippingZone("ES", "35001")).toBe("canarias");
+    expect(getShippingZone("ES", "38001")).toBe("canarias");
+    expect(getShippingZone("ES", "51001")).toBe("ceuta_melilla");
+  });
+
+  it("puts other countries in the Europe or UK zones", () => {
+    expect(getShippingZone("PT", "1100-148")).toBe("europe");
+    expect(getShippingZone("GB", "SW1A 1AA")).toBe("united_kingdom");
+  });
+
+  it("returns null for postal codes that do not fit the country", () => {
+    expect(getShippingZone("ES", "2800")).toBeNull();
+    expect(getShippingZone("PT", "1100148")).toBeNull();
+  });
+});
+
+describe("getShippingPriceCents", () => {
+  it("charges nothing for take-away", () => {
+    expect(getShippingPriceCents(pickup, "ES", "", 1000)).toBe(0);
+  });
+
+  it("prices by zone and frees shipping above the threshold", () => {
+    expect(getShippingPriceCents(standard, "ES", "28001", 5999)).toBe(400);
+    expect(getShippingPriceCents(standard, "ES", "28001", 6000)).toBe(0);
+    expect(getShippingPriceCents(standard, "ES", "35001", 20000)).toBe(1200);
+    expect(getShippingPriceCents(standard, "GB", " sw1a 1aa ", 1000)).toBe(
+      2000
+    );
+  });
+
+  it("returns null where the rate does not ship or the address is unknown", () => {
+    expect(getShippingPriceCents(express, "ES", "35001", 1000)).toBeNull();
+    expect(getShippingPriceCents(standard, "ES", "", 1000)).toBeNull();
+  });
+});
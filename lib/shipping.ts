@@ -0,0 +1,97 @@
+import { COUNTRIES, CountryCode, normalizeZip } from "./countries";
+
+// Destination zones with different carrier prices. Within Spain, Baleares,
+// Canarias and Ceuta/Melilla are told apart from the peninsula by postal code
+// prefix.
+export type ShippingZone =
+  | "peninsula"
+  | "baleares"
+  | "canarias"
+  | "ceuta_melilla"
+  | "europe"
+  | "united_kingdom";
+
+export interface ShippingRate {
+  id: string;
+  // Title of the Shopify shipping line
+  title: string;
+  description: string;
+  // Taken away at the stand: nothing is shipped and no address is needed
+  pickup: boolean;
+  // Price in cents per zone; zones left out cannot use this rate
+  zonePrices: Partial<Record<ShippingZone, number>>;
+  // Subtotal in cents from which the rate is free, per zone
+  freeAboveCents?: Partial<Record<ShippingZone, number>>;
+}
+
+export const DEFAULT_SHIPPING_RATES: ShippingRate[] = [
+  {
+    id: "pickup",
+    title: "Recogida en stand",
+    description: "Take it with you now",
+    pickup: true,
+    zonePrices: {},
+  },
+  {
+    id: "standard",
+    title: "Estándar",
+    description: "3-5 working days",
+    pickup: false,
+    zonePrices: {
+      peninsula: 400,
+      baleares: 800,
+      canarias: 1200,
+      ceuta_melilla: 1200,
+      europe: 1500,
+      united_kingdom: 2000,
+    },
+    freeAboveCents: { peninsula: 6000, baleares: 10000 },
+  },
+  {
+    id: "express",
+    title: "Exprés",
+    description: "24-48 hours",
+    pickup: false,
+    zonePrices: { peninsula: 800, baleares: 1500 },
+  },
+];
+
+const ZONES_BY_ZIP_PREFIX: Record<string, ShippingZone> = {
+  "07": "baleares",
+  "35": "canarias",
+  "38": "canarias",
+  "51": "ceuta_melilla",
+  "52": "ceuta_melilla",
+};
+
+export function getShippingZone(
+  countryCode: CountryCode,
+  zip: string
+): ShippingZone | null {
+  if (!COUNTRIES[countryCode].zipPattern.test(zip)) return null;
+  if (countryCode === "GB") return "united_kingdom";
+  if (countryCode !== "ES") return "europe";
+  return ZONES_BY_ZIP_PREFIX[zip.slice(0, 2)] ?? "peninsula";
+}
+
+// Price of a rate for a destination, or null when it cannot be used there
+// (or the destination is not known yet)
+export function getShippingPriceCents(
+  rate: ShippingRate,
+  countryCode: CountryCode,
+  zip: string,
+  subtotalCents: number
+): number | null {
+  if (rate.pickup) return 0;
+
+  const zone = getShippingZone(countryCode, normalizeZip(zip));
+  if (!zone) return null;
+
+  const price = rate.zonePrices[zone];
+  if (price === undefined) return null;
+
+  const freeAbove = rate.freeAboveCents?.[zone];
+  if (freeAbove !== undefined && subtotalCents >= freeAbove) return 0;
+
+  return price;
+}
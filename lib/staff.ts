@@ -0,0 +1,40 @@
+export type StaffRole = "seller" | "manager";
+
+export type Permission =
+  | "orders:create"
+  | "orders:void"
+  | "reports:view"
+  | "discounts:approve"
+  | "events:manage";
+
+export interface StaffMember {
+  id: string;
+  name: string;
+  role: StaffRole;
+}
+
+const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  seller: ["orders:create"],
+  manager: [
+    "orders:create",
+    "orders:void",
+    "reports:view",
+    "discounts:approve",
+    "events:manage",
+  ],
+};
+
+export function hasPermission(staff: StaffMember, permission: Permission) {
+  return ROLE_PERMISSIONS[staff.role].includes(permission);
+}
+
+// Tag added to every order so sales can be filtered per staff member in Shopify
+export function staffTag(staffId: string) {
+  return `staff:${staffId}`;
+}
+
+// Staff id from an order's tags, the reverse of staffTag
+export function getStaffIdFromTags(tags: string[]): string | null {
+  const tag = tags.find((tag) => tag.startsWith("staff:"));
+  return tag ? tag.slice("staff:".length) : null;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { LiveStock, findLineStockErrors, findStockErrors } from "./stock";
+
+function stockOf(
+  entries: Array<[string, number, boolean?]>
+): Map<string, LiveStock> {
+  return new Map(
+    entries.map(([variantId, inventoryQuantity, unlimited = false]) => [
+      variantId,
+      { variantId, inventoryQuantity, unlimited },
+    ])
+  );
+}
+
+describe("findStockErrors", () => {
+  it("allows lines up to the stock not held by other checkouts", () => {
+    const errors = findStockErrors(
+      [
+        { variantId: "a", quantity: 2 },
+        { variantId: "b", quantity: 3 },
+      ],
+      stockOf([
+        ["a", 5],
+        ["b", 4],
+      ]),
+      (variantId) => (variantId === "b" ? 2 : 0)
+    );
+
+    expect(errors).toEqual([{ variantId: "b", requested: 3, available: 2 }]);
+  });
+
+  it("treats unknown variants as out of stock", () => {
+    expect(
+      findStockErrors(
+        [{ variantId: "gone", quantity: 1 }],
+        stockOf([]),
+        () => 0
+      )
+    ).toEqual([{ variantId: "gone", requested: 1, available: 0 }]);
+  });
+
+  it("never blocks unlimited variants", () => {
+    expect(
+      findStockErrors(
+        [{ variantId: "a", quantity: 10 }],
+        stockOf([["a", 0, true]]),
+        () => 0
+      )
+    ).toEqual([]);
+  });
+
+  it("adds up lines of the same variant", () => {
+    expect(
+      findStockErrors(
+        [
+          { variantId: "a", quantity: 2 },
+          { variantId: "a", quantity: 2 },
+        ],
+        stockOf([["a", 3]]),
+        () => 0
+      )
+    ).toEqual([{ variantId: "a", requested: 4, available: 3 }]);
+  });
+
+  it("does not report negative availability when holds exceed stock", () => {
+    expect(
+      findStockErrors(
+        [{ variantId: "a", quantity: 1 }],
+        stockOf([["a", 1]]),
+        () => 3
+      )
+    ).toEqual([{ variantId: "a", requested: 1, available: 0 }]);
+  });
+});
+
+describe("findLineStockErrors", () => {
+  it("checks warehouse lines against warehouse stock and holds", () => {
+    const errors = findLineStockErrors(
+      [
+        { variantId: "a", quantity: 1 },
+        { variantId: "a", quantity: 2, fromWarehouse: true },
+      ],
+      { popUp: stockOf([["a", 1]]), warehouse: stockOf([["a", 2]]) },
+      (_variantId, fromWarehouse) => (fromWarehouse ? 1 : 0)
+    );
+
+    expect(errors).toEqual([{ variantId: "a", requested: 2, available: 1 }]);
+  });
+});
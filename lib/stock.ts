@@ -0,0 +1,72 @@
+export interface LiveStock {
+  variantId: string;
+  inventoryQuantity: number;
+  // Untracked variants or ones that keep selling when out of stock never block an order
+  unlimited: boolean;
+}
+
+// Cart line as far as stock is concerned
+export interface StockLine {
+  variantId: string;
+  quantity: number;
+  // Shipped from the other locations because the pop-up has none left
+  fromWarehouse?: boolean;
+}
+
+export interface StockError {
+  variantId: string;
+  requested: number;
+  available: number;
+}
+
+// Lines of the same variant are added up first, so splitting a quantity over
+// several lines cannot take more than the stock
+export function findStockErrors(
+  lineItems: Array<{ variantId: string; quantity: number }>,
+  stock: Map<string, LiveStock>,
+  getHeldQuantity: (variantId: string) => number
+): StockError[] {
+  const requested = new Map<string, number>();
+  for (const item of lineItems) {
+    requested.set(
+      item.variantId,
+      (requested.get(item.variantId) ?? 0) + item.quantity
+    );
+  }
+
+  const errors: StockError[] = [];
+  for (const [variantId, quantity] of requested) {
+    const variant = stock.get(variantId);
+    if (variant?.unlimited) continue;
+
+    const available = Math.max(
+      0,
+      (variant?.inventoryQuantity ?? 0) - getHeldQuantity(variantId)
+    );
+    if (quantity > available) {
+      errors.push({ variantId, requested: quantity, available });
+    }
+  }
+
+  return errors;
+}
+
+// Pop-up lines are checked against the pop-up location's stock and warehouse
+// lines against the other locations'. Holds only count against the stock
+// they were taken from.
+export function findLineStockErrors(
+  lineItems: StockLine[],
+  stock: { popUp: Map<string, LiveStock>; warehouse: Map<string, LiveStock> },
+  getHeldQuantity: (variantId: string, fromWarehouse: boolean) => number
+): StockError[] {
+  const warehouseLines = lineItems.filter((item) => item.fromWarehouse);
+  const popUpLines = lineItems.filter((item) => !item.fromWarehouse);
+  return [
+    ...findStockErrors(popUpLines, stock.popUp, (variantId) =>
+      getHeldQuantity(variantId, false)
+    ),
+    ...findStockErrors(warehouseLines, stock.warehouse, (variantId) =>
+      getHeldQuantity(variantId, true)
+    ),
+  ];
+}
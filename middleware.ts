@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/session";
+
+export async function middleware(request: NextRequest) {
+  const staff = await verifySessionToken(
+    request.cookies.get(SESSION_COOKIE)?.value
+  );
+  if (staff) {
+    return NextResponse.next();
+  }
+
+  const loginUrl = new URL("/login", request.url);
+  loginUrl.searchParams.set("next", request.nextUrl.pathname);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  // Everything except the login page, Shopify webhooks (verified by their
+  // signature), the PWA manifest and service worker, and static assets
+  // requires a session
+  matcher: [
+    "/((?!login|api/webhooks|manifest.webmanifest|sw.js|_next/static|_next/image|favicon.ico|.*\\.(?:png|svg|ico)$).*)",
+  ],
+};
@@ -0,0 +1,13 @@
+// Prints the pinHash for a staff account in STAFF_ACCOUNTS.
+// Usage: npm run hash-pin -- 1234
+import { randomBytes, scryptSync } from "crypto";
+
+const pin = process.argv[2];
+if (!pin) {
+  console.error("Usage: npm run hash-pin -- <pin>");
+  process.exit(1);
+}
+
+const salt = randomBytes(16);
+const hash = scryptSync(pin, salt, 32);
+console.log(`scrypt:${salt.toString("hex")}:${hash.toString("hex")}`);